@@ -6,6 +6,9 @@ import {
 	args_parse,
 	args_serialize,
 	args_extract_aliases,
+	args_extract_fields,
+	args_suggest,
+	args_error_suggestions,
 	argv_parse,
 	type Args,
 } from './args.ts';
@@ -454,6 +457,162 @@ describe('args_parse', () => {
 	});
 });
 
+describe('args_extract_fields', () => {
+	test('describes each field in schema order', () => {
+		const schema = z.strictObject({
+			_: z.array(z.string()).default([]).meta({description: 'files'}),
+			output: z
+				.string()
+				.default('dist')
+				.meta({aliases: ['o'], description: 'output directory'}),
+			verbose: z.boolean().optional(),
+			port: z.number(),
+		});
+		expect(args_extract_fields(schema)).toEqual([
+			{
+				name: '_',
+				aliases: [],
+				type: 'array',
+				values: null,
+				element_type: 'string',
+				meta: {description: 'files'},
+				default: [],
+				required: false,
+				description: 'files',
+			},
+			{
+				name: 'output',
+				aliases: ['o'],
+				type: 'string',
+				values: null,
+				element_type: null,
+				meta: {aliases: ['o'], description: 'output directory'},
+				default: 'dist',
+				required: false,
+				description: 'output directory',
+			},
+			{
+				name: 'verbose',
+				aliases: [],
+				type: 'boolean',
+				values: null,
+				element_type: null,
+				meta: {},
+				default: undefined,
+				required: false,
+				description: '',
+			},
+			{
+				name: 'port',
+				aliases: [],
+				type: 'number',
+				values: null,
+				element_type: null,
+				meta: {},
+				default: undefined,
+				required: true,
+				description: '',
+			},
+		]);
+	});
+
+	test('extracts the values of enums and literals', () => {
+		const schema = z.strictObject({
+			format: z.enum(['json', 'text']).default('text'),
+			mode: z.literal(['a', 'b']).optional(),
+			targets: z.array(z.enum(['node', 'browser'])).default([]),
+		});
+		const fields = args_extract_fields(schema);
+		expect(fields.map((f) => [f.type, f.values])).toEqual([
+			['enum', ['json', 'text']],
+			['literal', ['a', 'b']],
+			['array', ['node', 'browser']],
+		]);
+	});
+
+	test('reads descriptions from wrapped fields', () => {
+		const schema = z.strictObject({
+			inner: z.string().meta({description: 'inner description'}).default(''),
+			described: z.number().describe('from describe').optional(),
+		});
+		const fields = args_extract_fields(schema);
+		expect(fields.map((f) => f.description)).toEqual(['inner description', 'from describe']);
+	});
+
+	test('merges metadata of wrapped fields, outer wrappers first', () => {
+		const schema = z.strictObject({
+			ports: z
+				.array(z.number().optional())
+				.meta({env: 'INNER', config: 'server.ports'})
+				.default([])
+				.meta({env: 'OUTER'}),
+		});
+		const [field] = args_extract_fields(schema);
+		expect(field!.meta).toEqual({env: 'OUTER', config: 'server.ports'});
+		expect(field!.element_type).toBe('number');
+	});
+
+	test('handles non-object schemas', () => {
+		expect(args_extract_fields(z.string())).toEqual([]);
+	});
+});
+
+describe('args_suggest', () => {
+	test('returns close candidates, closest first', () => {
+		expect(args_suggest('port', ['host', 'part', 'verbose'])).toEqual(['part', 'host']);
+		expect(args_suggest('ESN', ['esm', 'cjs'])).toEqual(['esm']);
+	});
+
+	test('ignores distant candidates and replacements of short inputs', () => {
+		expect(args_suggest('output', ['watch', 'verbose'])).toEqual([]);
+		expect(args_suggest('x', ['v', 'o'])).toEqual([]);
+	});
+});
+
+describe('args_error_suggestions', () => {
+	const schema = z.strictObject({
+		verbose: z
+			.boolean()
+			.default(false)
+			.meta({aliases: ['v']}),
+		format: z
+			.enum(['json', 'text'])
+			.default('text')
+			.meta({aliases: ['f']}),
+		targets: z.array(z.enum(['node', 'browser'])).default([]),
+	});
+
+	test('suggests flags for unknown flags', () => {
+		const args = {verbos: true, 'no-verbos': true, zzz: true};
+		const parsed = args_parse(args, schema);
+
+		const suggestions = args_error_suggestions(parsed.error!, args, schema);
+
+		expect(
+			suggestions.map(({type, name, value, suggestions}) => ({type, name, value, suggestions})),
+		).toEqual([
+			{type: 'unknown_flag', name: 'verbos', value: null, suggestions: ['verbose']},
+			{type: 'unknown_flag', name: 'no-verbos', value: null, suggestions: ['no-verbose']},
+			{type: 'unknown_flag', name: 'zzz', value: null, suggestions: []},
+		]);
+		expect(suggestions[0]!.issue).toBe(parsed.error!.issues[0]);
+	});
+
+	test('suggests allowed values for invalid values, including aliases and arrays', () => {
+		const args = {f: 'jsno', targets: ['node', 'browsr']};
+		const parsed = args_parse(args, schema);
+
+		const suggestions = args_error_suggestions(parsed.error!, args, schema);
+
+		expect(
+			suggestions.map(({type, name, value, suggestions}) => ({type, name, value, suggestions})),
+		).toEqual([
+			{type: 'invalid_value', name: 'format', value: 'jsno', suggestions: ['json']},
+			{type: 'invalid_value', name: 'targets', value: 'browsr', suggestions: ['browser']},
+		]);
+	});
+});
+
 describe('args_extract_aliases', () => {
 	test('extracts single alias and canonical keys', () => {
 		const schema = z.strictObject({
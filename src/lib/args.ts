@@ -1,5 +1,7 @@
 import {z} from 'zod';
 
+import {levenshtein_distance} from './string.js';
+
 /**
  * CLI arguments container.
  * Positional arguments stored in `_`, named flags/options as string keys.
@@ -26,7 +28,7 @@ export type ArgValue = string | number | boolean | undefined | Array<string | nu
 /**
  * Schema description for help text generation.
  * Not used by args_parse/args_serialize directly - provided for consumers
- * building CLI help output.
+ * building CLI help output, see `args_extract_fields`.
  */
 export interface ArgSchema {
 	type: string;
@@ -34,6 +36,25 @@ export interface ArgSchema {
 	description: string;
 }
 
+/**
+ * Description of a field of an args schema, extracted by `args_extract_fields`.
+ * `type` is the zod type of the field without wrappers like `optional` and `default`.
+ */
+export interface ArgsField extends ArgSchema {
+	/** Canonical key, `_` for positionals */
+	name: string;
+	/** Aliases from `.meta({aliases})` */
+	aliases: Array<string>;
+	/** Allowed values of enum and literal fields and arrays of them, otherwise null */
+	values: Array<string> | null;
+	/** Zod type of the elements of array fields without wrappers, otherwise null */
+	element_type: string | null;
+	/** Metadata of the field and its wrappers, outer wrappers taking precedence */
+	meta: Record<string, unknown>;
+	/** True if the field has no default and isn't optional */
+	required: boolean;
+}
+
 /**
  * Result of alias extraction from a schema.
  * Includes canonical keys for downstream conflict detection.
@@ -71,6 +92,28 @@ const is_boolean_field = (schema: z.ZodType): boolean => {
 	return false;
 };
 
+// Internal: Get the shape of an object schema (recursing through wrappers)
+const get_schema_shape = (schema: z.ZodType): Record<string, z.ZodType> | null => {
+	let def = schema._zod.def;
+	while (!('shape' in def)) {
+		const inner = unwrap_schema(def);
+		if (!inner) return null;
+		def = inner._zod.def;
+	}
+	return (def as z.core.$ZodObjectDef).shape as Record<string, z.ZodType>;
+};
+
+// Internal: Get the allowed values of enum and literal types
+const get_schema_values = (def: z.core.$ZodTypeDef): Array<string> | null => {
+	if (def.type === 'enum') {
+		return Object.values((def as z.core.$ZodEnumDef).entries).map((v) => v + '');
+	}
+	if (def.type === 'literal') {
+		return (def as z.core.$ZodLiteralDef<z.core.util.Literal>).values.map((v) => String(v));
+	}
+	return null;
+};
+
 // Internal: Schema analysis result
 interface SchemaAnalysisResult {
 	aliases: Map<string, string>;
@@ -90,17 +133,10 @@ const analyze_schema = (schema: z.ZodType): SchemaAnalysisResult => {
 	const canonical_keys: Set<string> = new Set();
 	const boolean_keys: Set<string> = new Set();
 	const errors: SchemaAnalysisResult['errors'] = [];
-	const def = schema._zod.def;
-
-	// Unwrap to get object def (handle wrapped types like optional, default, etc.)
-	let obj_def = def;
-	while (!('shape' in obj_def)) {
-		const inner = unwrap_schema(obj_def);
-		if (!inner) return {aliases, canonical_keys, boolean_keys, errors};
-		obj_def = inner._zod.def;
-	}
 
-	const shape = (obj_def as z.core.$ZodObjectDef).shape;
+	// Unwrap to get object shape (handle wrapped types like optional, default, etc.)
+	const shape = get_schema_shape(schema);
+	if (!shape) return {aliases, canonical_keys, boolean_keys, errors};
 
 	// First pass: collect all canonical keys
 	for (const key of Object.keys(shape)) {
@@ -108,9 +144,7 @@ const analyze_schema = (schema: z.ZodType): SchemaAnalysisResult => {
 	}
 
 	// Second pass: process fields for aliases and booleans
-	for (const [key, field] of Object.entries(shape)) {
-		const field_schema = field as z.ZodType;
-
+	for (const [key, field_schema] of Object.entries(shape)) {
 		// Track boolean fields for no- prefix sync
 		if (is_boolean_field(field_schema)) {
 			boolean_keys.add(key);
@@ -360,6 +394,184 @@ export const args_extract_aliases = (schema: z.ZodType): ArgsAliasesResult => {
 	};
 };
 
+/**
+ * Extracts a description of each field of a zod args schema, in schema order.
+ *
+ * Reads descriptions from `.meta({description})` or `.describe()` on the field or its wrappers,
+ * and aliases from `.meta({aliases})` like `args_parse`.
+ * Useful for generating help text and shell completions.
+ *
+ * @param schema Zod object schema with optional metadata on fields
+ * @returns Fields in schema order, empty for non-object schemas
+ */
+export const args_extract_fields = (schema: z.ZodType): Array<ArgsField> => {
+	const shape = get_schema_shape(schema);
+	if (!shape) return [];
+	const cache = get_schema_cache(schema);
+
+	const fields: Array<ArgsField> = [];
+	for (const [name, field_schema] of Object.entries(shape)) {
+		let description: string | undefined;
+		let default_value: ArgValue;
+		let required = true;
+		let meta: Record<string, unknown> = {};
+
+		// Unwrap to the inner type, collecting metadata of the wrappers
+		let current: z.ZodType = field_schema;
+		while (true) {
+			const current_meta = current.meta();
+			description ??= current_meta?.description;
+			if (current_meta) meta = {...current_meta, ...meta};
+			const def = current._zod.def;
+			if (def.type === 'default' || def.type === 'prefault') {
+				if (required) default_value = (def as z.core.$ZodDefaultDef).defaultValue as ArgValue;
+				required = false;
+			} else if (def.type === 'optional') {
+				required = false;
+			}
+			const inner = unwrap_schema(def);
+			if (!inner) break;
+			current = inner;
+		}
+
+		const def = current._zod.def;
+		let values = get_schema_values(def);
+		let element_type: string | null = null;
+		if (def.type === 'array') {
+			let element = (def as z.core.$ZodArrayDef).element as z.ZodType;
+			for (let inner = unwrap_schema(element._zod.def); inner;) {
+				element = inner;
+				inner = unwrap_schema(element._zod.def);
+			}
+			values = get_schema_values(element._zod.def);
+			element_type = element._zod.def.type;
+		}
+
+		const aliases: Array<string> = [];
+		for (const [alias, canonical] of cache.aliases) {
+			if (canonical === name) aliases.push(alias);
+		}
+
+		fields.push({
+			name,
+			aliases,
+			type: def.type,
+			values,
+			element_type,
+			meta,
+			default: default_value,
+			required,
+			description: description ?? '',
+		});
+	}
+	return fields;
+};
+
+/**
+ * A suggestion for an unknown flag or an invalid value of a field, see `args_error_suggestions`.
+ */
+export interface ArgsSuggestion {
+	type: 'unknown_flag' | 'invalid_value';
+	/** The issue of the `args_parse` error */
+	issue: z.core.$ZodIssue;
+	/** The unknown flag or the field with the invalid value, without dashes */
+	name: string;
+	/** The invalid value as given, null for unknown flags */
+	value: string | null;
+	/** Closest matches first, flag names without dashes or allowed values, may be empty */
+	suggestions: Array<string>;
+}
+
+/**
+ * Finds the candidates closest to a mistyped input by `levenshtein_distance`, ignoring case.
+ * Candidates must be within two edits or a third of the input's length, whichever is more,
+ * and closer than replacing the input entirely.
+ *
+ * @param input The mistyped input
+ * @param candidates Valid inputs
+ * @returns Matching candidates, closest first
+ */
+export const args_suggest = (input: string, candidates: Iterable<string>): Array<string> => {
+	const lower = input.toLowerCase();
+	const max_distance = Math.max(2, Math.floor(input.length / 3));
+	const matches: Array<{candidate: string; distance: number}> = [];
+	for (const candidate of candidates) {
+		const distance = levenshtein_distance(lower, candidate.toLowerCase());
+		if (distance <= max_distance && distance < input.length) {
+			matches.push({candidate, distance});
+		}
+	}
+	return matches.sort((a, b) => a.distance - b.distance).map((m) => m.candidate);
+};
+
+/**
+ * Suggests flags for unknown flags and allowed values for invalid enum and literal values
+ * in the error of `args_parse`, like `verbose` for `--verbos`.
+ * Pass the suggestions to `args_error_format` to show them.
+ *
+ * @param error Error of a failed `args_parse`
+ * @param unparsed_args The args passed to `args_parse`
+ * @param schema The schema passed to `args_parse`
+ * @returns One entry per unknown flag and invalid value, in issue order
+ */
+export const args_error_suggestions = (
+	error: z.ZodError,
+	unparsed_args: Args,
+	schema: z.ZodType,
+): Array<ArgsSuggestion> => {
+	const cache = get_schema_cache(schema);
+	const flag_names: Array<string> = [];
+	for (const key of cache.canonical_keys) {
+		if (key === '_') continue;
+		flag_names.push(key);
+		if (cache.boolean_keys.has(key) && !key.startsWith('no-')) flag_names.push('no-' + key);
+	}
+	flag_names.push(...cache.aliases.keys());
+
+	const result: Array<ArgsSuggestion> = [];
+	for (const issue of error.issues) {
+		if (issue.code === 'unrecognized_keys') {
+			for (const key of issue.keys) {
+				if (key === '_') continue;
+				result.push({
+					type: 'unknown_flag',
+					issue,
+					name: key,
+					value: null,
+					suggestions: args_suggest(key, flag_names),
+				});
+			}
+		} else if (issue.code === 'invalid_value' && typeof issue.path[0] === 'string') {
+			const name = issue.path[0];
+			let value: ArgValue = unparsed_args[name];
+			if (value === undefined) {
+				for (const [alias, canonical] of cache.aliases) {
+					if (canonical === name && unparsed_args[alias] !== undefined) {
+						value = unparsed_args[alias];
+						break;
+					}
+				}
+			}
+			// Values of arrays have the index in the path
+			const index = issue.path[1];
+			if (typeof index === 'number' && Array.isArray(value)) value = value[index];
+			if (value === undefined) continue;
+			const value_string = String(value);
+			result.push({
+				type: 'invalid_value',
+				issue,
+				name,
+				value: value_string,
+				suggestions: args_suggest(
+					value_string,
+					issue.values.map((v) => String(v)),
+				),
+			});
+		}
+	}
+	return result;
+};
+
 // Internal: Try to coerce a string value to number if it looks numeric
 const coerce_value = (value: string): string | number => {
 	// Handle empty string
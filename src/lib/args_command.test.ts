@@ -0,0 +1,301 @@
+import {describe, test, expect} from 'vitest';
+import {z} from 'zod';
+
+import {
+	args_command,
+	args_command_help,
+	args_command_run,
+	args_error_format,
+	type ArgsCommand,
+} from './args_command.ts';
+import {args_parse, args_error_suggestions} from './args.ts';
+
+const create_cli = () => {
+	const calls: Array<[string, unknown]> = [];
+	const build = args_command({
+		description: 'build the project\nwith more details',
+		schema: z.strictObject({
+			_: z.array(z.string()).default([]).meta({description: 'files to build'}),
+			out: z
+				.string()
+				.default('dist')
+				.meta({aliases: ['o'], description: 'output directory'}),
+			watch: z
+				.boolean()
+				.default(false)
+				.meta({aliases: ['w'], description: 'rebuild on changes'}),
+			format: z.enum(['esm', 'cjs']).default('esm').meta({description: 'module format'}),
+		}),
+		run: (args) => {
+			calls.push(['build', args]);
+		},
+	});
+	const migrate = args_command({
+		description: 'run migrations',
+		schema: z.strictObject({
+			to: z.number().meta({description: 'target version'}),
+		}),
+		run: (args) => {
+			calls.push(['db migrate', args]);
+			return 3;
+		},
+	});
+	const cli: ArgsCommand = {
+		description: 'Builds projects',
+		commands: {
+			build,
+			db: {description: 'database commands', commands: {migrate}},
+			version: {run: () => void calls.push(['version', null])},
+		},
+	};
+	return {cli, calls};
+};
+
+const run = async (cli: ArgsCommand, argv: Array<string>) => {
+	const logs: Array<string> = [];
+	const errors: Array<string> = [];
+	const result = await args_command_run(cli, {
+		name: 'tool',
+		argv,
+		log: (message) => logs.push(message),
+		log_error: (message) => errors.push(message),
+	});
+	return {...result, logs: logs.join('\n'), errors: errors.join('\n')};
+};
+
+describe('args_command_run', () => {
+	test('routes to a subcommand with validated args', async () => {
+		const {cli, calls} = create_cli();
+
+		const result = await run(cli, ['build', 'a.ts', 'b.ts', '-o', 'build', '--watch']);
+
+		expect(result.exit_code).toBe(0);
+		expect(result.path).toEqual(['build']);
+		expect(calls).toEqual([
+			['build', {_: ['a.ts', 'b.ts'], out: 'build', watch: true, format: 'esm'}],
+		]);
+	});
+
+	test('routes to nested subcommands and returns their exit code', async () => {
+		const {cli, calls} = create_cli();
+
+		const result = await run(cli, ['db', 'migrate', '--to', '2']);
+
+		expect(result.exit_code).toBe(3);
+		expect(result.path).toEqual(['db', 'migrate']);
+		expect(calls).toEqual([['db migrate', {to: 2}]]);
+	});
+
+	test('commands without a schema reject args', async () => {
+		const {cli, calls} = create_cli();
+
+		expect((await run(cli, ['version'])).exit_code).toBe(0);
+		expect(calls).toEqual([['version', null]]);
+
+		const result = await run(cli, ['version', 'extra', '--flag']);
+		expect(result.exit_code).toBe(1);
+		expect(result.errors).toContain('unexpected arguments');
+		expect(result.errors).toContain('unknown option --flag');
+	});
+
+	test('prints friendly errors for invalid args', async () => {
+		const {cli, calls} = create_cli();
+
+		const result = await run(cli, ['build', '--format', 'umd', '--bogus']);
+
+		expect(result.exit_code).toBe(1);
+		expect(calls).toEqual([]);
+		expect(result.errors).toContain('Invalid arguments:');
+		expect(result.errors).toContain('  --format: ');
+		expect(result.errors).toContain('  unknown option --bogus');
+		expect(result.errors).toContain("Run 'tool build --help' for usage.");
+	});
+
+	test('suggests flags and values for typos', async () => {
+		const {cli} = create_cli();
+
+		const result = await run(cli, ['build', '--watc', '--format', 'cj']);
+
+		expect(result.exit_code).toBe(1);
+		expect(result.errors).toContain('  unknown option --watc (did you mean --watch?)');
+		expect(result.errors).toMatch(/ {2}--format: .+ \(did you mean 'cjs'\?\)/);
+	});
+
+	test('rejects positionals when the schema has no `_`', async () => {
+		const {cli} = create_cli();
+
+		const result = await run(cli, ['db', 'migrate', 'up', '--to', '2']);
+
+		expect(result.exit_code).toBe(1);
+		expect(result.errors).toContain('unexpected arguments');
+	});
+
+	test('prints help for --help and -h', async () => {
+		const {cli, calls} = create_cli();
+
+		const root = await run(cli, ['--help']);
+		expect(root.exit_code).toBe(0);
+		expect(root.path).toEqual([]);
+		expect(root.logs).toContain('Usage: tool <command> [options]');
+
+		const build = await run(cli, ['build', '-h', '--format', 'invalid']);
+		expect(build.exit_code).toBe(0);
+		expect(build.path).toEqual(['build']);
+		expect(build.logs).toContain('Usage: tool build [options] [args...]');
+		expect(calls).toEqual([]);
+	});
+
+	test('help flags used by the schema are passed to the command', async () => {
+		const args: Array<unknown> = [];
+		const cli = args_command({
+			schema: z.strictObject({
+				host: z
+					.string()
+					.default('localhost')
+					.meta({aliases: ['h']}),
+			}),
+			run: (a) => void args.push(a),
+		});
+
+		const result = await run(cli, ['-h', 'example.com']);
+		expect(result.exit_code).toBe(0);
+		expect(args).toEqual([{host: 'example.com'}]);
+
+		expect((await run(cli, ['--help'])).logs).toContain('      --help           show help');
+	});
+
+	test('fails with help for missing and unknown commands', async () => {
+		const {cli} = create_cli();
+
+		const missing = await run(cli, []);
+		expect(missing.exit_code).toBe(1);
+		expect(missing.errors).toContain('Missing command\n\nUsage: tool <command> [options]');
+
+		const unknown = await run(cli, ['deploy']);
+		expect(unknown.exit_code).toBe(1);
+		expect(unknown.errors).toContain("Unknown command 'deploy'");
+
+		const nested = await run(cli, ['db', 'seed']);
+		expect(nested.path).toEqual(['db']);
+		expect(nested.errors).toContain("Unknown command 'seed'\n\nUsage: tool db <command> [options]");
+	});
+
+	test('commands with both run and subcommands', async () => {
+		const calls: Array<string> = [];
+		const cli = args_command({
+			schema: z.strictObject({_: z.array(z.string()).default([])}),
+			run: (args) => void calls.push(`root ${args._.join(',')}`),
+			commands: {sub: {run: () => void calls.push('sub')}},
+		});
+
+		await run(cli, ['sub']);
+		await run(cli, ['other']);
+
+		expect(calls).toEqual(['sub', 'root other']);
+		expect(args_command_help(cli, 'tool')).toContain('Usage: tool [command] [options] [args...]');
+	});
+
+	test('errors thrown by commands propagate', async () => {
+		const cli = args_command({
+			run: () => {
+				throw new Error('failed');
+			},
+		});
+
+		await expect(run(cli, [])).rejects.toThrow('failed');
+	});
+});
+
+describe('args_command_help', () => {
+	test('lists arguments and options with aliases and defaults', () => {
+		const {cli} = create_cli();
+
+		expect(args_command_help(cli.commands!.build!, 'tool build')).toBe(
+			[
+				'Usage: tool build [options] [args...]',
+				'',
+				'build the project\nwith more details',
+				'',
+				'Arguments:',
+				'  args...  files to build',
+				'',
+				'Options:',
+				'  -o, --out <string>      output directory (default: dist)',
+				'  -w, --watch             rebuild on changes',
+				'      --format <esm|cjs>  module format (default: esm)',
+				'  -h, --help              show help',
+			].join('\n'),
+		);
+	});
+
+	test('lists subcommands with the first line of their descriptions', () => {
+		const {cli} = create_cli();
+
+		expect(args_command_help(cli, 'tool')).toBe(
+			[
+				'Usage: tool <command> [options]',
+				'',
+				'Builds projects',
+				'',
+				'Commands:',
+				'  build    build the project',
+				'  db       database commands',
+				'  version',
+				'',
+				'Options:',
+				'  -h, --help  show help',
+				'',
+				"Run 'tool <command> --help' for help on a command.",
+			].join('\n'),
+		);
+	});
+
+	test('marks required options', () => {
+		const {cli} = create_cli();
+		const db = cli.commands!.db!;
+
+		expect(args_command_help(db.commands!.migrate!, 'tool db migrate')).toContain(
+			'      --to <number>  target version (required)',
+		);
+	});
+});
+
+describe('args_error_format', () => {
+	test('formats each issue with the flag name', () => {
+		const schema = z.strictObject({
+			_: z.array(z.string()).max(1),
+			v: z.boolean(),
+			count: z.number(),
+		});
+		const parsed = args_parse({_: ['a', 'b'], v: 'yes', count: 1, extra: true}, schema);
+		expect(parsed.success).toBe(false);
+
+		const message = args_error_format(parsed.error!);
+
+		expect(message).toMatch(/^Invalid arguments:\n/);
+		expect(message).toContain('  arguments: ');
+		expect(message).toContain('  -v: ');
+		expect(message).toContain('  unknown option --extra');
+		expect(message).not.toContain('--count');
+	});
+
+	test('shows the best suggestions', () => {
+		const schema = z.strictObject({verbose: z.boolean().default(false)});
+		const args = {verbos: true, vrebose: true, xyz: true};
+		const parsed = args_parse(args, schema);
+
+		const message = args_error_format(
+			parsed.error!,
+			args_error_suggestions(parsed.error!, args, schema),
+		);
+
+		expect(message).toBe(
+			[
+				'Invalid arguments:',
+				'  unknown option --verbos (did you mean --verbose?)',
+				'  unknown option --vrebose (did you mean --verbose?)',
+				'  unknown option --xyz',
+			].join('\n'),
+		);
+	});
+});
@@ -0,0 +1,359 @@
+/**
+ * Subcommand routing and help generation on top of `args_parse`.
+ *
+ * Commands are trees: the first positional selects a subcommand from `commands`,
+ * and the rest of the args are validated against the selected command's `schema`.
+ * `--help` and `-h` print help generated from the schema's descriptions, aliases, and defaults.
+ *
+ * ```ts
+ * const cli = args_command({
+ *   description: 'Builds and serves projects',
+ *   commands: {
+ *     build: args_command({
+ *       description: 'build the project',
+ *       schema: z.strictObject({
+ *         out: z.string().default('dist').meta({aliases: ['o'], description: 'output directory'}),
+ *       }),
+ *       run: async ({out}) => build(out),
+ *     }),
+ *   },
+ * });
+ *
+ * await args_command_main(cli, {name: 'tool'}); // tool build -o build
+ * ```
+ *
+ * @module
+ */
+
+import {z} from 'zod';
+
+import {
+	argv_parse,
+	args_parse,
+	args_extract_fields,
+	args_error_suggestions,
+	type Args,
+	type ArgsField,
+	type ArgsSuggestion,
+	type ArgValue,
+} from './args.js';
+
+/**
+ * A command with a schema and a `run` function, subcommands, or both.
+ * Use `args_command` to infer the type of the args of `run` from the schema.
+ */
+export interface ArgsCommand<TArgs extends Record<string, ArgValue> = Args> {
+	/** Shown in help, the first line is shown in the list of commands of the parent */
+	description?: string;
+	/**
+	 * Schema of the args, validated with `args_parse`.
+	 * Include `_` to accept positionals, which are rejected otherwise.
+	 * Defaults to a schema without args.
+	 */
+	schema?: z.ZodType<TArgs>;
+	/** Runs the command with the validated args, returning the exit code (default: 0) */
+	run?: (args: TArgs) => number | void | Promise<number | void>;
+	/** Subcommands by name, selected by the first positional */
+	commands?: Record<string, ArgsCommand>;
+}
+
+/**
+ * Options of `args_command_run`.
+ */
+export interface ArgsCommandRunOptions {
+	/** Name of the program, shown in help like `Usage: tool build [options]` */
+	name: string;
+	/** Raw CLI args (default: `process.argv.slice(2)`) */
+	argv?: Array<string>;
+	/** Prints help (default: `console.log`) */
+	log?: (message: string) => void;
+	/** Prints errors with the help of misused commands (default: `console.error`) */
+	log_error?: (message: string) => void;
+}
+
+/**
+ * Result of `args_command_run`.
+ */
+export interface ArgsCommandRunResult {
+	/** Exit code returned by `run`, or 1 for invalid args and missing or unknown commands */
+	exit_code: number;
+	/** Names of the selected subcommands from the root, like `['db', 'migrate']` */
+	path: Array<string>;
+}
+
+/**
+ * Infers the type of the args of `run` from the schema,
+ * returning a command usable as `ArgsCommand` like in `commands`.
+ * @param command The command
+ * @returns The command with `run` accepting the args validated by the schema
+ */
+export const args_command = <TArgs extends Record<string, ArgValue>>(
+	command: ArgsCommand<TArgs>,
+): ArgsCommand => {
+	const {run, ...rest} = command;
+	// `run` only receives args validated by `schema`, so they have its type
+	return run ? {...rest, run: (args) => run(args as TArgs)} : rest;
+};
+
+/**
+ * Routes CLI args to a command and runs it without exiting, see `args_command_main`.
+ * Prints help for `--help` and `-h`, unless the schema uses them.
+ * Errors thrown by `run` propagate.
+ *
+ * @param command The root command
+ * @param options Program name, args, and output overrides
+ * @returns The exit code and the path of the selected command
+ *
+ * @example
+ * ```ts
+ * const {exit_code} = await args_command_run(cli, {name: 'tool', argv: ['build', '--out', 'dist']});
+ * ```
+ */
+export const args_command_run = async (
+	command: ArgsCommand,
+	options: ArgsCommandRunOptions,
+): Promise<ArgsCommandRunResult> => {
+	const {
+		name,
+		argv = process.argv.slice(2),
+		log = console.log, // eslint-disable-line no-console
+		log_error = console.error, // eslint-disable-line no-console
+	} = options;
+
+	const args = argv_parse(argv);
+
+	// Select subcommands by the leading positionals
+	const path: Array<string> = [];
+	let current = command;
+	while (current.commands && args._.length > 0 && Object.hasOwn(current.commands, args._[0]!)) {
+		const subcommand_name = args._.shift()!;
+		path.push(subcommand_name);
+		current = current.commands[subcommand_name]!;
+	}
+	const usage_name = [name, ...path].join(' ');
+
+	const fields = current.schema ? args_extract_fields(current.schema) : [];
+	if (is_help_requested(args, fields)) {
+		log(args_command_help(current, usage_name));
+		return {exit_code: 0, path};
+	}
+
+	if (!current.run) {
+		const unknown = args._[0];
+		log_error(
+			(unknown === undefined ? 'Missing command' : `Unknown command '${unknown}'`) +
+				'\n\n' +
+				args_command_help(current, usage_name),
+		);
+		return {exit_code: 1, path};
+	}
+
+	// Positionals are rejected by schemas without `_` unless there are none
+	const unparsed: Args = args._.length === 0 ? omit_positionals(args) : args;
+	const schema: z.ZodType<Args> = current.schema ?? EMPTY_SCHEMA;
+	const parsed = args_parse(unparsed, schema);
+	if (!parsed.success) {
+		const suggestions = args_error_suggestions(parsed.error, unparsed, schema);
+		log_error(
+			`${args_error_format(parsed.error, suggestions)}\n\nRun '${usage_name} --help' for usage.`,
+		);
+		return {exit_code: 1, path};
+	}
+
+	const exit_code = await current.run(parsed.data);
+	return {exit_code: exit_code ?? 0, path};
+};
+
+/**
+ * Routes CLI args to a command, runs it, and sets `process.exitCode`.
+ *
+ * @param command The root command
+ * @param options Program name, args, and output overrides
+ */
+export const args_command_main = async (
+	command: ArgsCommand,
+	options: ArgsCommandRunOptions,
+): Promise<void> => {
+	const {exit_code} = await args_command_run(command, options);
+	process.exitCode = exit_code;
+};
+
+/**
+ * Generates help text of a command from its description, subcommands,
+ * and the descriptions, aliases, and defaults of its schema's fields.
+ *
+ * @param command The command
+ * @param usage_name Name of the program and the selected subcommands, like `'tool build'`
+ * @returns Help text like `Usage: tool build [options]` followed by the sections
+ */
+export const args_command_help = (command: ArgsCommand, usage_name: string): string => {
+	const fields = command.schema ? args_extract_fields(command.schema) : [];
+	const positionals = fields.find((f) => f.name === '_');
+	const options = fields.filter((f) => f.name !== '_');
+	const commands = command.commands ? Object.entries(command.commands) : [];
+
+	let usage = `Usage: ${usage_name}`;
+	if (commands.length > 0) usage += command.run ? ' [command]' : ' <command>';
+	usage += ' [options]';
+	if (positionals) usage += positionals.required ? ' <args...>' : ' [args...]';
+	const sections: Array<string> = [usage];
+
+	if (command.description) {
+		sections.push(command.description);
+	}
+
+	if (positionals?.description) {
+		sections.push('Arguments:\n' + format_rows([['args...', format_description(positionals)]]));
+	}
+
+	if (commands.length > 0) {
+		sections.push(
+			'Commands:\n' +
+				format_rows(
+					commands.map(([subcommand_name, subcommand]) => [
+						subcommand_name,
+						subcommand.description?.split('\n', 1)[0] ?? '',
+					]),
+				),
+		);
+	}
+
+	const option_rows = options.map((field): [string, string] => [
+		format_option_names(field),
+		format_description(field),
+	]);
+	const help_names = args_command_help_names(fields);
+	if (help_names.length > 0) {
+		option_rows.push([format_names(help_names), 'show help']);
+	}
+	if (option_rows.length > 0) {
+		sections.push('Options:\n' + format_rows(option_rows));
+	}
+
+	if (commands.length > 0) {
+		sections.push(`Run '${usage_name} <command> --help' for help on a command.`);
+	}
+
+	return sections.join('\n\n');
+};
+
+/**
+ * Formats the errors of `args_parse` as a user-friendly message,
+ * naming flags like `--out` and positionals as arguments.
+ *
+ * @param error Error of a failed `args_parse`
+ * @param suggestions Suggestions to show like `did you mean --verbose?`, see `args_error_suggestions`
+ * @returns Message like `Invalid arguments:` followed by one line per issue
+ */
+export const args_error_format = (
+	error: z.ZodError,
+	suggestions: Array<ArgsSuggestion> = [],
+): string => {
+	const lines: Array<string> = [];
+	for (const issue of error.issues) {
+		const key = issue.path[0];
+		if (issue.code === 'unrecognized_keys') {
+			for (const unrecognized of issue.keys) {
+				lines.push(
+					unrecognized === '_'
+						? 'unexpected arguments'
+						: `unknown option ${format_flag(unrecognized)}` +
+								format_suggestion(suggestions, issue, unrecognized),
+				);
+			}
+		} else if (key === undefined) {
+			lines.push(issue.message);
+		} else if (key === '_') {
+			lines.push(`arguments: ${issue.message}`);
+		} else {
+			lines.push(
+				`${format_flag(String(key))}: ${issue.message}` +
+					format_suggestion(suggestions, issue, String(key)),
+			);
+		}
+	}
+	return 'Invalid arguments:\n' + lines.map((line) => `  ${line}`).join('\n');
+};
+
+/**
+ * Gets the help flags of a command, `help` and `h` unless its schema uses them for its own fields.
+ * @param fields Fields of the command's schema, see `args_extract_fields`
+ * @returns Names of the help flags without dashes
+ */
+export const args_command_help_names = (fields: Array<ArgsField>): Array<string> => {
+	const used: Set<string> = new Set();
+	for (const field of fields) {
+		used.add(field.name);
+		for (const alias of field.aliases) used.add(alias);
+	}
+	return ['help', 'h'].filter((n) => !used.has(n));
+};
+
+// Schema of commands without a schema, rejects any args
+const EMPTY_SCHEMA = z.strictObject({});
+
+const is_help_requested = (args: Args, fields: Array<ArgsField>): boolean =>
+	args_command_help_names(fields).some((n) => args[n] === true);
+
+const omit_positionals = (args: Args): Args => {
+	const {_, ...rest} = args;
+	return rest;
+};
+
+const format_flag = (name: string): string => (name.length === 1 ? '-' : '--') + name;
+
+const format_suggestion = (
+	suggestions: Array<ArgsSuggestion>,
+	issue: z.core.$ZodIssue,
+	name: string,
+): string => {
+	const suggestion = suggestions.find((s) => s.issue === issue && s.name === name);
+	const best = suggestion?.suggestions[0];
+	if (best === undefined) return '';
+	return suggestion!.type === 'unknown_flag'
+		? ` (did you mean ${format_flag(best)}?)`
+		: ` (did you mean '${best}'?)`;
+};
+
+// Short flags first, indenting names without a short flag to align the long flags
+const format_names = (names: Array<string>): string => {
+	const formatted = names
+		.toSorted((a, b) => a.length - b.length)
+		.map(format_flag)
+		.join(', ');
+	return (formatted.startsWith('--') ? '    ' : '') + formatted;
+};
+
+const format_option_names = (field: ArgsField): string => {
+	const value =
+		field.type === 'boolean'
+			? ''
+			: field.values
+				? ` <${field.values.join('|')}>`
+				: ` <${field.type === 'array' ? 'value' : field.type}>`;
+	return format_names([...field.aliases, field.name]) + value;
+};
+
+const format_description = (field: ArgsField): string => {
+	const default_value = field.default;
+	const show_default =
+		default_value !== undefined &&
+		default_value !== false &&
+		!(Array.isArray(default_value) && default_value.length === 0);
+	const parts = [field.description];
+	if (show_default) {
+		parts.push(
+			`(default: ${Array.isArray(default_value) ? default_value.join(', ') : default_value})`,
+		);
+	} else if (field.required) {
+		parts.push('(required)');
+	}
+	return parts.filter(Boolean).join(' ');
+};
+
+const format_rows = (rows: Array<[string, string]>): string => {
+	const width = Math.max(...rows.map(([left]) => left.length));
+	return rows
+		.map(([left, right]) => (right ? `  ${left.padEnd(width)}  ${right}` : `  ${left}`))
+		.join('\n');
+};
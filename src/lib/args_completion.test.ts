@@ -0,0 +1,128 @@
+import {describe, test, expect} from 'vitest';
+import {z} from 'zod';
+
+import {args_command, type ArgsCommand} from './args_command.ts';
+import {args_completion_entries, args_completion_generate} from './args_completion.ts';
+
+const build = args_command({
+	description: 'build the project\nwith more details',
+	schema: z.strictObject({
+		_: z.array(z.string()).default([]),
+		out: z
+			.string()
+			.default('dist')
+			.meta({aliases: ['o'], description: "the output's directory"}),
+		watch: z
+			.boolean()
+			.default(false)
+			.meta({aliases: ['w'], description: 'rebuild on changes'}),
+		format: z.enum(['esm', 'cjs']).default('esm').meta({description: 'module format'}),
+	}),
+	run: () => undefined,
+});
+
+const cli: ArgsCommand = {
+	commands: {
+		build,
+		db: {
+			description: 'database commands',
+			commands: {migrate: {run: () => undefined}},
+		},
+	},
+};
+
+describe('args_completion_entries', () => {
+	test('collects subcommands, flags, and positionals depth-first', () => {
+		const entries = args_completion_entries(cli);
+
+		expect(entries.map((e) => e.path)).toEqual(['', 'build', 'db', 'db migrate']);
+		expect(entries[0]!.commands).toEqual([
+			{name: 'build', description: 'build the project'},
+			{name: 'db', description: 'database commands'},
+		]);
+		expect(entries[0]!.positionals).toBe(false);
+		expect(entries[1]!.positionals).toBe(true);
+		expect(entries[1]!.flags).toEqual([
+			{names: ['out', 'o'], description: "the output's directory", takes_value: true, values: null},
+			{names: ['watch', 'w'], description: 'rebuild on changes', takes_value: false, values: null},
+			{names: ['no-watch'], description: 'disable --watch', takes_value: false, values: null},
+			{names: ['format'], description: 'module format', takes_value: true, values: ['esm', 'cjs']},
+			{names: ['help', 'h'], description: 'show help', takes_value: false, values: null},
+		]);
+	});
+
+	test('skips `no-` flags defined by the schema and help flags it uses', () => {
+		const entries = args_completion_entries({
+			schema: z.strictObject({
+				color: z.boolean().default(true),
+				'no-color': z.boolean().default(false),
+				host: z
+					.string()
+					.default('')
+					.meta({aliases: ['h']}),
+			}),
+		});
+
+		expect(entries[0]!.flags.map((f) => f.names)).toEqual([
+			['color'],
+			['no-color'],
+			['host', 'h'],
+			['help'],
+		]);
+	});
+});
+
+describe('args_completion_generate', () => {
+	test('bash', () => {
+		const script = args_completion_generate(cli, {name: 'my-tool', shell: 'bash'});
+
+		expect(script).toContain('_my_tool_complete() {');
+		expect(script).toContain(`'build'|'db'|'db migrate') command_path="$next" ;;`);
+		expect(script).toContain(`COMPREPLY=($(compgen -W 'build db' -- "$cur"))`);
+		expect(script).toContain(
+			`COMPREPLY=($(compgen -W '--out -o --watch -w --no-watch --format --help -h' -- "$cur"))`,
+		);
+		expect(script).toContain(
+			`'--format') COMPREPLY=($(compgen -W 'esm cjs' -- "$cur")); return ;;`,
+		);
+		expect(script).toContain(`'--out'|'-o') return ;;`);
+		expect(script).toContain(`complete -o default -F _my_tool_complete 'my-tool'`);
+	});
+
+	test('zsh', () => {
+		const script = args_completion_generate(cli, {name: 'my-tool', shell: 'zsh'});
+
+		expect(script.startsWith('#compdef my-tool\n')).toBe(true);
+		expect(script).toContain(`command_list=('build:build the project' 'db:database commands')`);
+		expect(script).toContain(`'--out:the output'\\''s directory'`);
+		expect(script).toContain(`('--format') compadd -- 'esm' 'cjs'; return ;;`);
+		expect(script).toContain(`('--out'|'-o') _files; return ;;`);
+		expect(script).toContain(`compdef _my_tool 'my-tool'`);
+	});
+
+	test('fish', () => {
+		const script = args_completion_generate(cli, {name: 'my-tool', shell: 'fish'});
+
+		expect(script).toContain('function __my_tool_at');
+		expect(script).toContain(`contains -- $next 'build' 'db' 'db migrate'`);
+		expect(script).toContain(
+			`complete -c 'my-tool' -n '__my_tool_at \\'\\'' -f -a 'build' -d 'build the project'`,
+		);
+		expect(script).toContain(
+			`complete -c 'my-tool' -n '__my_tool_at \\'build\\'' -l 'out' -s 'o' -r -F -d 'the output\\'s directory'`,
+		);
+		expect(script).toContain(
+			`complete -c 'my-tool' -n '__my_tool_at \\'build\\'' -l 'format' -x -a 'esm cjs' -d 'module format'`,
+		);
+		// Commands without positionals don't complete files
+		expect(script).toContain(`complete -c 'my-tool' -n '__my_tool_at \\'db migrate\\'' -f\n`);
+		expect(script).not.toContain(`complete -c 'my-tool' -n '__my_tool_at \\'build\\'' -f\n`);
+	});
+
+	test('commands without subcommands', () => {
+		const script = args_completion_generate(build, {name: 'build', shell: 'bash'});
+
+		expect(script).not.toContain('command_path="$next"');
+		expect(script).toContain(`		'')\n			case "$prev" in`);
+	});
+});
@@ -0,0 +1,334 @@
+/**
+ * Shell completion scripts generated from the schemas of commands, see `args_command.ts`.
+ *
+ * Completes subcommands, flags and their aliases, `no-` flags of booleans,
+ * and the values of `z.enum` and `z.literal` flags.
+ * Other flags that take values complete file names.
+ *
+ * ```ts
+ * // print the script with `tool completions bash`, then install it like
+ * // `tool completions bash > ~/.local/share/bash-completion/completions/tool`
+ * console.log(args_completion_generate(cli, {name: 'tool', shell: 'bash'}));
+ * ```
+ *
+ * @module
+ */
+
+import {args_extract_fields} from './args.js';
+import {args_command_help_names, type ArgsCommand} from './args_command.js';
+
+/**
+ * Shells that `args_completion_generate` supports.
+ */
+export type ArgsCompletionShell = 'bash' | 'zsh' | 'fish';
+
+/**
+ * Options of `args_completion_generate`.
+ */
+export interface ArgsCompletionOptions {
+	/** Name of the program as typed in the shell */
+	name: string;
+	shell: ArgsCompletionShell;
+}
+
+/**
+ * A flag of a command as completed by the shells.
+ */
+export interface ArgsCompletionFlag {
+	/** Names without dashes, like `['out', 'o']` */
+	names: Array<string>;
+	description: string;
+	/** True unless the flag is a boolean */
+	takes_value: boolean;
+	/** Values to complete, null to complete file names when `takes_value` */
+	values: Array<string> | null;
+}
+
+/**
+ * The completions of a command, see `args_completion_entries`.
+ */
+export interface ArgsCompletionEntry {
+	/** Names of the subcommands from the root joined with spaces, `''` for the root */
+	path: string;
+	commands: Array<{name: string; description: string}>;
+	flags: Array<ArgsCompletionFlag>;
+	/** True if the command's schema accepts positionals with `_` */
+	positionals: boolean;
+}
+
+/**
+ * Generates a completion script for bash, zsh, or fish.
+ *
+ * @param command The root command
+ * @param options Program name and shell
+ * @returns The script, to be sourced or installed in the shell's completions directory
+ */
+export const args_completion_generate = (
+	command: ArgsCommand,
+	options: ArgsCompletionOptions,
+): string => {
+	const {name, shell} = options;
+	const entries = args_completion_entries(command);
+	switch (shell) {
+		case 'bash':
+			return generate_bash(name, entries);
+		case 'zsh':
+			return generate_zsh(name, entries);
+		case 'fish':
+			return generate_fish(name, entries);
+	}
+};
+
+/**
+ * Collects the completions of a command and each of its subcommands, depth-first.
+ * Boolean flags get `no-` flags unless the schema defines them,
+ * and the help flags are included like `args_command_run` handles them.
+ *
+ * @param command The root command
+ * @returns One entry per command, starting with the root
+ */
+export const args_completion_entries = (command: ArgsCommand): Array<ArgsCompletionEntry> => {
+	const entries: Array<ArgsCompletionEntry> = [];
+	const add_entries = (current: ArgsCommand, path: string): void => {
+		const fields = current.schema ? args_extract_fields(current.schema) : [];
+		const field_names = new Set(fields.map((f) => f.name));
+
+		const flags: Array<ArgsCompletionFlag> = [];
+		for (const field of fields) {
+			if (field.name === '_') continue;
+			const description = first_line(field.description);
+			const is_boolean = field.type === 'boolean';
+			flags.push({
+				names: [field.name, ...field.aliases],
+				description,
+				takes_value: !is_boolean,
+				values: is_boolean ? null : field.values,
+			});
+			const negated = 'no-' + field.name;
+			if (is_boolean && !field.name.startsWith('no-') && !field_names.has(negated)) {
+				flags.push({
+					names: [negated],
+					description: `disable --${field.name}`,
+					takes_value: false,
+					values: null,
+				});
+			}
+		}
+		const help_names = args_command_help_names(fields);
+		if (help_names.length > 0) {
+			flags.push({names: help_names, description: 'show help', takes_value: false, values: null});
+		}
+
+		const subcommands = current.commands ? Object.entries(current.commands) : [];
+		entries.push({
+			path,
+			commands: subcommands.map(([subcommand_name, subcommand]) => ({
+				name: subcommand_name,
+				description: first_line(subcommand.description ?? ''),
+			})),
+			flags,
+			positionals: field_names.has('_'),
+		});
+		for (const [subcommand_name, subcommand] of subcommands) {
+			add_entries(subcommand, path ? `${path} ${subcommand_name}` : subcommand_name);
+		}
+	};
+	add_entries(command, '');
+	return entries;
+};
+
+const first_line = (text: string): string => text.split('\n', 1)[0]!.trim();
+
+const to_flag = (name: string): string => (name.length === 1 ? '-' : '--') + name;
+
+// Quotes a string for bash and zsh
+const quote_sh = (value: string): string => `'${value.replaceAll("'", `'\\''`)}'`;
+
+// Quotes a string for fish, which allows escaping within single quotes
+const quote_fish = (value: string): string =>
+	`'${value.replaceAll('\\', '\\\\').replaceAll("'", "\\'")}'`;
+
+const to_function_name = (name: string): string => '_' + name.replace(/[^a-zA-Z0-9_]/g, '_');
+
+// Case patterns of the subcommand paths, used to find the path of the words typed so far
+const format_path_patterns = (entries: Array<ArgsCompletionEntry>): string | null => {
+	const paths = entries.filter((e) => e.path !== '').map((e) => quote_sh(e.path));
+	return paths.length > 0 ? paths.join('|') : null;
+};
+
+const generate_bash = (name: string, entries: Array<ArgsCompletionEntry>): string => {
+	const function_name = to_function_name(name) + '_complete';
+	const path_patterns = format_path_patterns(entries);
+	const lines = [
+		`# bash completion for ${name}`,
+		'',
+		`${function_name}() {`,
+		'	local cur="${COMP_WORDS[COMP_CWORD]}"',
+		'	local prev="${COMP_WORDS[COMP_CWORD-1]}"',
+		'	local command_path="" next word i',
+		'	for ((i = 1; i < COMP_CWORD; i++)); do',
+		'		word="${COMP_WORDS[i]}"',
+		'		[[ "$word" == -* ]] && continue',
+		'		next="${command_path:+$command_path }$word"',
+	];
+	if (path_patterns) {
+		lines.push('		case "$next" in', `			${path_patterns}) command_path="$next" ;;`, '		esac');
+	}
+	lines.push('	done', '	case "$command_path" in');
+	for (const entry of entries) {
+		lines.push(`		${quote_sh(entry.path)})`);
+		const value_flags = entry.flags.filter((f) => f.takes_value);
+		if (value_flags.length > 0) {
+			lines.push('			case "$prev" in');
+			for (const flag of value_flags) {
+				const patterns = flag.names.map((n) => quote_sh(to_flag(n))).join('|');
+				lines.push(
+					flag.values
+						? `				${patterns}) COMPREPLY=($(compgen -W ${quote_sh(flag.values.join(' '))} -- "$cur")); return ;;`
+						: `				${patterns}) return ;;`,
+				);
+			}
+			lines.push('			esac');
+		}
+		const flag_words = entry.flags.flatMap((f) => f.names.map(to_flag)).join(' ');
+		lines.push(
+			'			if [[ "$cur" == -* ]]; then',
+			`				COMPREPLY=($(compgen -W ${quote_sh(flag_words)} -- "$cur"))`,
+		);
+		if (entry.commands.length > 0) {
+			const command_words = entry.commands.map((c) => c.name).join(' ');
+			lines.push('			else', `				COMPREPLY=($(compgen -W ${quote_sh(command_words)} -- "$cur"))`);
+		}
+		lines.push('			fi', '			;;');
+	}
+	lines.push(
+		'	esac',
+		'}',
+		'',
+		// Falls back to file names when there are no matches
+		`complete -o default -F ${function_name} ${quote_sh(name)}`,
+		'',
+	);
+	return lines.join('\n');
+};
+
+// Escapes colons in names of `_describe` items, which separate names from descriptions
+const to_describe_item = (item_name: string, description: string): string =>
+	quote_sh(item_name.replaceAll(':', '\\:') + (description ? ':' + description : ''));
+
+const generate_zsh = (name: string, entries: Array<ArgsCompletionEntry>): string => {
+	const function_name = to_function_name(name);
+	const path_patterns = format_path_patterns(entries);
+	const lines = [
+		`#compdef ${name}`,
+		`# zsh completion for ${name}`,
+		'',
+		`${function_name}() {`,
+		"	local command_path='' next word",
+		'	local -i i',
+		'	for ((i = 2; i < CURRENT; i++)); do',
+		'		word=${words[i]}',
+		'		[[ $word == -* ]] && continue',
+		'		next=${command_path:+$command_path }$word',
+	];
+	if (path_patterns) {
+		lines.push('		case $next in', `			(${path_patterns}) command_path=$next ;;`, '		esac');
+	}
+	lines.push('	done', '	local -a flag_list command_list', '	case $command_path in');
+	for (const entry of entries) {
+		lines.push(`		(${quote_sh(entry.path)})`);
+		const value_flags = entry.flags.filter((f) => f.takes_value);
+		if (value_flags.length > 0) {
+			lines.push('			case ${words[CURRENT-1]} in');
+			for (const flag of value_flags) {
+				const patterns = flag.names.map((n) => quote_sh(to_flag(n))).join('|');
+				lines.push(
+					flag.values
+						? `				(${patterns}) compadd -- ${flag.values.map(quote_sh).join(' ')}; return ;;`
+						: `				(${patterns}) _files; return ;;`,
+				);
+			}
+			lines.push('			esac');
+		}
+		const flag_items = entry.flags.flatMap((f) =>
+			f.names.map((n) => to_describe_item(to_flag(n), f.description)),
+		);
+		lines.push(
+			'			if [[ $PREFIX == -* ]]; then',
+			`				flag_list=(${flag_items.join(' ')})`,
+			'				_describe -t options option flag_list',
+		);
+		if (entry.commands.length > 0 || entry.positionals) {
+			lines.push('			else');
+			if (entry.commands.length > 0) {
+				const command_items = entry.commands.map((c) => to_describe_item(c.name, c.description));
+				lines.push(
+					`				command_list=(${command_items.join(' ')})`,
+					'				_describe -t commands command command_list',
+				);
+			}
+			if (entry.positionals) {
+				lines.push('				_files');
+			}
+		}
+		lines.push('			fi', '			;;');
+	}
+	lines.push(
+		'	esac',
+		'}',
+		'',
+		// Autoloaded from `fpath` with `#compdef`, or registered when sourced
+		'if [[ $zsh_eval_context[-1] == loadautofunc ]]; then',
+		`	${function_name} "$@"`,
+		'else',
+		`	compdef ${function_name} ${quote_sh(name)}`,
+		'fi',
+		'',
+	);
+	return lines.join('\n');
+};
+
+const generate_fish = (name: string, entries: Array<ArgsCompletionEntry>): string => {
+	const function_name = '_' + to_function_name(name) + '_at';
+	const paths = entries.filter((e) => e.path !== '').map((e) => quote_fish(e.path));
+	const lines = [
+		`# fish completion for ${name}`,
+		'',
+		'# Checks if the subcommands typed so far are the path in the first argument',
+		`function ${function_name}`,
+		"	set -l command_path ''",
+		'	for token in (commandline -opc)[2..-1]',
+		"		string match -q -- '-*' $token; and continue",
+		'		set -l next (string trim -- "$command_path $token")',
+	];
+	if (paths.length > 0) {
+		lines.push(`		contains -- $next ${paths.join(' ')}; and set command_path $next`);
+	}
+	lines.push('	end', '	test "$command_path" = "$argv[1]"', 'end', '');
+
+	const complete = `complete -c ${quote_fish(name)}`;
+	for (const entry of entries) {
+		const condition = `-n ${quote_fish(`${function_name} ${quote_fish(entry.path)}`)}`;
+		if (!entry.positionals) {
+			lines.push(`${complete} ${condition} -f`);
+		}
+		for (const subcommand of entry.commands) {
+			const description = subcommand.description ? ` -d ${quote_fish(subcommand.description)}` : '';
+			lines.push(`${complete} ${condition} -f -a ${quote_fish(subcommand.name)}${description}`);
+		}
+		for (const flag of entry.flags) {
+			const names = flag.names
+				.map((n) => `${n.length === 1 ? '-s' : '-l'} ${quote_fish(n)}`)
+				.join(' ');
+			const value = flag.takes_value
+				? flag.values
+					? ` -x -a ${quote_fish(flag.values.join(' '))}`
+					: ' -r -F'
+				: '';
+			const description = flag.description ? ` -d ${quote_fish(flag.description)}` : '';
+			lines.push(`${complete} ${condition} ${names}${value}${description}`);
+		}
+	}
+	lines.push('');
+	return lines.join('\n');
+};
@@ -0,0 +1,144 @@
+import {describe, test, expect} from 'vitest';
+import {z} from 'zod';
+import {mkdtemp, rm, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+
+import {args_config_load, args_resolve} from './args_resolve.ts';
+import {argv_parse} from './args.ts';
+
+const schema = z.strictObject({
+	_: z.array(z.string()).default([]),
+	port: z
+		.number()
+		.default(3000)
+		.meta({aliases: ['p'], env: 'MYTOOL_PORT', config: 'server.port'}),
+	host: z.string().default('localhost').meta({env: 'MYTOOL_HOST'}),
+	watch: z.boolean().default(false).meta({env: 'MYTOOL_WATCH'}),
+	tags: z.array(z.string()).default([]).meta({env: 'MYTOOL_TAGS'}),
+	'out-dir': z.string().optional(),
+});
+
+describe('args_resolve', () => {
+	test('argv takes precedence over env, which takes precedence over config', () => {
+		const config = {server: {port: 1}, host: 'config.local', 'out-dir': 'build'};
+		const env = {MYTOOL_PORT: '2', MYTOOL_HOST: 'env.local'};
+
+		const result = args_resolve(argv_parse(['-p', '3']), schema, {env, config});
+
+		expect(result.success).toBe(true);
+		expect(result.data).toEqual({
+			_: [],
+			port: 3,
+			host: 'env.local',
+			watch: false,
+			tags: [],
+			'out-dir': 'build',
+		});
+		expect(result.sources).toEqual({
+			_: {source: 'argv', name: '_'},
+			port: {source: 'argv', name: '-p'},
+			host: {source: 'env', name: 'MYTOOL_HOST'},
+			watch: {source: 'default', name: 'watch'},
+			tags: {source: 'default', name: 'tags'},
+			'out-dir': {source: 'config', name: 'out-dir'},
+		});
+	});
+
+	test('argv aliases win over env values for the canonical key', () => {
+		const result = args_resolve({p: 3}, schema, {env: {MYTOOL_PORT: '2'}});
+
+		expect(result.data?.port).toBe(3);
+		expect(result.sources.port).toEqual({source: 'argv', name: '-p'});
+	});
+
+	test('reads config values at dotted key paths', () => {
+		const result = args_resolve({}, schema, {config: {server: {port: 8080}}});
+
+		expect(result.data?.port).toBe(8080);
+		expect(result.sources.port).toEqual({source: 'config', name: 'server.port'});
+	});
+
+	test('converts env values by the type of the field', () => {
+		const result = args_resolve({}, schema, {
+			env: {MYTOOL_PORT: '8080', MYTOOL_WATCH: 'yes', MYTOOL_TAGS: 'a, b'},
+		});
+
+		expect(result.data).toMatchObject({port: 8080, watch: true, tags: ['a', 'b']});
+		expect(args_resolve({}, schema, {env: {MYTOOL_WATCH: '0'}}).data?.watch).toBe(false);
+	});
+
+	test('converts env array items by the type of the elements', () => {
+		const array_schema = z.strictObject({
+			ports: z.array(z.number()).default([]).meta({env: 'MYTOOL_PORTS'}),
+			flags: z.array(z.boolean()).optional().meta({env: 'MYTOOL_FLAGS'}),
+		});
+
+		const result = args_resolve({}, array_schema, {
+			env: {MYTOOL_PORTS: '1, 2', MYTOOL_FLAGS: 'yes,0'},
+		});
+
+		expect(result.success).toBe(true);
+		expect(result.data).toEqual({ports: [1, 2], flags: [true, false]});
+		expect(args_resolve({}, array_schema, {env: {MYTOOL_PORTS: '1,x'}}).success).toBe(false);
+	});
+
+	test('reads metadata of wrapped object schemas', () => {
+		const wrapped = z
+			.strictObject({
+				port: z.number().default(3000).meta({env: 'MYTOOL_PORT', config: 'server.port'}),
+			})
+			.default({port: 3000});
+
+		expect(args_resolve({}, wrapped, {env: {MYTOOL_PORT: '8080'}}).data).toEqual({port: 8080});
+		expect(args_resolve({}, wrapped, {config: {server: {port: 1}}}).sources).toEqual({
+			port: {source: 'config', name: 'server.port'},
+		});
+	});
+
+	test('invalid env values fail validation', () => {
+		const result = args_resolve({}, schema, {env: {MYTOOL_PORT: 'abc'}});
+
+		expect(result.success).toBe(false);
+		expect(result.error!.issues[0]!.path).toEqual(['port']);
+		expect(result.sources.port).toEqual({source: 'env', name: 'MYTOOL_PORT'});
+	});
+
+	test('env_prefix names env vars of fields without env metadata', () => {
+		const result = args_resolve({}, schema, {
+			env: {APP_OUT_DIR: 'out', MYTOOL_HOST: 'example.com', APP_HOST: 'ignored'},
+			env_prefix: 'APP_',
+		});
+
+		expect(result.data).toMatchObject({'out-dir': 'out', host: 'example.com'});
+		expect(result.sources['out-dir']).toEqual({source: 'env', name: 'APP_OUT_DIR'});
+	});
+
+	test('ignores env vars without metadata or a prefix', () => {
+		const result = args_resolve({}, schema, {env: {OUT_DIR: 'out'}});
+
+		expect(result.data?.['out-dir']).toBeUndefined();
+		expect(result.sources['out-dir']).toBeUndefined();
+	});
+});
+
+describe('args_config_load', () => {
+	test('loads JSON objects and returns null for missing files', async () => {
+		const dir = await mkdtemp(join(tmpdir(), 'args_resolve_'));
+		try {
+			const path = join(dir, 'config.json');
+			expect(await args_config_load(path)).toBe(null);
+
+			await writeFile(path, '{"server": {"port": 8080}}');
+			expect(await args_config_load(path)).toEqual({server: {port: 8080}});
+
+			await writeFile(path, '[1]');
+			await expect(args_config_load(path)).rejects.toThrow('must contain a JSON object');
+
+			await writeFile(path, '{');
+			await expect(args_config_load(path)).rejects.toThrow('Invalid JSON in config file');
+		} finally {
+			await rm(dir, {recursive: true, force: true});
+		}
+	});
+});
@@ -0,0 +1,190 @@
+/**
+ * Layered resolution of args from CLI args, env vars, and a JSON config, on top of `args_parse`.
+ *
+ * Sources in order of precedence:
+ * 1. CLI args, including aliases
+ * 2. env vars named by `.meta({env: 'MYTOOL_PORT'})` or `env_prefix`
+ * 3. config values at `.meta({config: 'server.port'})`, defaulting to the field name
+ * 4. schema defaults
+ *
+ * ```ts
+ * const schema = z.strictObject({
+ *   port: z.number().default(3000).meta({aliases: ['p'], env: 'MYTOOL_PORT', config: 'server.port'}),
+ * });
+ * const config = await args_config_load('mytool.config.json');
+ * const resolved = args_resolve(argv_parse(process.argv.slice(2)), schema, {env: process.env, config});
+ * if (resolved.success) console.log(resolved.data.port, resolved.sources.port); // 8080 {source: 'env', name: 'MYTOOL_PORT'}
+ * ```
+ *
+ * @module
+ */
+
+import {readFile} from 'node:fs/promises';
+import type {z} from 'zod';
+
+import {args_parse, args_extract_fields, type Args, type ArgsField, type ArgValue} from './args.js';
+import {fs_exists} from './fs.js';
+
+/**
+ * Sources of resolved args, see `args_resolve`.
+ */
+export type ArgsSourceType = 'argv' | 'env' | 'config' | 'default';
+
+/**
+ * The source of a resolved value, for debugging.
+ */
+export interface ArgsSource {
+	source: ArgsSourceType;
+	/** The flag like `--port` or `-p`, the env var, the config key path, or the field name for defaults */
+	name: string;
+}
+
+/**
+ * Options of `args_resolve`.
+ */
+export interface ArgsResolveOptions {
+	/** Env vars, typically `process.env`, not read if omitted */
+	env?: Record<string, string | undefined>;
+	/**
+	 * Prefix of env var names of fields without `.meta({env})`,
+	 * like `'MYTOOL_'` for `MYTOOL_OUT_DIR` from `out-dir`.
+	 * Only fields with `.meta({env})` are read from env vars if omitted.
+	 */
+	env_prefix?: string;
+	/** Parsed JSON config, see `args_config_load` */
+	config?: Record<string, unknown> | null;
+}
+
+/**
+ * Result of `args_resolve`, the result of `args_parse` with the sources of the values.
+ */
+export type ArgsResolveResult<TOutput> = z.ZodSafeParseResult<TOutput> & {
+	/** Sources by field name, for fields with values from the layers or defaults */
+	sources: Record<string, ArgsSource>;
+};
+
+/**
+ * Resolves args from CLI args, env vars, and a config, then validates them with `args_parse`.
+ * CLI args take precedence over env vars, which take precedence over the config.
+ *
+ * Env vars are converted by the type of the field: numbers with `Number`,
+ * booleans from `true`/`1`/`yes` and `false`/`0`/`no`, and arrays split on commas
+ * with each item converted by the type of the array's elements.
+ * Values that fail to convert are passed as strings for zod to report.
+ *
+ * @param unparsed_args Args from `argv_parse` or another CLI parser
+ * @param schema Zod object schema with optional `env` and `config` metadata on fields
+ * @param options The env vars and config
+ * @returns The result of `args_parse` with `sources`
+ */
+export const args_resolve = <TOutput extends Record<string, ArgValue> = Args>(
+	unparsed_args: Args,
+	schema: z.ZodType<TOutput>,
+	options: ArgsResolveOptions = {},
+): ArgsResolveResult<TOutput> => {
+	const {env, env_prefix, config} = options;
+
+	const merged: Args = {...unparsed_args};
+	const sources: Record<string, ArgsSource> = {};
+	for (const field of args_extract_fields(schema)) {
+		const argv_name = [field.name, ...field.aliases].find((n) => unparsed_args[n] !== undefined);
+		if (argv_name !== undefined) {
+			sources[field.name] = {
+				source: 'argv',
+				name: field.name === '_' ? '_' : (argv_name.length === 1 ? '-' : '--') + argv_name,
+			};
+			continue;
+		}
+		if (field.name === '_') continue;
+
+		const {meta} = field;
+		const env_name =
+			typeof meta.env === 'string'
+				? meta.env
+				: env_prefix !== undefined
+					? env_prefix + to_env_name(field.name)
+					: undefined;
+		const env_value = env_name === undefined ? undefined : env?.[env_name];
+		if (env_name !== undefined && env_value !== undefined) {
+			merged[field.name] = from_env_value(env_value, field);
+			sources[field.name] = {source: 'env', name: env_name};
+			continue;
+		}
+
+		const config_key = typeof meta.config === 'string' ? meta.config : field.name;
+		const config_value = config ? get_config_value(config, config_key) : undefined;
+		if (config_value !== undefined) {
+			merged[field.name] = config_value as ArgValue;
+			sources[field.name] = {source: 'config', name: config_key};
+			continue;
+		}
+
+		if (field.default !== undefined) {
+			sources[field.name] = {source: 'default', name: field.name};
+		}
+	}
+
+	return {...args_parse(merged, schema), sources};
+};
+
+/**
+ * Loads a JSON config for `args_resolve`.
+ *
+ * @param path Path of the JSON file
+ * @returns The parsed object, or null if the file doesn't exist
+ * @throws Error if the file isn't valid JSON or isn't an object
+ */
+export const args_config_load = async (path: string): Promise<Record<string, unknown> | null> => {
+	if (!(await fs_exists(path))) return null;
+	const contents = await readFile(path, 'utf-8');
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(contents);
+	} catch (error) {
+		throw new Error(`Invalid JSON in config file ${path}`, {cause: error});
+	}
+	if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new Error(`Config file ${path} must contain a JSON object`);
+	}
+	return parsed as Record<string, unknown>;
+};
+
+// Converts field names like `out-dir` to env var names like `OUT_DIR`
+const to_env_name = (name: string): string => name.replace(/[^a-zA-Z0-9]/g, '_').toUpperCase();
+
+// Gets a value at a dotted key path like `server.port`, preferring exact keys with dots
+const get_config_value = (config: Record<string, unknown>, key: string): unknown => {
+	if (Object.hasOwn(config, key)) return config[key];
+	let current: unknown = config;
+	for (const part of key.split('.')) {
+		if (current === null || typeof current !== 'object' || !Object.hasOwn(current, part)) {
+			return undefined;
+		}
+		current = (current as Record<string, unknown>)[part];
+	}
+	return current;
+};
+
+const TRUE_VALUES = new Set(['true', '1', 'yes']);
+const FALSE_VALUES = new Set(['false', '0', 'no', '']);
+
+const from_env_value = (value: string, field: ArgsField): ArgValue => {
+	if (field.type !== 'array') return from_env_scalar(value, field.type);
+	if (value === '') return [];
+	return value.split(',').map((v) => from_env_scalar(v.trim(), field.element_type));
+};
+
+const from_env_scalar = (value: string, type: string | null): string | number | boolean => {
+	switch (type) {
+		case 'number': {
+			const num = Number(value);
+			return value.trim() === '' || Number.isNaN(num) ? value : num;
+		}
+		case 'boolean': {
+			const lower = value.toLowerCase();
+			return TRUE_VALUES.has(lower) ? true : FALSE_VALUES.has(lower) ? false : value;
+		}
+		default:
+			return value;
+	}
+};
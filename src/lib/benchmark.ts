@@ -22,8 +22,9 @@
  */
 
 import {is_promise, wait} from './async.js';
-import {BenchmarkStats} from './benchmark_stats.js';
-import {timer_default, time_unit_detect_best, time_format} from './time.js';
+import {BenchmarkStats, type BenchmarkMemorySamples} from './benchmark_stats.js';
+import {timer_default, time_unit_detect_best, time_format, type Timer} from './time.js';
+import {stats_confidence_interval_from_summary} from './stats.js';
 import {
 	benchmark_format_table,
 	benchmark_format_table_grouped,
@@ -31,12 +32,20 @@ import {
 	benchmark_format_markdown_grouped,
 	benchmark_format_json,
 	benchmark_format_number,
+	benchmark_format_table_scaling,
+	benchmark_format_markdown_scaling,
+	benchmark_format_html,
 	type BenchmarkFormatJsonOptions,
+	type BenchmarkFormatHtmlOptions,
 } from './benchmark_format.js';
 import type {
 	BenchmarkConfig,
+	BenchmarkConvergenceOptions,
 	BenchmarkTask,
+	BenchmarkParamTask,
+	BenchmarkIsolatedTask,
 	BenchmarkResult,
+	BenchmarkResultParam,
 	BenchmarkFormatTableOptions,
 } from './benchmark_types.js';
 
@@ -47,6 +56,25 @@ const DEFAULT_COOLDOWN_MS = 100;
 const DEFAULT_MIN_ITERATIONS = 10;
 const DEFAULT_MAX_ITERATIONS = 100_000;
 
+// Max duration of each chunk of iterations measured in a worker before streaming back timings
+const ISOLATED_CHUNK_NS = 50_000_000;
+
+// Number of iterations between heap samples when measuring memory
+const MEMORY_BATCH_ITERATIONS = 100;
+
+// Minimum duration of each sample when calibrating batches, raised for coarse timers
+const BATCH_MIN_SAMPLE_NS = 10_000;
+const BATCH_RESOLUTION_MULTIPLIER = 100;
+const BATCH_MAX_SIZE = 1_000_000;
+
+// Defaults for stopping tasks when their timings converge
+const DEFAULT_CONVERGENCE_TARGET_RELATIVE_CI = 0.02;
+const DEFAULT_CONVERGENCE_MAX_DURATION_MS = 10_000;
+const DEFAULT_CONVERGENCE_CONFIDENCE_LEVEL = 0.95;
+
+// Minimum samples before checking convergence, the normal approximation is unreliable below this
+const CONVERGENCE_MIN_SAMPLES = 30;
+
 /**
  * Validate and normalize benchmark configuration.
  * Throws if configuration is invalid.
@@ -76,6 +104,172 @@ const validate_config = (config: BenchmarkConfig): void => {
 			`min_iterations (${config.min_iterations}) cannot exceed max_iterations (${config.max_iterations})`,
 		);
 	}
+	if (
+		config.batch !== undefined &&
+		config.batch !== 'auto' &&
+		!(Number.isInteger(config.batch) && config.batch >= 1)
+	) {
+		throw new Error(`batch must be 'auto' or a positive integer, got ${config.batch}`);
+	}
+	if (config.convergence) {
+		const {target_relative_ci, max_duration_ms, confidence_level} = config.convergence;
+		if (target_relative_ci !== undefined && !(target_relative_ci > 0)) {
+			throw new Error(`convergence.target_relative_ci must be positive, got ${target_relative_ci}`);
+		}
+		if (max_duration_ms !== undefined && !(max_duration_ms > 0)) {
+			throw new Error(`convergence.max_duration_ms must be positive, got ${max_duration_ms}`);
+		}
+		if (confidence_level !== undefined && !(confidence_level > 0 && confidence_level < 1)) {
+			throw new Error(
+				`convergence.confidence_level must be between 0 and 1, got ${confidence_level}`,
+			);
+		}
+	}
+	if (config.memory && typeof process === 'undefined') {
+		throw new Error('memory measurement requires process.memoryUsage (Node.js)');
+	}
+};
+
+/**
+ * Get the current heap usage in bytes.
+ */
+const memory_heap_used = (): number => process.memoryUsage().heapUsed;
+
+/**
+ * Run garbage collection and get the settled heap usage in bytes.
+ * Returns null if GC isn't exposed (run node with `--expose-gc`).
+ */
+const memory_heap_settled = (): number | null => {
+	if (!globalThis.gc) return null;
+	globalThis.gc();
+	return memory_heap_used();
+};
+
+/**
+ * Samples heap growth around batches of iterations.
+ */
+interface MemorySampler {
+	/** Heap growth per iteration of each sampled batch in bytes */
+	samples: Array<number>;
+	/** Record the heap growth since the last sample divided across `iterations` */
+	sample: (iterations: number) => void;
+}
+
+/**
+ * Create a memory sampler starting from the current heap usage.
+ * Calibrates the allocation overhead of reading the heap so it can be subtracted from each batch.
+ */
+const create_memory_sampler = (): MemorySampler => {
+	const samples: Array<number> = [];
+	let last_heap = memory_heap_used();
+	const overhead = Math.max(0, memory_heap_used() - last_heap);
+	last_heap = memory_heap_used();
+	return {
+		samples,
+		sample: (iterations) => {
+			if (iterations <= 0) return;
+			const heap = memory_heap_used();
+			samples.push((heap - last_heap - overhead) / iterations);
+			last_heap = memory_heap_used();
+		},
+	};
+};
+
+/**
+ * Tracks the confidence interval of the mean of a task's timings as they're measured.
+ */
+interface ConvergenceTracker {
+	/** Add a timing and return whether the timings have converged */
+	add: (timing_ns: number) => boolean;
+}
+
+/**
+ * Create a convergence tracker that updates the mean and variance incrementally
+ * (Welford's algorithm) so checking after every iteration stays cheap and allocation-free.
+ * @param options - Resolved convergence options
+ * @param min_iterations - Iterations required before the timings can converge
+ */
+const create_convergence_tracker = (
+	options: Required<BenchmarkConvergenceOptions>,
+	min_iterations: number,
+): ConvergenceTracker => {
+	const min_samples = Math.max(min_iterations, CONVERGENCE_MIN_SAMPLES);
+	let count = 0;
+	let mean = 0;
+	let m2 = 0;
+	return {
+		add: (timing_ns) => {
+			count++;
+			const delta = timing_ns - mean;
+			mean += delta / count;
+			m2 += delta * (timing_ns - mean);
+			if (count < min_samples || mean <= 0) return false;
+			const [lower, upper] = stats_confidence_interval_from_summary(
+				mean,
+				Math.sqrt(m2 / count),
+				count,
+				{confidence_level: options.confidence_level},
+			);
+			return (upper - lower) / mean <= options.target_relative_ci;
+		},
+	};
+};
+
+/**
+ * Estimate the resolution of a timer as the smallest observed nonzero tick.
+ */
+const timer_resolution_ns = (timer: Timer): number => {
+	let resolution = Infinity;
+	for (let i = 0; i < 10; i++) {
+		const start = timer.now();
+		let end = timer.now();
+		// Bounded in case of a frozen timer
+		for (let j = 0; j < 1_000_000 && end === start; j++) {
+			end = timer.now();
+		}
+		if (end > start) resolution = Math.min(resolution, end - start);
+	}
+	return resolution === Infinity ? 0 : resolution;
+};
+
+/**
+ * Calibrate how many calls to batch into each sample
+ * so each sample lasts at least `target_ns`.
+ * Grows the batch size geometrically based on the measured time of each trial.
+ * @param time_batch - Returns the total time in nanoseconds of running `size` calls
+ * @param target_ns - Minimum duration of each sample
+ * @returns The batch size, at least 1
+ */
+const calibrate_batch_size = async (
+	time_batch: (size: number) => number | Promise<number>,
+	target_ns: number,
+): Promise<number> => {
+	let size = 1;
+	for (;;) {
+		const elapsed_ns = await time_batch(size); // eslint-disable-line no-await-in-loop
+		if (elapsed_ns >= target_ns || size >= BATCH_MAX_SIZE) return size;
+		// Scale toward the target with some headroom, growing at least 2x and at most 10x per trial
+		const scale = elapsed_ns > 0 ? (target_ns / elapsed_ns) * 1.2 : 10;
+		size = Math.min(BATCH_MAX_SIZE, Math.ceil(size * Math.min(10, Math.max(2, scale))));
+	}
+};
+
+/**
+ * Wrap a function to call it `size` times per invocation, awaiting each call if async.
+ */
+const to_batched_fn = (fn: () => unknown, size: number, is_async: boolean): (() => unknown) => {
+	if (size === 1) return fn;
+	return is_async
+		? async () => {
+				for (let i = 0; i < size; i++) {
+					await fn(); // eslint-disable-line no-await-in-loop
+				}
+			}
+		: () => {
+				for (let i = 0; i < size; i++) {
+					fn();
+				}
+			};
 };
 
 /**
@@ -84,8 +278,34 @@ const validate_config = (config: BenchmarkConfig): void => {
 interface BenchmarkTaskInternal extends BenchmarkTask {
 	/** Whether the function returns a promise (detected during warmup or from hint) */
 	is_async?: boolean;
+	/** Param info for tasks generated by `add_params` */
+	param?: BenchmarkResultParam;
+	/** Module info for tasks added with `add_isolated`, which run in a worker instead of calling `fn` */
+	isolated?: BenchmarkIsolatedTask;
 }
 
+/**
+ * Placeholder `fn` for isolated tasks, which are only called inside their worker.
+ */
+const isolated_task_fn = (): never => {
+	throw new Error('Isolated benchmark tasks run in a worker');
+};
+
+/**
+ * Get the default display label for a param, throwing for non-primitives.
+ */
+const to_param_label = (param: unknown, task_name: string): string => {
+	if (
+		typeof param === 'number' ||
+		typeof param === 'string' ||
+		typeof param === 'bigint' ||
+		typeof param === 'boolean'
+	) {
+		return String(param);
+	}
+	throw new Error(`Task "${task_name}" requires a label function for non-primitive params`);
+};
+
 /**
  * Warmup function by running it multiple times.
  * Detects whether the function is async based on return value.
@@ -135,10 +355,15 @@ export const benchmark_warmup = async (
  * Benchmark class for measuring and comparing function performance.
  */
 export class Benchmark {
-	readonly #config: Required<Omit<BenchmarkConfig, 'on_iteration' | 'on_task_complete'>> &
-		Pick<BenchmarkConfig, 'on_iteration' | 'on_task_complete'>;
+	readonly #config: Required<
+		Omit<BenchmarkConfig, 'convergence' | 'on_iteration' | 'on_task_complete'>
+	> &
+		Pick<BenchmarkConfig, 'on_iteration' | 'on_task_complete'> & {
+			convergence: Required<BenchmarkConvergenceOptions> | null;
+		};
 	readonly #tasks: Array<BenchmarkTaskInternal> = [];
 	#results: Array<BenchmarkResult> = [];
+	#timer_resolution_ns: number | undefined;
 
 	constructor(config: BenchmarkConfig = {}) {
 		validate_config(config);
@@ -149,6 +374,18 @@ export class Benchmark {
 			min_iterations: config.min_iterations ?? DEFAULT_MIN_ITERATIONS,
 			max_iterations: config.max_iterations ?? DEFAULT_MAX_ITERATIONS,
 			timer: config.timer ?? timer_default,
+			batch: config.batch ?? 1,
+			memory: config.memory ?? false,
+			convergence: config.convergence
+				? {
+						target_relative_ci:
+							config.convergence.target_relative_ci ?? DEFAULT_CONVERGENCE_TARGET_RELATIVE_CI,
+						max_duration_ms:
+							config.convergence.max_duration_ms ?? DEFAULT_CONVERGENCE_MAX_DURATION_MS,
+						confidence_level:
+							config.convergence.confidence_level ?? DEFAULT_CONVERGENCE_CONFIDENCE_LEVEL,
+					}
+				: null,
 			on_iteration: config.on_iteration,
 			on_task_complete: config.on_task_complete,
 		};
@@ -192,6 +429,91 @@ export class Benchmark {
 		return this;
 	}
 
+	/**
+	 * Add a parameterized benchmark task that runs once per param.
+	 * Each param generates a task named `${name}/${label}`,
+	 * and its result records the param in `result.param` for scaling analysis.
+	 * The `name` can be passed to `remove`, `skip`, and `only` to target all params.
+	 * @param task - Parameterized task definition
+	 * @returns This Benchmark instance for chaining
+	 *
+	 * @example
+	 * ```ts
+	 * bench.add_params({
+	 *   name: 'sum',
+	 *   params: [10, 100, 10_000],
+	 *   setup: (n) => { items = Array.from({length: n}, (_, i) => i) },
+	 *   fn: () => items.reduce((a, b) => a + b, 0),
+	 * });
+	 * await bench.run();
+	 * console.log(bench.table({scaling: true}));
+	 * ```
+	 */
+	add_params<T>(task: BenchmarkParamTask<T>): this {
+		if (task.params.length === 0) {
+			throw new Error(`Task "${task.name}" requires at least one param`);
+		}
+
+		const generated: Array<BenchmarkTaskInternal> = [];
+		for (const param of task.params) {
+			const label = task.label ? task.label(param) : to_param_label(param, task.name);
+			const size = task.size ? task.size(param) : typeof param === 'number' ? param : null;
+			const name = `${task.name}/${label}`;
+
+			// Validate unique task names, including within this task's params
+			if (this.#tasks.some((t) => t.name === name) || generated.some((t) => t.name === name)) {
+				throw new Error(`Task "${name}" already exists`);
+			}
+
+			const {setup, teardown} = task;
+			generated.push({
+				name,
+				fn: () => task.fn(param),
+				setup: setup && (() => setup(param)),
+				teardown: teardown && (() => teardown(param)),
+				skip: task.skip,
+				only: task.only,
+				async: task.async,
+				param: {task: task.name, label, size},
+			});
+		}
+
+		this.#tasks.push(...generated);
+		return this;
+	}
+
+	/**
+	 * Add a benchmark task that runs isolated in a fresh worker thread.
+	 * Each isolated task gets its own JS isolate, so JIT state and garbage
+	 * from other tasks don't skew its measurements.
+	 * Results and stats are the same as for regular tasks.
+	 * Node.js only.
+	 * @param task - Module and export of the function to benchmark
+	 * @returns This Benchmark instance for chaining
+	 *
+	 * @example
+	 * ```ts
+	 * bench
+	 *   .add_isolated({name: 'slugify', module: './slugify.benchmark.js', export: 'slugify'})
+	 *   .add_isolated({name: 'slugify_v2', module: './slugify.benchmark.js', export: 'slugify_v2'});
+	 * ```
+	 */
+	add_isolated(task: BenchmarkIsolatedTask): this {
+		if (this.#tasks.some((t) => t.name === task.name)) {
+			throw new Error(`Task "${task.name}" already exists`);
+		}
+
+		this.#tasks.push({
+			name: task.name,
+			fn: isolated_task_fn,
+			skip: task.skip,
+			only: task.only,
+			async: task.async,
+			isolated: task,
+		});
+		return this;
+	}
+
 	/**
 	 * Remove a benchmark task by name.
 	 * @param name - Name of the task to remove
@@ -207,11 +529,10 @@ export class Benchmark {
 	 * ```
 	 */
 	remove(name: string): this {
-		const index = this.#tasks.findIndex((t) => t.name === name);
-		if (index === -1) {
-			throw new Error(`Task "${name}" not found`);
+		const tasks = this.#find_tasks(name);
+		for (const task of tasks) {
+			this.#tasks.splice(this.#tasks.indexOf(task), 1);
 		}
-		this.#tasks.splice(index, 1);
 		return this;
 	}
 
@@ -230,11 +551,9 @@ export class Benchmark {
 	 * ```
 	 */
 	skip(name: string): this {
-		const task = this.#tasks.find((t) => t.name === name);
-		if (!task) {
-			throw new Error(`Task "${name}" not found`);
+		for (const task of this.#find_tasks(name)) {
+			task.skip = true;
 		}
-		task.skip = true;
 		return this;
 	}
 
@@ -254,14 +573,25 @@ export class Benchmark {
 	 * ```
 	 */
 	only(name: string): this {
-		const task = this.#tasks.find((t) => t.name === name);
-		if (!task) {
-			throw new Error(`Task "${name}" not found`);
+		for (const task of this.#find_tasks(name)) {
+			task.only = true;
 		}
-		task.only = true;
 		return this;
 	}
 
+	/**
+	 * Find tasks by name, matching either a task name
+	 * or the name of a parameterized task to get all of its params.
+	 * @throws Error if no task matches
+	 */
+	#find_tasks(name: string): Array<BenchmarkTaskInternal> {
+		const tasks = this.#tasks.filter((t) => t.name === name || t.param?.task === name);
+		if (tasks.length === 0) {
+			throw new Error(`Task "${name}" not found`);
+		}
+		return tasks;
+	}
+
 	/**
 	 * Run all benchmark tasks.
 	 * @returns Array of benchmark results
@@ -299,6 +629,8 @@ export class Benchmark {
 	 * Throws if the task fails during setup, warmup, or measurement.
 	 */
 	async #run_task(task: BenchmarkTaskInternal): Promise<BenchmarkResult> {
+		if (task.isolated) return this.#run_task_isolated(task, task.isolated);
+
 		const suite_start_ns = this.#config.timer.now();
 
 		// Pre-allocate array to avoid GC pressure during measurement
@@ -306,6 +638,13 @@ export class Benchmark {
 		const timings_ns: Array<number> = new Array(max_iterations);
 		let timing_count = 0;
 
+		// Memory is measured relative to the settled heap before setup
+		const memory = this.#config.memory;
+		const heap_start = memory ? memory_heap_settled() : null;
+		let memory_sampler: MemorySampler | null = null;
+		let batch_size = 1;
+		let converged = false as boolean;
+
 		try {
 			// Setup
 			if (task.setup) {
@@ -316,14 +655,26 @@ export class Benchmark {
 			const is_async = await benchmark_warmup(task.fn, this.#config.warmup_iterations, task.async);
 			task.is_async = is_async;
 
+			// Batch fast functions so each sample lasts well above the timer's resolution
+			batch_size = await this.#resolve_batch_size(async (size) => {
+				const batched_fn = to_batched_fn(task.fn, size, is_async);
+				const start_ns = this.#config.timer.now();
+				const result = batched_fn();
+				if (is_async) await result;
+				return this.#config.timer.now() - start_ns;
+			});
+			const fn = to_batched_fn(task.fn, batch_size, is_async);
+
 			// Measurement phase
-			const target_time_ns = this.#config.duration_ms * 1_000_000; // Convert ms to ns
+			const target_time_ns = this.#target_time_ns();
 			const min_iterations = this.#config.min_iterations;
+			const convergence = this.#create_convergence_tracker();
 
 			let aborted = false as boolean;
 			const abort = (): void => {
 				aborted = true;
 			};
+			memory_sampler = memory ? create_memory_sampler() : null;
 			const measurement_start_ns = this.#config.timer.now();
 
 			// Use separate code paths for sync vs async for better performance
@@ -332,11 +683,19 @@ export class Benchmark {
 				// eslint-disable-next-line no-unmodified-loop-condition
 				while (timing_count < max_iterations && !aborted) {
 					const iter_start_ns = this.#config.timer.now();
-					await task.fn(); // eslint-disable-line no-await-in-loop
+					await fn(); // eslint-disable-line no-await-in-loop
 					const iter_end_ns = this.#config.timer.now();
-					timings_ns[timing_count++] = iter_end_ns - iter_start_ns;
+					timings_ns[timing_count++] = (iter_end_ns - iter_start_ns) / batch_size;
+					if (memory_sampler && timing_count % MEMORY_BATCH_ITERATIONS === 0) {
+						memory_sampler.sample(MEMORY_BATCH_ITERATIONS * batch_size);
+					}
 					this.#config.on_iteration?.(task.name, timing_count, abort);
 
+					if (convergence?.add(timings_ns[timing_count - 1]!)) {
+						converged = true;
+						break;
+					}
+
 					const total_elapsed_ns = iter_end_ns - measurement_start_ns;
 					if (timing_count >= min_iterations && total_elapsed_ns >= target_time_ns) {
 						break;
@@ -347,17 +706,28 @@ export class Benchmark {
 				// eslint-disable-next-line no-unmodified-loop-condition
 				while (timing_count < max_iterations && !aborted) {
 					const iter_start_ns = this.#config.timer.now();
-					task.fn();
+					fn();
 					const iter_end_ns = this.#config.timer.now();
-					timings_ns[timing_count++] = iter_end_ns - iter_start_ns;
+					timings_ns[timing_count++] = (iter_end_ns - iter_start_ns) / batch_size;
+					if (memory_sampler && timing_count % MEMORY_BATCH_ITERATIONS === 0) {
+						memory_sampler.sample(MEMORY_BATCH_ITERATIONS * batch_size);
+					}
 					this.#config.on_iteration?.(task.name, timing_count, abort);
 
+					if (convergence?.add(timings_ns[timing_count - 1]!)) {
+						converged = true;
+						break;
+					}
+
 					const total_elapsed_ns = iter_end_ns - measurement_start_ns;
 					if (timing_count >= min_iterations && total_elapsed_ns >= target_time_ns) {
 						break;
 					}
 				}
 			}
+
+			// Sample the final partial batch
+			memory_sampler?.sample((timing_count % MEMORY_BATCH_ITERATIONS) * batch_size);
 		} finally {
 			// Always run teardown
 			if (task.teardown) {
@@ -368,19 +738,167 @@ export class Benchmark {
 		// Trim array to actual size
 		timings_ns.length = timing_count;
 
+		// Retained memory is what's still on the settled heap after teardown
+		let memory_samples: BenchmarkMemorySamples | undefined;
+		if (memory_sampler) {
+			const heap_end = memory_heap_settled();
+			memory_samples = {
+				allocated_bytes_per_op: memory_sampler.samples,
+				retained_bytes: heap_start === null || heap_end === null ? null : heap_end - heap_start,
+			};
+		}
+
 		const suite_end_ns = this.#config.timer.now();
 		const total_time_ms = (suite_end_ns - suite_start_ns) / 1_000_000; // Convert back to ms for display
 
 		// Analyze results
-		const stats = new BenchmarkStats(timings_ns);
+		const stats = new BenchmarkStats(timings_ns, memory_samples);
 
-		return {
+		const result: BenchmarkResult = {
 			name: task.name,
 			stats,
 			iterations: timing_count,
+			batch_size,
+			total_time_ms,
+			timings_ns,
+		};
+		if (task.param) result.param = task.param;
+		if (this.#config.convergence) result.converged = converged;
+		return result;
+	}
+
+	/**
+	 * Get the time to measure each task for in nanoseconds,
+	 * the max duration when stopping on convergence.
+	 */
+	#target_time_ns(): number {
+		const {convergence, duration_ms} = this.#config;
+		return (convergence ? convergence.max_duration_ms : duration_ms) * 1_000_000; // Convert ms to ns
+	}
+
+	/**
+	 * Create a tracker for a task's timings, or null if not stopping on convergence.
+	 */
+	#create_convergence_tracker(): ConvergenceTracker | null {
+		const {convergence, min_iterations} = this.#config;
+		return convergence ? create_convergence_tracker(convergence, min_iterations) : null;
+	}
+
+	/**
+	 * Get the batch size for a task, calibrating it if the config's `batch` is 'auto'.
+	 * @param time_batch - Returns the total time in nanoseconds of running `size` calls
+	 */
+	async #resolve_batch_size(
+		time_batch: (size: number) => number | Promise<number>,
+	): Promise<number> {
+		const {batch, timer} = this.#config;
+		if (batch !== 'auto') return batch;
+		this.#timer_resolution_ns ??= timer_resolution_ns(timer);
+		const target_ns = Math.max(
+			BATCH_MIN_SAMPLE_NS,
+			this.#timer_resolution_ns * BATCH_RESOLUTION_MULTIPLIER,
+		);
+		return calibrate_batch_size(time_batch, target_ns);
+	}
+
+	/**
+	 * Run a single benchmark task in a fresh worker thread.
+	 * Timings are measured in the worker in chunks and streamed back,
+	 * with the stopping rules applied here between chunks.
+	 * Throws if the task fails to load or fails during setup, warmup, or measurement.
+	 */
+	async #run_task_isolated(
+		task: BenchmarkTaskInternal,
+		isolated: BenchmarkIsolatedTask,
+	): Promise<BenchmarkResult> {
+		const suite_start_ns = this.#config.timer.now();
+
+		// Imported lazily so non-isolated usage works outside of Node
+		const {BenchmarkWorker} = await import('./benchmark_worker.js');
+		const worker = await BenchmarkWorker.create(isolated);
+
+		const max_iterations = this.#config.max_iterations;
+		const min_iterations = this.#config.min_iterations;
+		const timings_ns: Array<number> = [];
+		const memory = this.#config.memory;
+		const allocated_bytes_per_op: Array<number> = [];
+
+		let batch_size = 1;
+		let converged = false as boolean;
+
+		try {
+			task.is_async = await worker.warmup(this.#config.warmup_iterations, task.async);
+
+			// Calibrate with single samples, which report the per-op time
+			batch_size = await this.#resolve_batch_size(async (size) => {
+				const {timings_ns: trial} = await worker.measure({
+					iterations: 1,
+					duration_ns: 0,
+					batch_size: size,
+				});
+				return trial[0]! * size;
+			});
+
+			const target_time_ns = this.#target_time_ns();
+			const convergence = this.#create_convergence_tracker();
+
+			let aborted = false as boolean;
+			const abort = (): void => {
+				aborted = true;
+			};
+			const measurement_start_ns = this.#config.timer.now();
+
+			// eslint-disable-next-line no-unmodified-loop-condition
+			while (timings_ns.length < max_iterations && !aborted && !converged) {
+				const elapsed_ns = this.#config.timer.now() - measurement_start_ns;
+				const past_target = elapsed_ns >= target_time_ns;
+				if (past_target && timings_ns.length >= min_iterations) break;
+
+				// Past the target duration, only run the iterations needed to reach the minimum
+				const iterations = (past_target ? min_iterations : max_iterations) - timings_ns.length;
+				const duration_ns = past_target
+					? Infinity
+					: Math.min(ISOLATED_CHUNK_NS, target_time_ns - elapsed_ns);
+				// eslint-disable-next-line no-await-in-loop
+				const chunk = await worker.measure({
+					iterations,
+					duration_ns,
+					memory_batch: memory ? MEMORY_BATCH_ITERATIONS : 0,
+					batch_size,
+				});
+				allocated_bytes_per_op.push(...chunk.allocated_bytes_per_op);
+				for (const timing_ns of chunk.timings_ns) {
+					timings_ns.push(timing_ns);
+					this.#config.on_iteration?.(task.name, timings_ns.length, abort);
+					if (aborted as boolean) break;
+					if (convergence?.add(timing_ns)) {
+						converged = true;
+						break;
+					}
+				}
+			}
+		} finally {
+			// Always run teardown and terminate the worker
+			await worker.close();
+		}
+
+		const suite_end_ns = this.#config.timer.now();
+		const total_time_ms = (suite_end_ns - suite_start_ns) / 1_000_000; // Convert back to ms for display
+
+		const memory_samples: BenchmarkMemorySamples | undefined = memory
+			? {allocated_bytes_per_op, retained_bytes: worker.retained_bytes}
+			: undefined;
+
+		const result: BenchmarkResult = {
+			name: task.name,
+			stats: new BenchmarkStats(timings_ns, memory_samples),
+			iterations: timings_ns.length,
+			batch_size,
 			total_time_ms,
 			timings_ns,
 		};
+		if (this.#config.convergence) result.converged = converged;
+		return result;
 	}
 
 	/**
@@ -400,9 +918,13 @@ export class Benchmark {
 	 *     { name: 'SLOW PATHS', filter: (r) => r.name.includes('slow') },
 	 *   ]
 	 * }));
+	 *
+	 * // Scaling table for tasks added with `add_params`
+	 * console.log(bench.table({scaling: true}));
 	 * ```
 	 */
 	table(options?: BenchmarkFormatTableOptions): string {
+		if (options?.scaling) return benchmark_format_table_scaling(this.#results);
 		return options?.groups
 			? benchmark_format_table_grouped(this.#results, options.groups)
 			: benchmark_format_table(this.#results);
@@ -428,6 +950,7 @@ export class Benchmark {
 	 * ```
 	 */
 	markdown(options?: BenchmarkFormatTableOptions): string {
+		if (options?.scaling) return benchmark_format_markdown_scaling(this.#results);
 		return options?.groups
 			? benchmark_format_markdown_grouped(this.#results, options.groups)
 			: benchmark_format_markdown(this.#results);
@@ -442,6 +965,21 @@ export class Benchmark {
 		return benchmark_format_json(this.#results, options);
 	}
 
+	/**
+	 * Format results as a self-contained HTML report with histograms and percentile charts.
+	 * @param options - Formatting options (title, baseline comparison, histogram bins)
+	 * @returns HTML document string
+	 *
+	 * @example
+	 * ```ts
+	 * const comparison = await benchmark_baseline_compare(bench.results());
+	 * await writeFile('benchmark.html', bench.html({comparison}));
+	 * ```
+	 */
+	html(options?: BenchmarkFormatHtmlOptions): string {
+		return benchmark_format_html(this.#results, options);
+	}
+
 	/**
 	 * Get the benchmark results.
 	 * Returns a shallow copy to prevent external mutation.
@@ -466,6 +1004,21 @@ export class Benchmark {
 		return this.#results.length > 0;
 	}
 
+	/**
+	 * Names of all added tasks in the order they run, including skipped tasks.
+	 * Returns a new array each call.
+	 *
+	 * @example
+	 * ```ts
+	 * for (const name of bench.task_names) {
+	 *   if (!name.startsWith('parse')) bench.skip(name);
+	 * }
+	 * ```
+	 */
+	get task_names(): Array<string> {
+		return this.#tasks.map((t) => t.name);
+	}
+
 	/**
 	 * Get results as a map for convenient lookup by task name.
 	 * Returns a new Map each call to prevent external mutation.
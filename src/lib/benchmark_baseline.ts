@@ -17,10 +17,18 @@ import {
 	type BenchmarkComparison,
 	type BenchmarkStatsComparable,
 } from './benchmark_stats.js';
-import {stats_confidence_interval_from_summary} from './stats.js';
+import {
+	stats_confidence_interval_from_summary,
+	stats_p_adjust,
+	type StatsPAdjustMethod,
+} from './stats.js';
 
-// Version for forward compatibility - increment when schema changes
-const BASELINE_VERSION = 2;
+/**
+ * Version of the baseline schema, shared by baseline and history files.
+ * Incremented for incompatible schema changes, and baseline files with other versions are discarded,
+ * so new fields get defaults instead to keep saved baselines loadable.
+ */
+export const BENCHMARK_BASELINE_VERSION = 2;
 
 /**
  * Schema for a single benchmark entry in the baseline.
@@ -38,6 +46,16 @@ export const BenchmarkBaselineEntry = z.object({
 	p99_ns: z.number(),
 	ops_per_second: z.number(),
 	sample_size: z.number(),
+	allocated_bytes_per_op: z
+		.number()
+		.nullable()
+		.default(null)
+		.meta({description: "median heap bytes allocated per op, null if memory wasn't measured"}),
+	retained_bytes: z
+		.number()
+		.nullable()
+		.default(null)
+		.meta({description: 'heap bytes retained after the task, null if unknown'}),
 });
 export type BenchmarkBaselineEntry = z.infer<typeof BenchmarkBaselineEntry>;
 
@@ -89,8 +107,21 @@ export interface BenchmarkBaselineCompareOptions extends BenchmarkBaselineLoadOp
 	 * Default: undefined (no staleness warning)
 	 */
 	staleness_warning_days?: number;
+	/** Significance level for each task's comparison (default: 0.05) */
+	alpha?: number;
+	/**
+	 * Correction of the task p-values for multiple comparisons,
+	 * so comparing many tasks doesn't flag regressions purely by chance.
+	 * Default: 'none'
+	 */
+	correction?: BenchmarkBaselineCorrection;
 }
 
+/**
+ * Correction of the task p-values for multiple comparisons, see `StatsPAdjustMethod`.
+ */
+export type BenchmarkBaselineCorrection = 'none' | StatsPAdjustMethod;
+
 /**
  * Result of comparing current results against a baseline.
  */
@@ -105,6 +136,8 @@ export interface BenchmarkBaselineComparisonResult {
 	baseline_age_days: number | null;
 	/** Whether the baseline is considered stale based on staleness_warning_days option */
 	baseline_stale: boolean;
+	/** Correction applied to the task p-values */
+	correction: BenchmarkBaselineCorrection;
 	/** Individual task comparisons */
 	comparisons: Array<BenchmarkBaselineTaskComparison>;
 	/** Tasks that regressed (slower with statistical significance), sorted by effect size (largest first) */
@@ -126,10 +159,16 @@ export interface BenchmarkBaselineTaskComparison {
 	name: string;
 	baseline: BenchmarkBaselineEntry;
 	current: BenchmarkBaselineEntry;
+	/** Comparison of the task alone, with the unadjusted p-value */
 	comparison: BenchmarkComparison;
+	/** P-value after the correction for multiple comparisons, equal to the unadjusted one without a correction */
+	adjusted_p_value: number;
 }
 
-const DEFAULT_BASELINE_PATH = '.gro/benchmarks';
+/**
+ * Default directory for baseline and history files.
+ */
+export const BENCHMARK_BASELINE_DEFAULT_PATH = '.gro/benchmarks';
 const BASELINE_FILENAME = 'baseline.json';
 
 /**
@@ -149,29 +188,23 @@ const results_to_entries = (results: Array<BenchmarkResult>): Array<BenchmarkBas
 		p99_ns: r.stats.p99_ns,
 		ops_per_second: r.stats.ops_per_second,
 		sample_size: r.stats.sample_size,
+		allocated_bytes_per_op: r.stats.allocated_bytes_per_op,
+		retained_bytes: r.stats.retained_bytes,
 	}));
 };
 
 /**
- * Save benchmark results as the current baseline.
+ * Create a baseline from benchmark results without saving it,
+ * detecting git info if not provided.
  *
- * @param results - Benchmark results to save
- * @param options - Save options
- *
- * @example
- * ```ts
- * const bench = new Benchmark();
- * bench.add('test', () => fn());
- * await bench.run();
- * await benchmark_baseline_save(bench.results());
- * ```
+ * @param results - Benchmark results to convert
+ * @param options - Git info overrides, `path` is ignored
+ * @returns The baseline record
  */
-export const benchmark_baseline_save = async (
+export const benchmark_baseline_create = async (
 	results: Array<BenchmarkResult>,
 	options: BenchmarkBaselineSaveOptions = {},
-): Promise<void> => {
-	const base_path = options.path ?? DEFAULT_BASELINE_PATH;
-
+): Promise<BenchmarkBaseline> => {
 	// Get git info if not provided
 	let git_commit = options.git_commit;
 	let git_branch = options.git_branch;
@@ -181,14 +214,36 @@ export const benchmark_baseline_save = async (
 		git_branch ??= git_info.branch;
 	}
 
-	const baseline: BenchmarkBaseline = {
-		version: BASELINE_VERSION,
+	return {
+		version: BENCHMARK_BASELINE_VERSION,
 		timestamp: new Date().toISOString(),
 		git_commit,
 		git_branch,
 		node_version: process.version,
 		entries: results_to_entries(results),
 	};
+};
+
+/**
+ * Save benchmark results as the current baseline.
+ *
+ * @param results - Benchmark results to save
+ * @param options - Save options
+ *
+ * @example
+ * ```ts
+ * const bench = new Benchmark();
+ * bench.add('test', () => fn());
+ * await bench.run();
+ * await benchmark_baseline_save(bench.results());
+ * ```
+ */
+export const benchmark_baseline_save = async (
+	results: Array<BenchmarkResult>,
+	options: BenchmarkBaselineSaveOptions = {},
+): Promise<void> => {
+	const base_path = options.path ?? BENCHMARK_BASELINE_DEFAULT_PATH;
+	const baseline = await benchmark_baseline_create(results, options);
 
 	await mkdir(base_path, {recursive: true});
 	const filepath = join(base_path, BASELINE_FILENAME);
@@ -212,7 +267,7 @@ export const benchmark_baseline_save = async (
 export const benchmark_baseline_load = async (
 	options: BenchmarkBaselineLoadOptions = {},
 ): Promise<BenchmarkBaseline | null> => {
-	const base_path = options.path ?? DEFAULT_BASELINE_PATH;
+	const base_path = options.path ?? BENCHMARK_BASELINE_DEFAULT_PATH;
 	const filepath = join(base_path, BASELINE_FILENAME);
 
 	if (!(await fs_exists(filepath))) {
@@ -225,10 +280,10 @@ export const benchmark_baseline_load = async (
 		const baseline = BenchmarkBaseline.parse(parsed);
 
 		// Check version compatibility
-		if (baseline.version !== BASELINE_VERSION) {
+		if (baseline.version !== BENCHMARK_BASELINE_VERSION) {
 			// eslint-disable-next-line no-console
 			console.warn(
-				`Benchmark baseline version mismatch (got ${baseline.version}, expected ${BASELINE_VERSION}). Removing stale baseline: ${filepath}`,
+				`Benchmark baseline version mismatch (got ${baseline.version}, expected ${BENCHMARK_BASELINE_VERSION}). Removing stale baseline: ${filepath}`,
 			);
 			await rm(filepath, {force: true});
 			return null;
@@ -248,6 +303,7 @@ export const benchmark_baseline_load = async (
 
 /**
  * Compare benchmark results against the stored baseline.
+ * With a `correction`, tasks are categorized by their adjusted p-values.
  *
  * @param results - Current benchmark results
  * @param options - Comparison options including regression threshold and staleness warning
@@ -262,6 +318,7 @@ export const benchmark_baseline_load = async (
  * const comparison = await benchmark_baseline_compare(bench.results(), {
  *   regression_threshold: 1.05, // Only flag regressions 5% or more slower
  *   staleness_warning_days: 7,  // Warn if baseline is older than 7 days
+ *   correction: 'holm',         // Account for comparing many tasks at once
  * });
  * if (comparison.regressions.length > 0) {
  *   console.log('Performance regressions detected!');
@@ -278,6 +335,8 @@ export const benchmark_baseline_compare = async (
 ): Promise<BenchmarkBaselineComparisonResult> => {
 	const baseline = await benchmark_baseline_load(options);
 	const regression_threshold = options.regression_threshold ?? 1.0;
+	const alpha = options.alpha ?? 0.05;
+	const correction = options.correction ?? 'none';
 
 	if (!baseline) {
 		return {
@@ -286,6 +345,7 @@ export const benchmark_baseline_compare = async (
 			baseline_commit: null,
 			baseline_age_days: null,
 			baseline_stale: false,
+			correction,
 			comparisons: [],
 			regressions: [],
 			improvements: [],
@@ -344,20 +404,34 @@ export const benchmark_baseline_compare = async (
 			),
 		};
 
-		const comparison = benchmark_stats_compare(baseline_stats, current_stats);
+		const comparison = benchmark_stats_compare(baseline_stats, current_stats, {alpha});
 
-		const task_comparison: BenchmarkBaselineTaskComparison = {
+		comparisons.push({
 			name: current.name,
 			baseline: baseline_entry,
 			current,
 			comparison,
-		};
+			adjusted_p_value: comparison.p_value,
+		});
+	}
+
+	// Correct for the number of tasks before categorizing
+	if (correction !== 'none') {
+		const adjusted = stats_p_adjust(
+			comparisons.map((c) => c.comparison.p_value),
+			correction,
+		);
+		for (let i = 0; i < comparisons.length; i++) {
+			comparisons[i]!.adjusted_p_value = adjusted[i]!;
+		}
+	}
 
-		comparisons.push(task_comparison);
+	for (const task_comparison of comparisons) {
+		const {comparison, adjusted_p_value} = task_comparison;
 
 		// Categorize based on comparison result
 		// Note: comparison.faster is 'a' (baseline) or 'b' (current)
-		if (comparison.significant && comparison.effect_magnitude !== 'negligible') {
+		if (adjusted_p_value < alpha && comparison.effect_magnitude !== 'negligible') {
 			if (comparison.faster === 'a') {
 				// Baseline was faster = potential regression
 				// Only count as regression if it exceeds the threshold
@@ -399,6 +473,7 @@ export const benchmark_baseline_compare = async (
 		baseline_commit: baseline.git_commit,
 		baseline_age_days,
 		baseline_stale,
+		correction,
 		comparisons,
 		regressions,
 		improvements,
@@ -408,6 +483,11 @@ export const benchmark_baseline_compare = async (
 	};
 };
 
+const CORRECTION_LABELS: Record<StatsPAdjustMethod, string> = {
+	holm: 'Holm-Bonferroni',
+	benjamini_hochberg: 'Benjamini-Hochberg',
+};
+
 /**
  * Format a baseline comparison result as a human-readable string.
  *
@@ -434,14 +514,23 @@ export const benchmark_baseline_format = (result: BenchmarkBaselineComparisonRes
 					: `${Math.floor(result.baseline_age_days)} days`;
 		lines.push(`Baseline age: ${age_str}${result.baseline_stale ? ' (STALE)' : ''}`);
 	}
+	if (result.correction !== 'none') {
+		lines.push(`P-values adjusted with ${CORRECTION_LABELS[result.correction]} correction`);
+	}
 	lines.push('');
 
+	const format_p = (r: BenchmarkBaselineTaskComparison): string => {
+		const p = `p=${r.comparison.p_value.toFixed(3)}`;
+		return result.correction === 'none' ? p : `${p}, adjusted p=${r.adjusted_p_value.toFixed(3)}`;
+	};
+
 	if (result.regressions.length > 0) {
 		lines.push(`Regressions (${result.regressions.length}):`);
 		for (const r of result.regressions) {
 			const ratio = r.comparison.speedup_ratio.toFixed(2);
-			const p = r.comparison.p_value.toFixed(3);
-			lines.push(`  ${r.name}: ${ratio}x slower (p=${p}, ${r.comparison.effect_magnitude})`);
+			lines.push(
+				`  ${r.name}: ${ratio}x slower (${format_p(r)}, ${r.comparison.effect_magnitude})`,
+			);
 		}
 		lines.push('');
 	}
@@ -450,8 +539,9 @@ export const benchmark_baseline_format = (result: BenchmarkBaselineComparisonRes
 		lines.push(`Improvements (${result.improvements.length}):`);
 		for (const r of result.improvements) {
 			const ratio = r.comparison.speedup_ratio.toFixed(2);
-			const p = r.comparison.p_value.toFixed(3);
-			lines.push(`  ${r.name}: ${ratio}x faster (p=${p}, ${r.comparison.effect_magnitude})`);
+			lines.push(
+				`  ${r.name}: ${ratio}x faster (${format_p(r)}, ${r.comparison.effect_magnitude})`,
+			);
 		}
 		lines.push('');
 	}
@@ -505,6 +595,7 @@ export const benchmark_baseline_format_json = (
 		baseline_commit: result.baseline_commit,
 		baseline_age_days: result.baseline_age_days,
 		baseline_stale: result.baseline_stale,
+		correction: result.correction,
 		summary: {
 			total: result.comparisons.length,
 			regressions: result.regressions.length,
@@ -519,6 +610,7 @@ export const benchmark_baseline_format_json = (
 			effect_size: r.comparison.effect_size,
 			effect_magnitude: r.comparison.effect_magnitude,
 			p_value: r.comparison.p_value,
+			adjusted_p_value: r.adjusted_p_value,
 			baseline_mean_ns: r.baseline.mean_ns,
 			current_mean_ns: r.current.mean_ns,
 		})),
@@ -528,6 +620,7 @@ export const benchmark_baseline_format_json = (
 			effect_size: r.comparison.effect_size,
 			effect_magnitude: r.comparison.effect_magnitude,
 			p_value: r.comparison.p_value,
+			adjusted_p_value: r.adjusted_p_value,
 			baseline_mean_ns: r.baseline.mean_ns,
 			current_mean_ns: r.current.mean_ns,
 		})),
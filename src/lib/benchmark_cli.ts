@@ -0,0 +1,262 @@
+/**
+ * Reusable command line entry point for running benchmark files.
+ * Discovers `*.benchmark.ts` files, lets each one add its tasks to a shared `Benchmark`,
+ * prints the results, and optionally compares against or saves a baseline.
+ *
+ * Benchmark files default-export a function that receives the `Benchmark`:
+ *
+ * ```ts
+ * // src/lib/parse.benchmark.ts
+ * import type {BenchmarkFileSetup} from '@fuzdev/fuz_util/benchmark_cli.js';
+ *
+ * export default ((bench) => {
+ *   bench.add('parse', () => parse(input));
+ * }) satisfies BenchmarkFileSetup;
+ * ```
+ *
+ * Node.js only. Importing `.ts` files requires a runtime that supports TypeScript,
+ * like `gro run` or Node 23.6+.
+ *
+ * @module
+ */
+
+import {pathToFileURL} from 'node:url';
+import {z} from 'zod';
+
+import {argv_parse, args_parse} from './args.js';
+import {fs_search} from './fs.js';
+import {Benchmark} from './benchmark.js';
+import type {BenchmarkConfig, BenchmarkResult} from './benchmark_types.js';
+import {
+	benchmark_baseline_compare,
+	benchmark_baseline_format,
+	benchmark_baseline_save,
+	BENCHMARK_BASELINE_DEFAULT_PATH,
+	type BenchmarkBaselineComparisonResult,
+} from './benchmark_baseline.js';
+
+/**
+ * The default export of a benchmark file, adds tasks to the shared `Benchmark`.
+ */
+export type BenchmarkFileSetup = (bench: Benchmark) => void | Promise<void>;
+
+/**
+ * Schema of the benchmark CLI's args.
+ * Positionals are the directories to search for benchmark files.
+ */
+export const BenchmarkCliArgs = z.strictObject({
+	_: z
+		.array(z.string())
+		.default([])
+		.meta({description: 'directories to search for benchmark files, defaults to src'}),
+	filter: z
+		.string()
+		.optional()
+		.meta({aliases: ['f'], description: 'only run tasks with names that include this text'}),
+	save: z.boolean().default(false).meta({description: 'save the results as the new baseline'}),
+	compare: z
+		.boolean()
+		.default(false)
+		.meta({description: 'compare against the saved baseline and fail on regressions'}),
+	format: z
+		.enum(['table', 'markdown', 'json', 'html'])
+		.default('table')
+		.meta({description: 'output format of the results'}),
+	duration: z
+		.number()
+		.positive()
+		.optional()
+		.meta({aliases: ['d'], description: 'target duration of each task in milliseconds'}),
+	threshold: z
+		.number()
+		.min(1)
+		.default(1.05)
+		.meta({description: 'minimum slowdown ratio that counts as a regression'}),
+	path: z
+		.string()
+		.default(BENCHMARK_BASELINE_DEFAULT_PATH)
+		.meta({description: 'directory of the saved baseline'}),
+});
+export type BenchmarkCliArgs = z.infer<typeof BenchmarkCliArgs>;
+
+/**
+ * Options for running the benchmark CLI.
+ */
+export interface BenchmarkCliOptions {
+	/** Raw CLI args (default: `process.argv.slice(2)`) */
+	argv?: Array<string>;
+	/** Directory to resolve the search directories from (default: `process.cwd()`) */
+	cwd?: string;
+	/** Filename suffix of benchmark files (default: '.benchmark.ts') */
+	suffix?: string;
+	/** Base config of the `Benchmark`, `--duration` overrides `duration_ms` */
+	config?: BenchmarkConfig;
+	/** Prints the results (default: `console.log`) */
+	log?: (message: string) => void;
+	/**
+	 * Prints errors, and reports for the json and html formats
+	 * so their output stays parseable (default: `console.error`).
+	 */
+	log_error?: (message: string) => void;
+}
+
+/**
+ * Result of running the benchmark CLI.
+ */
+export interface BenchmarkCliResult {
+	/** 1 for invalid args, no benchmarks, or regressions when not saving, otherwise 0 */
+	exit_code: number;
+	/** Results of the run, empty if it didn't run */
+	results: Array<BenchmarkResult>;
+	/** Baseline comparison, null unless `--compare` was passed */
+	comparison: BenchmarkBaselineComparisonResult | null;
+}
+
+const DEFAULT_SEARCH_DIR = 'src';
+const DEFAULT_SUFFIX = '.benchmark.ts';
+
+/**
+ * Run the benchmark CLI without exiting, see `benchmark_cli_main`.
+ * Errors thrown by benchmark files and tasks propagate.
+ *
+ * @param options - Args and environment overrides
+ * @returns The exit code with the results and comparison
+ * @throws Error if a benchmark file doesn't default-export a function
+ *
+ * @example
+ * ```ts
+ * const {exit_code, results} = await benchmark_cli_run({argv: ['src/lib', '--filter', 'parse']});
+ * ```
+ */
+export const benchmark_cli_run = async (
+	options: BenchmarkCliOptions = {},
+): Promise<BenchmarkCliResult> => {
+	const {
+		argv = process.argv.slice(2),
+		cwd = process.cwd(),
+		suffix = DEFAULT_SUFFIX,
+		config,
+		log = console.log, // eslint-disable-line no-console
+		log_error = console.error, // eslint-disable-line no-console
+	} = options;
+
+	const parsed = args_parse(argv_parse(argv), BenchmarkCliArgs);
+	if (!parsed.success) {
+		log_error(`Invalid arguments:\n${z.prettifyError(parsed.error)}`);
+		return {exit_code: 1, results: [], comparison: null};
+	}
+	const args = parsed.data;
+
+	// Discover benchmark files, skipping dependencies
+	const dirs = args._.length > 0 ? args._ : [DEFAULT_SEARCH_DIR];
+	const file_ids: Set<string> = new Set();
+	for (const dir of dirs) {
+		// eslint-disable-next-line no-await-in-loop
+		const files = await fs_search(dir, {
+			cwd,
+			filter: (id, is_directory) => !(is_directory && id.endsWith('/node_modules')),
+			file_filter: (id) => id.endsWith(suffix),
+		});
+		for (const file of files) file_ids.add(file.id);
+	}
+	if (file_ids.size === 0) {
+		log_error(`No ${suffix} files found in ${dirs.join(', ')}`);
+		return {exit_code: 1, results: [], comparison: null};
+	}
+
+	const bench = new Benchmark(
+		args.duration === undefined ? config : {...config, duration_ms: args.duration},
+	);
+	for (const id of file_ids) {
+		const mod = await import(pathToFileURL(id).href); // eslint-disable-line no-await-in-loop
+		if (typeof mod.default !== 'function') {
+			throw new Error(`Benchmark file ${id} must default-export a function that adds tasks`);
+		}
+		await (mod.default as BenchmarkFileSetup)(bench); // eslint-disable-line no-await-in-loop
+	}
+
+	if (args.filter !== undefined) {
+		const filter = args.filter;
+		const names = bench.task_names;
+		if (!names.some((name) => name.includes(filter))) {
+			log_error(`No tasks match filter "${filter}"`);
+			return {exit_code: 1, results: [], comparison: null};
+		}
+		for (const name of names) {
+			if (!name.includes(filter)) bench.skip(name);
+		}
+	}
+
+	const results = await bench.run();
+
+	// Compare before saving, which replaces the baseline
+	const comparison = args.compare
+		? await benchmark_baseline_compare(results, {
+				path: args.path,
+				regression_threshold: args.threshold,
+			})
+		: null;
+
+	// Reports go to stderr for machine-readable formats
+	const log_report = args.format === 'json' || args.format === 'html' ? log_error : log;
+
+	switch (args.format) {
+		case 'table':
+			log(bench.table());
+			break;
+		case 'markdown':
+			log(bench.markdown());
+			break;
+		case 'json':
+			log(bench.json());
+			break;
+		case 'html':
+			log(bench.html(comparison ? {comparison} : undefined));
+			break;
+	}
+
+	if (comparison) {
+		log_report('\n' + benchmark_baseline_format(comparison));
+	}
+
+	if (args.save) {
+		await benchmark_baseline_save(results, {path: args.path});
+		log_report(`\nBaseline saved to ${args.path}`);
+	}
+
+	const regressed = !!comparison && comparison.regressions.length > 0;
+	if (regressed && !args.save) {
+		log_error('\nRegressions detected. Run with --save to update the baseline if intentional.');
+	}
+
+	return {exit_code: regressed && !args.save ? 1 : 0, results, comparison};
+};
+
+/**
+ * Run the benchmark CLI and set `process.exitCode`,
+ * non-zero on invalid args, no benchmarks, or regressions against the baseline.
+ *
+ * Args:
+ * - positionals: directories to search for benchmark files (default: src)
+ * - `--filter, -f <text>`: only run tasks with names that include the text
+ * - `--save`: save the results as the new baseline, accepting any regressions
+ * - `--compare`: compare against the saved baseline and fail on regressions
+ * - `--format <table|markdown|json|html>`: output format (default: table)
+ * - `--duration, -d <ms>`: target duration of each task
+ * - `--threshold <ratio>`: minimum slowdown ratio that counts as a regression (default: 1.05)
+ * - `--path <dir>`: directory of the saved baseline (default: .gro/benchmarks)
+ *
+ * @param options - Args and environment overrides
+ *
+ * @example
+ * ```ts
+ * // src/benchmarks/run.ts, run with `gro run src/benchmarks/run.ts --compare`
+ * import {benchmark_cli_main} from '@fuzdev/fuz_util/benchmark_cli.js';
+ *
+ * await benchmark_cli_main({config: {duration_ms: 3000}});
+ * ```
+ */
+export const benchmark_cli_main = async (options?: BenchmarkCliOptions): Promise<void> => {
+	const {exit_code} = await benchmark_cli_run(options);
+	process.exitCode = exit_code;
+};
@@ -1,11 +1,29 @@
 import type {BenchmarkResult, BenchmarkGroup} from './benchmark_types.js';
-import {time_unit_detect_best, time_format, TIME_UNIT_DISPLAY} from './time.js';
+import type {
+	BenchmarkBaselineComparisonResult,
+	BenchmarkBaselineTaskComparison,
+} from './benchmark_baseline.js';
+import {time_unit_detect_best, time_format, TIME_UNIT_DISPLAY, type TimeUnit} from './time.js';
 import {string_display_width, pad_width} from './string.js';
 import {format_number} from './maths.js';
+import {benchmark_complexity_fit} from './benchmark_stats.js';
+
+/**
+ * Check if a result has memory measurements from `BenchmarkConfig.memory`.
+ */
+const has_memory_stats = (result: BenchmarkResult): boolean =>
+	result.stats.allocated_bytes_per_op !== null || result.stats.retained_bytes !== null;
+
+/**
+ * Format a byte count for a memory column, with '-' for unknown values.
+ */
+const format_optional_bytes = (bytes: number | null): string =>
+	bytes === null ? '-' : benchmark_format_bytes(bytes);
 
 /**
  * Format results as an ASCII table with percentiles, min/max, and relative performance.
  * All times use the same unit for easy comparison.
+ * When memory was measured (`BenchmarkConfig.memory`), adds alloc/op and retained columns.
  * @param results - Array of benchmark results
  * @param baseline - Optional task name to use as baseline for comparison (defaults to fastest)
  * @returns Formatted table string with enhanced metrics
@@ -51,6 +69,9 @@ export const benchmark_format_table = (
 		vs_column_header = 'vs Best';
 	}
 
+	// Memory columns are only shown when memory was measured
+	const has_memory = results.some(has_memory_stats);
+
 	const rows: Array<Array<string>> = [];
 
 	// Header with unit
@@ -64,6 +85,7 @@ export const benchmark_format_table = (
 		`p99 (${unit_str})`,
 		`min (${unit_str})`,
 		`max (${unit_str})`,
+		...(has_memory ? ['alloc/op', 'retained'] : []),
 		vs_column_header,
 	]);
 
@@ -82,7 +104,14 @@ export const benchmark_format_table = (
 		const ratio = baseline_ops / r.stats.ops_per_second;
 		const vs_baseline = ratio === 1.0 ? 'baseline' : `${ratio.toFixed(2)}x`;
 
-		rows.push([r.name, ops_sec, p50, p75, p90, p95, p99, min, max, vs_baseline]);
+		const memory = has_memory
+			? [
+					format_optional_bytes(r.stats.allocated_bytes_per_op),
+					format_optional_bytes(r.stats.retained_bytes),
+				]
+			: [];
+
+		rows.push([r.name, ops_sec, p50, p75, p90, p95, p99, min, max, ...memory, vs_baseline]);
 	});
 
 	// Calculate column widths (using display width for proper emoji handling)
@@ -126,6 +155,7 @@ export const benchmark_format_table = (
 /**
  * Format results as a Markdown table with key metrics.
  * All times use the same unit for easy comparison.
+ * When memory was measured (`BenchmarkConfig.memory`), adds alloc/op and retained columns.
  * @param results - Array of benchmark results
  * @param baseline - Optional task name to use as baseline for comparison (defaults to fastest)
  * @returns Formatted markdown table string
@@ -169,6 +199,9 @@ export const benchmark_format_markdown = (
 		vs_column_header = 'vs Best';
 	}
 
+	// Memory columns are only shown when memory was measured
+	const has_memory = results.some(has_memory_stats);
+
 	const rows: Array<Array<string>> = [];
 
 	// Header with unit
@@ -182,6 +215,7 @@ export const benchmark_format_markdown = (
 		`p99 (${unit_str})`,
 		`min (${unit_str})`,
 		`max (${unit_str})`,
+		...(has_memory ? ['alloc/op', 'retained'] : []),
 		vs_column_header,
 	]);
 
@@ -200,7 +234,14 @@ export const benchmark_format_markdown = (
 		const ratio = baseline_ops / r.stats.ops_per_second;
 		const vs_baseline = ratio === 1.0 ? 'baseline' : `${ratio.toFixed(2)}x`;
 
-		rows.push([r.name, ops_sec, p50, p75, p90, p95, p99, min, max, vs_baseline]);
+		const memory = has_memory
+			? [
+					format_optional_bytes(r.stats.allocated_bytes_per_op),
+					format_optional_bytes(r.stats.retained_bytes),
+				]
+			: [];
+
+		rows.push([r.name, ops_sec, p50, p75, p90, p95, p99, min, max, ...memory, vs_baseline]);
 	});
 
 	// Calculate column widths
@@ -322,6 +363,7 @@ export const benchmark_format_json = (
 	const flattened = results.map((r) => ({
 		name: r.name,
 		iterations: r.iterations,
+		batch_size: r.batch_size ?? 1,
 		total_time_ms: r.total_time_ms,
 		ops_per_second: r.stats.ops_per_second,
 		mean_ns: r.stats.mean_ns,
@@ -340,6 +382,14 @@ export const benchmark_format_json = (
 		sample_size: r.stats.sample_size,
 		raw_sample_size: r.stats.raw_sample_size,
 		failed_iterations: r.stats.failed_iterations,
+		...(has_memory_stats(r)
+			? {
+					allocated_bytes_per_op: r.stats.allocated_bytes_per_op,
+					retained_bytes: r.stats.retained_bytes,
+				}
+			: {}),
+		...(r.param ? {param: r.param} : {}),
+		...(r.converged !== undefined ? {converged: r.converged} : {}),
 		...(include_timings ? {timings_ns: r.timings_ns} : {}),
 	}));
 
@@ -403,8 +453,526 @@ export const benchmark_format_table_grouped = (
 	return sections.join('\n');
 };
 
+/**
+ * Build the header and data rows of a scaling table from parameterized results.
+ * Rows are parameterized tasks in order of appearance, columns are param labels.
+ * Returns null if no results have params.
+ */
+const to_scaling_rows = (results: Array<BenchmarkResult>): Array<Array<string>> | null => {
+	const param_results = results.filter((r) => r.param);
+	if (param_results.length === 0) return null;
+
+	const unit = time_unit_detect_best(param_results.map((r) => r.stats.mean_ns));
+	const unit_str = TIME_UNIT_DISPLAY[unit];
+
+	// Collect task names and param labels in order of first appearance
+	const task_names: Array<string> = [];
+	const labels: Array<string> = [];
+	const by_task: Map<string, Map<string, BenchmarkResult>> = new Map();
+	for (const r of param_results) {
+		const {task, label} = r.param!;
+		let task_results = by_task.get(task);
+		if (!task_results) {
+			task_results = new Map();
+			by_task.set(task, task_results);
+			task_names.push(task);
+		}
+		task_results.set(label, r);
+		if (!labels.includes(label)) labels.push(label);
+	}
+
+	const rows: Array<Array<string>> = [];
+
+	// Header with unit
+	rows.push(['Task Name', ...labels.map((l) => `${l} (${unit_str})`), 'Complexity']);
+
+	// Data rows - mean times in the same unit, plus the fitted exponent
+	for (const task of task_names) {
+		const task_results = by_task.get(task)!;
+		const cells = labels.map((label) => {
+			const r = task_results.get(label);
+			return r ? time_format(r.stats.mean_ns, unit, 2).replace(unit_str, '').trim() : '-';
+		});
+		const fit = benchmark_complexity_fit(
+			Array.from(task_results.values(), (r) => ({
+				size: r.param!.size ?? NaN,
+				mean_ns: r.stats.mean_ns,
+			})),
+		);
+		rows.push([task, ...cells, fit ? `O(n^${fit.exponent.toFixed(2)})` : '-']);
+	}
+
+	return rows;
+};
+
+/**
+ * Format parameterized results as an ASCII scaling table.
+ * Rows are tasks, columns are params (mean time per op), and the last column
+ * is the complexity exponent estimated from the means and param sizes.
+ * Results without params are ignored.
+ * @param results - Array of benchmark results, typically from `Benchmark.add_params`
+ * @returns Formatted table string
+ *
+ * @example
+ * ```ts
+ * console.log(benchmark_format_table_scaling(results));
+ * // ┌───────────┬───────────┬────────────┬──────────────┬────────────┐
+ * // │ Task Name │ 10 (μs)   │ 100 (μs)   │ 10000 (μs)   │ Complexity │
+ * // ├───────────┼───────────┼────────────┼──────────────┼────────────┤
+ * // │ sum       │      0.05 │       0.41 │        40.12 │ O(n^0.95)  │
+ * // │ sort      │      0.31 │       5.20 │      1021.45 │ O(n^1.18)  │
+ * // └───────────┴───────────┴────────────┴──────────────┴────────────┘
+ * ```
+ */
+export const benchmark_format_table_scaling = (results: Array<BenchmarkResult>): string => {
+	const rows = to_scaling_rows(results);
+	if (!rows) return '(no results)';
+
+	const widths = rows[0]!.map((_, col_i) => {
+		return Math.max(...rows.map((row) => string_display_width(row[col_i]!)));
+	});
+
+	const lines: Array<string> = [];
+	lines.push('┌' + widths.map((w) => '─'.repeat(w + 2)).join('┬') + '┐');
+	const header = rows[0]!.map((cell, i) => ' ' + pad_width(cell, widths[i]!) + ' ').join('│');
+	lines.push('│' + header + '│');
+	lines.push('├' + widths.map((w) => '─'.repeat(w + 2)).join('┼') + '┤');
+	for (let i = 1; i < rows.length; i++) {
+		const row = rows[i]!.map((cell, col_i) => {
+			// Left-align task name and complexity, right-align times
+			const align = col_i === 0 || col_i === widths.length - 1 ? 'left' : 'right';
+			return ' ' + pad_width(cell, widths[col_i]!, align) + ' ';
+		}).join('│');
+		lines.push('│' + row + '│');
+	}
+	lines.push('└' + widths.map((w) => '─'.repeat(w + 2)).join('┴') + '┘');
+
+	return lines.join('\n');
+};
+
+/**
+ * Format parameterized results as a Markdown scaling table.
+ * Rows are tasks, columns are params (mean time per op), and the last column
+ * is the complexity exponent estimated from the means and param sizes.
+ * Results without params are ignored.
+ * @param results - Array of benchmark results, typically from `Benchmark.add_params`
+ * @returns Formatted markdown table string
+ *
+ * @example
+ * ```ts
+ * console.log(benchmark_format_markdown_scaling(results));
+ * // | Task Name | 10 (μs) | 100 (μs) | 10000 (μs) | Complexity |
+ * // | --------- | ------- | -------- | ---------- | ---------- |
+ * // | sum       |    0.05 |     0.41 |      40.12 | O(n^0.95)  |
+ * // | sort      |    0.31 |     5.20 |    1021.45 | O(n^1.18)  |
+ * ```
+ */
+export const benchmark_format_markdown_scaling = (results: Array<BenchmarkResult>): string => {
+	const rows = to_scaling_rows(results);
+	if (!rows) return '(no results)';
+
+	const widths = rows[0]!.map((_, col_i) => {
+		return Math.max(...rows.map((row) => row[col_i]!.length));
+	});
+
+	const lines: Array<string> = [];
+	lines.push('| ' + rows[0]!.map((cell, i) => cell.padEnd(widths[i]!)).join(' | ') + ' |');
+	lines.push('| ' + widths.map((w) => '-'.repeat(w)).join(' | ') + ' |');
+	for (let i = 1; i < rows.length; i++) {
+		const row = rows[i]!.map((cell, col_i) => {
+			const width = widths[col_i]!;
+			return col_i === 0 || col_i === widths.length - 1 ? cell.padEnd(width) : cell.padStart(width);
+		}).join(' | ');
+		lines.push('| ' + row + ' |');
+	}
+
+	return lines.join('\n');
+};
+
 /**
  * Format a number with fixed decimal places and thousands separators.
  * @see {@link format_number} in maths.ts for the underlying implementation.
  */
 export const benchmark_format_number = format_number;
+
+const BYTE_UNITS = ['B', 'KiB', 'MiB', 'GiB'];
+
+/**
+ * Format a byte count with a binary unit (B, KiB, MiB, GiB).
+ * Fractional byte counts (like averages per op) are shown with decimals.
+ * @param bytes - Number of bytes, may be negative
+ * @param decimals - Number of decimal places for non-byte units (default: 2)
+ * @returns Formatted string like "1.50 KiB"
+ *
+ * @example
+ * ```ts
+ * benchmark_format_bytes(512); // '512 B'
+ * benchmark_format_bytes(1536); // '1.50 KiB'
+ * benchmark_format_bytes(-2_097_152); // '-2.00 MiB'
+ * ```
+ */
+export const benchmark_format_bytes = (bytes: number, decimals: number = 2): string => {
+	if (!isFinite(bytes)) return String(bytes);
+	let value = Math.abs(bytes);
+	let unit_index = 0;
+	while (value >= 1024 && unit_index < BYTE_UNITS.length - 1) {
+		value /= 1024;
+		unit_index++;
+	}
+	const sign = bytes < 0 ? '-' : '';
+	const formatted =
+		unit_index === 0
+			? Number.isInteger(value)
+				? String(value)
+				: value.toFixed(1)
+			: value.toFixed(decimals);
+	return `${sign}${formatted} ${BYTE_UNITS[unit_index]}`;
+};
+
+/**
+ * Options for HTML report formatting.
+ */
+export interface BenchmarkFormatHtmlOptions {
+	/** Title of the report (default: 'Benchmark Results') */
+	title?: string;
+	/** Comparison from `benchmark_baseline_compare`, adds baseline deltas to each task */
+	comparison?: BenchmarkBaselineComparisonResult;
+	/** Number of bins in each histogram (default: 40) */
+	bins?: number;
+}
+
+/**
+ * Format results as a self-contained HTML report.
+ * Each task gets a latency histogram of its `timings_ns` with outliers counted separately,
+ * and a bar chart of its percentiles, all as inline SVG with no external assets.
+ * @param results - Array of benchmark results
+ * @param options - Title, baseline comparison, and histogram bins
+ * @returns HTML document string
+ *
+ * @example
+ * ```ts
+ * const comparison = await benchmark_baseline_compare(bench.results());
+ * await writeFile('benchmark.html', benchmark_format_html(bench.results(), {comparison}));
+ * ```
+ */
+export const benchmark_format_html = (
+	results: Array<BenchmarkResult>,
+	options?: BenchmarkFormatHtmlOptions,
+): string => {
+	const title = options?.title ?? 'Benchmark Results';
+	const comparison = options?.comparison;
+	const bins = options?.bins ?? 40;
+
+	const body: Array<string> = [];
+	body.push(`<h1>${escape_html(title)}</h1>`);
+	if (comparison) body.push(to_html_comparison_summary(comparison));
+
+	if (results.length === 0) {
+		body.push('<p>(no results)</p>');
+	} else {
+		body.push(to_html_summary_table(results, comparison));
+		for (const r of results) {
+			body.push(to_html_task(r, comparison, bins));
+		}
+	}
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escape_html(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+};
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 0 auto; padding: 16px; color: #222; background: #fff; }
+h1, h2 { font-weight: 600; }
+table { border-collapse: collapse; margin: 16px 0; }
+th, td { padding: 4px 10px; border-bottom: 1px solid #ddd; text-align: right; font-variant-numeric: tabular-nums; }
+th:first-child, td:first-child { text-align: left; }
+section { margin: 32px 0; }
+.meta { color: #666; }
+.regression { color: #b3261e; }
+.improvement { color: #1e7b34; }
+.unchanged, .new { color: #666; }
+svg { display: block; max-width: 100%; height: auto; }
+svg text { font-size: 11px; fill: #444; }
+svg .bin { fill: #4a7fc1; }
+svg .outlier { fill: #d9822b; }
+svg .percentile { fill: #8aa9d6; }
+svg .marker { stroke: #222; stroke-dasharray: 3 2; }
+`;
+
+const HTML_ESCAPES: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	"'": '&#39;',
+};
+
+/**
+ * Escape text for use in HTML content and attributes.
+ */
+const escape_html = (text: string): string => text.replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]!);
+
+/**
+ * Format a coordinate for SVG output.
+ */
+const to_svg_number = (n: number): string => String(Math.round(n * 10) / 10);
+
+/**
+ * Get the baseline comparison of a task and how it was categorized.
+ */
+const find_task_comparison = (
+	name: string,
+	comparison: BenchmarkBaselineComparisonResult,
+): {task: BenchmarkBaselineTaskComparison; category: string} | null => {
+	const task = comparison.comparisons.find((c) => c.name === name);
+	if (!task) return null;
+	const category = comparison.regressions.includes(task)
+		? 'regression'
+		: comparison.improvements.includes(task)
+			? 'improvement'
+			: 'unchanged';
+	return {task, category};
+};
+
+/**
+ * Render a task's delta against the baseline as text with a CSS class.
+ */
+const to_html_delta = (
+	name: string,
+	comparison: BenchmarkBaselineComparisonResult,
+): {text: string; category: string} | null => {
+	if (!comparison.baseline_found) return null;
+	const found = find_task_comparison(name, comparison);
+	if (!found) return {text: 'new', category: 'new'};
+	const {speedup_ratio, faster, p_value, effect_magnitude} = found.task.comparison;
+	const direction = faster === 'a' ? 'slower' : faster === 'b' ? 'faster' : 'same';
+	const ratio = direction === 'same' ? '' : `${speedup_ratio.toFixed(2)}x `;
+	const p =
+		comparison.correction === 'none'
+			? `p=${p_value.toFixed(3)}`
+			: `p=${p_value.toFixed(3)}, adjusted p=${found.task.adjusted_p_value.toFixed(3)}`;
+	return {
+		text: `${ratio}${direction} (${p}, ${effect_magnitude})`,
+		category: found.category,
+	};
+};
+
+const to_html_comparison_summary = (comparison: BenchmarkBaselineComparisonResult): string => {
+	if (!comparison.baseline_found) {
+		return '<p class="meta">No baseline found.</p>';
+	}
+	const commit = comparison.baseline_commit
+		? ` (commit ${escape_html(comparison.baseline_commit.slice(0, 8))})`
+		: '';
+	const stale = comparison.baseline_stale ? ' <strong>(stale)</strong>' : '';
+	const counts = [
+		`<span class="regression">${comparison.regressions.length} regressions</span>`,
+		`<span class="improvement">${comparison.improvements.length} improvements</span>`,
+		`<span class="unchanged">${comparison.unchanged.length} unchanged</span>`,
+	];
+	if (comparison.new_tasks.length > 0) {
+		counts.push(`<span class="new">${comparison.new_tasks.length} new</span>`);
+	}
+	if (comparison.removed_tasks.length > 0) {
+		counts.push(`<span class="new">${comparison.removed_tasks.length} removed</span>`);
+	}
+	return `<p class="meta">Compared against baseline from ${escape_html(comparison.baseline_timestamp ?? '')}${commit}${stale}</p>
+<p>${counts.join(', ')}</p>`;
+};
+
+const to_html_summary_table = (
+	results: Array<BenchmarkResult>,
+	comparison: BenchmarkBaselineComparisonResult | undefined,
+): string => {
+	const unit = time_unit_detect_best(results.map((r) => r.stats.mean_ns));
+	const unit_str = TIME_UNIT_DISPLAY[unit];
+	const best_ops = Math.max(...results.map((r) => r.stats.ops_per_second));
+	const has_deltas = comparison?.baseline_found ?? false;
+
+	const header = [
+		'Task',
+		'ops/sec',
+		`p50 (${unit_str})`,
+		`p99 (${unit_str})`,
+		'vs Best',
+		...(has_deltas ? ['vs Baseline'] : []),
+	];
+	const rows = results.map((r) => {
+		const ratio = best_ops / r.stats.ops_per_second;
+		const cells = [
+			escape_html(r.name),
+			benchmark_format_number(r.stats.ops_per_second, 2),
+			time_format(r.stats.p50_ns, unit, 2).replace(unit_str, ''),
+			time_format(r.stats.p99_ns, unit, 2).replace(unit_str, ''),
+			ratio === 1.0 ? 'best' : `${ratio.toFixed(2)}x`,
+		];
+		if (comparison && has_deltas) {
+			const delta = to_html_delta(r.name, comparison);
+			cells.push(delta ? `<span class="${delta.category}">${escape_html(delta.text)}</span>` : '');
+		}
+		return `<tr>${cells.map((c) => `<td>${c}</td>`).join('')}</tr>`;
+	});
+
+	return `<table>
+<thead><tr>${header.map((h) => `<th>${escape_html(h)}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>`;
+};
+
+const to_html_task = (
+	result: BenchmarkResult,
+	comparison: BenchmarkBaselineComparisonResult | undefined,
+	bins: number,
+): string => {
+	const {stats} = result;
+	const meta = [
+		`${benchmark_format_number(result.iterations, 0)} iterations`,
+		...(result.batch_size !== undefined && result.batch_size > 1
+			? [`batch size ${result.batch_size}`]
+			: []),
+		`CV ${(stats.cv * 100).toFixed(1)}%`,
+		`${stats.outliers_ns.length} outliers (${(stats.outlier_ratio * 100).toFixed(1)}%)`,
+		...(result.converged === undefined ? [] : [result.converged ? 'converged' : 'not converged']),
+	];
+	const lines = [
+		`<section>`,
+		`<h2>${escape_html(result.name)}</h2>`,
+		`<p class="meta">${meta.join(' · ')}</p>`,
+	];
+	const delta = comparison && to_html_delta(result.name, comparison);
+	if (delta) {
+		lines.push(`<p class="${delta.category}">vs baseline: ${escape_html(delta.text)}</p>`);
+	}
+	if (isFinite(stats.min_ns)) {
+		const unit = time_unit_detect_best([stats.p50_ns]);
+		lines.push(to_svg_histogram(result, unit, bins));
+		lines.push(to_svg_percentiles(result, unit));
+	} else {
+		lines.push('<p class="meta">(no valid timings)</p>');
+	}
+	lines.push('</section>');
+	return lines.join('\n');
+};
+
+const SVG_WIDTH = 640;
+const SVG_HISTOGRAM_HEIGHT = 160;
+const SVG_PADDING = 8;
+const SVG_AXIS_HEIGHT = 20;
+const SVG_OUTLIER_WIDTH = 64;
+
+/**
+ * Render a histogram of a task's timings between its min and max,
+ * with timings outside that range (outliers) as a separate bar.
+ */
+const to_svg_histogram = (result: BenchmarkResult, unit: TimeUnit, bin_count: number): string => {
+	const {min_ns, max_ns, p50_ns} = result.stats;
+	const range_ns = max_ns - min_ns;
+	const count = range_ns > 0 ? Math.max(1, Math.floor(bin_count)) : 1;
+	const bin_width_ns = range_ns / count;
+
+	const bins: Array<number> = new Array(count).fill(0);
+	let outliers = 0;
+	for (const t of result.timings_ns) {
+		if (!(t >= min_ns && t <= max_ns)) {
+			outliers++;
+			continue;
+		}
+		const i = bin_width_ns > 0 ? Math.min(count - 1, Math.floor((t - min_ns) / bin_width_ns)) : 0;
+		bins[i]!++;
+	}
+
+	const max_count = Math.max(...bins, 1);
+	const plot_height = SVG_HISTOGRAM_HEIGHT - SVG_PADDING - SVG_AXIS_HEIGHT;
+	const plot_width = SVG_WIDTH - SVG_PADDING * 2 - (outliers > 0 ? SVG_OUTLIER_WIDTH : 0);
+	const bar_width = plot_width / count;
+	const baseline_y = SVG_PADDING + plot_height;
+	const to_height = (n: number): number => (Math.min(n, max_count) / max_count) * plot_height;
+
+	const parts: Array<string> = [];
+	for (let i = 0; i < count; i++) {
+		const n = bins[i]!;
+		if (n === 0) continue;
+		const h = to_height(n);
+		const start_ns = min_ns + i * bin_width_ns;
+		const label = `${time_format(start_ns, unit)}–${time_format(start_ns + bin_width_ns, unit)}: ${n}`;
+		parts.push(
+			`<rect class="bin" x="${to_svg_number(SVG_PADDING + i * bar_width)}" y="${to_svg_number(baseline_y - h)}" width="${to_svg_number(Math.max(1, bar_width - 1))}" height="${to_svg_number(h)}"><title>${escape_html(label)}</title></rect>`,
+		);
+	}
+
+	// Median marker
+	const p50_x = SVG_PADDING + (range_ns > 0 ? ((p50_ns - min_ns) / range_ns) * plot_width : 0);
+	parts.push(
+		`<line class="marker" x1="${to_svg_number(p50_x)}" y1="${SVG_PADDING}" x2="${to_svg_number(p50_x)}" y2="${baseline_y}"><title>${escape_html(`p50: ${time_format(p50_ns, unit)}`)}</title></line>`,
+	);
+
+	// Axis labels
+	const label_y = baseline_y + 14;
+	parts.push(
+		`<text x="${SVG_PADDING}" y="${label_y}">${escape_html(time_format(min_ns, unit))}</text>`,
+		`<text x="${to_svg_number(SVG_PADDING + plot_width)}" y="${label_y}" text-anchor="end">${escape_html(time_format(max_ns, unit))}</text>`,
+	);
+
+	if (outliers > 0) {
+		const x = SVG_WIDTH - SVG_PADDING - SVG_OUTLIER_WIDTH + 16;
+		const h = to_height(outliers);
+		parts.push(
+			`<rect class="outlier" x="${x}" y="${to_svg_number(baseline_y - h)}" width="${SVG_OUTLIER_WIDTH - 16}" height="${to_svg_number(h)}"><title>${outliers} outliers</title></rect>`,
+			`<text x="${x + (SVG_OUTLIER_WIDTH - 16) / 2}" y="${label_y}" text-anchor="middle">${outliers} outliers</text>`,
+		);
+	}
+
+	return `<svg class="histogram" viewBox="0 0 ${SVG_WIDTH} ${SVG_HISTOGRAM_HEIGHT}" width="${SVG_WIDTH}" height="${SVG_HISTOGRAM_HEIGHT}" role="img" aria-label="${escape_html(`Latency histogram of ${result.name}`)}">
+${parts.join('\n')}
+</svg>`;
+};
+
+const SVG_ROW_HEIGHT = 18;
+const SVG_LABEL_WIDTH = 40;
+const SVG_VALUE_WIDTH = 80;
+
+/**
+ * Render horizontal bars for a task's percentiles, scaled to its max.
+ */
+const to_svg_percentiles = (result: BenchmarkResult, unit: TimeUnit): string => {
+	const {stats} = result;
+	const rows: Array<[string, number]> = [
+		['p50', stats.p50_ns],
+		['p75', stats.p75_ns],
+		['p90', stats.p90_ns],
+		['p95', stats.p95_ns],
+		['p99', stats.p99_ns],
+		['max', stats.max_ns],
+	];
+	const height = rows.length * SVG_ROW_HEIGHT + SVG_PADDING * 2;
+	const bar_max_width = SVG_WIDTH - SVG_PADDING * 2 - SVG_LABEL_WIDTH - SVG_VALUE_WIDTH;
+	const scale = stats.max_ns > 0 ? bar_max_width / stats.max_ns : 0;
+
+	const parts = rows.map(([label, value], i) => {
+		const y = SVG_PADDING + i * SVG_ROW_HEIGHT;
+		const width = Math.max(1, value * scale);
+		const bar_x = SVG_PADDING + SVG_LABEL_WIDTH;
+		return [
+			`<text x="${SVG_PADDING}" y="${y + 13}">${label}</text>`,
+			`<rect class="percentile" x="${bar_x}" y="${y + 3}" width="${to_svg_number(width)}" height="${SVG_ROW_HEIGHT - 6}"></rect>`,
+			`<text x="${to_svg_number(bar_x + width + 6)}" y="${y + 13}">${escape_html(time_format(value, unit))}</text>`,
+		].join('');
+	});
+
+	return `<svg class="percentiles" viewBox="0 0 ${SVG_WIDTH} ${height}" width="${SVG_WIDTH}" height="${height}" role="img" aria-label="${escape_html(`Percentiles of ${result.name}`)}">
+${parts.join('\n')}
+</svg>`;
+};
@@ -0,0 +1,316 @@
+/**
+ * Benchmark history storage and trend analysis.
+ * Appends each run to a JSON Lines file so results can be tracked across commits,
+ * and fits trend lines per task to catch gradual regressions
+ * that no single comparison against the previous baseline would flag.
+ *
+ * @module
+ */
+
+import {appendFile, mkdir, readFile} from 'node:fs/promises';
+import {join} from 'node:path';
+
+import {fs_exists} from './fs.js';
+import type {BenchmarkResult} from './benchmark_types.js';
+import {
+	BenchmarkBaseline,
+	BENCHMARK_BASELINE_DEFAULT_PATH,
+	benchmark_baseline_create,
+	type BenchmarkBaselineSaveOptions,
+} from './benchmark_baseline.js';
+import {stats_linear_regression} from './stats.js';
+
+const HISTORY_FILENAME = 'history.jsonl';
+
+/**
+ * Options for loading runs from the history.
+ */
+export interface BenchmarkHistoryLoadOptions {
+	/** Directory to load history from (default: '.gro/benchmarks') */
+	path?: string;
+	/** Only include runs from this git branch */
+	git_branch?: string;
+	/** Keep only the most recent run of each git commit (default: false) */
+	latest_per_commit?: boolean;
+	/** Only include the last N runs, applied after the other filters (default: all runs) */
+	limit?: number;
+}
+
+/**
+ * Options for analyzing trends in the history.
+ */
+export interface BenchmarkHistoryTrendOptions {
+	/**
+	 * Minimum number of runs a task needs before it can be flagged.
+	 * Default: 3
+	 */
+	min_runs?: number;
+	/**
+	 * Minimum ratio between the trend line's last and first values to flag a regression,
+	 * and its inverse to flag an improvement.
+	 * For example, 1.1 flags tasks that drifted 10% or more slower across the runs.
+	 * Default: 1.1
+	 */
+	regression_threshold?: number;
+	/**
+	 * Minimum r² of the trend line to flag a task, so noisy histories aren't flagged.
+	 * Default: 0.5
+	 */
+	min_r_squared?: number;
+}
+
+/**
+ * A task's result in a single run of the history.
+ */
+export interface BenchmarkHistoryTrendPoint {
+	/** Index of the run in the analyzed history, used as the trend line's x value */
+	run: number;
+	timestamp: string;
+	git_commit: string | null;
+	p50_ns: number;
+}
+
+/**
+ * Trend line of a task's median time across the history.
+ */
+export interface BenchmarkHistoryTrend {
+	name: string;
+	/** Runs that include the task, oldest first */
+	points: Array<BenchmarkHistoryTrendPoint>;
+	/** Change in median time per run in nanoseconds, NaN with fewer than 2 points */
+	slope_ns_per_run: number;
+	/** Ratio of the trend line's value at the task's last run to its first (>1 means slower) */
+	change_ratio: number;
+	/** Coefficient of determination of the trend line (0-1, higher = steadier trend) */
+	r_squared: number;
+	/** Whether the task drifted slower past the threshold with a good fit */
+	regressing: boolean;
+	/** Whether the task drifted faster past the threshold with a good fit */
+	improving: boolean;
+}
+
+/**
+ * Result of analyzing trends in the history.
+ */
+export interface BenchmarkHistoryTrendsResult {
+	/** Number of runs analyzed */
+	runs: number;
+	/** Trends of every task, in order of first appearance */
+	trends: Array<BenchmarkHistoryTrend>;
+	/** Tasks drifting slower, sorted by change ratio (largest first) */
+	regressions: Array<BenchmarkHistoryTrend>;
+	/** Tasks drifting faster, sorted by change ratio (smallest first) */
+	improvements: Array<BenchmarkHistoryTrend>;
+}
+
+/**
+ * Append benchmark results as a run to the history.
+ * Unlike `benchmark_baseline_save`, previous runs are kept.
+ *
+ * @param results - Benchmark results to append
+ * @param options - Save options, the same as for baselines
+ * @returns The appended run
+ *
+ * @example
+ * ```ts
+ * await bench.run();
+ * await benchmark_history_append(bench.results());
+ * ```
+ */
+export const benchmark_history_append = async (
+	results: Array<BenchmarkResult>,
+	options: BenchmarkBaselineSaveOptions = {},
+): Promise<BenchmarkBaseline> => {
+	const base_path = options.path ?? BENCHMARK_BASELINE_DEFAULT_PATH;
+	const run = await benchmark_baseline_create(results, options);
+
+	await mkdir(base_path, {recursive: true});
+	const filepath = join(base_path, HISTORY_FILENAME);
+	await appendFile(filepath, JSON.stringify(run) + '\n', 'utf-8');
+
+	return run;
+};
+
+/**
+ * Load runs from the history, oldest first.
+ * Runs saved with older schema versions are kept, parsed with defaults for fields added since,
+ * so trends span schema changes. Invalid lines are skipped with a warning,
+ * and the file itself is never modified.
+ *
+ * @param options - Load options
+ * @returns The matching runs, empty if there's no history
+ *
+ * @example
+ * ```ts
+ * // Last 10 runs on main, one per commit
+ * const history = await benchmark_history_load({
+ *   git_branch: 'main',
+ *   latest_per_commit: true,
+ *   limit: 10,
+ * });
+ * ```
+ */
+export const benchmark_history_load = async (
+	options: BenchmarkHistoryLoadOptions = {},
+): Promise<Array<BenchmarkBaseline>> => {
+	const base_path = options.path ?? BENCHMARK_BASELINE_DEFAULT_PATH;
+	const filepath = join(base_path, HISTORY_FILENAME);
+
+	if (!(await fs_exists(filepath))) {
+		return [];
+	}
+
+	const contents = await readFile(filepath, 'utf-8');
+	let runs: Array<BenchmarkBaseline> = [];
+	let skipped = 0;
+	for (const line of contents.split('\n')) {
+		if (!line.trim()) continue;
+		try {
+			runs.push(BenchmarkBaseline.parse(JSON.parse(line)));
+		} catch {
+			skipped++;
+		}
+	}
+	if (skipped > 0) {
+		// eslint-disable-next-line no-console
+		console.warn(`Skipped ${skipped} invalid runs in benchmark history: ${filepath}`);
+	}
+
+	if (options.git_branch !== undefined) {
+		runs = runs.filter((r) => r.git_branch === options.git_branch);
+	}
+
+	if (options.latest_per_commit) {
+		// Walk backwards so the latest run of each commit wins, runs without a commit are kept
+		const seen: Set<string> = new Set();
+		runs = runs
+			.toReversed()
+			.filter((r) => {
+				if (r.git_commit === null) return true;
+				if (seen.has(r.git_commit)) return false;
+				seen.add(r.git_commit);
+				return true;
+			})
+			.toReversed();
+	}
+
+	if (options.limit !== undefined) {
+		runs = options.limit > 0 ? runs.slice(-options.limit) : [];
+	}
+
+	return runs;
+};
+
+/**
+ * Fit a trend line to each task's median time across runs and flag gradual regressions.
+ * Tasks missing from some runs are fitted against the runs that include them.
+ *
+ * @param history - Runs oldest first, from `benchmark_history_load`
+ * @param options - Thresholds for flagging tasks
+ * @returns Trends per task with regressions and improvements
+ *
+ * @example
+ * ```ts
+ * const history = await benchmark_history_load({limit: 20});
+ * const {regressions} = benchmark_history_trends(history, {regression_threshold: 1.05});
+ * for (const t of regressions) {
+ *   console.log(`${t.name} drifted ${((t.change_ratio - 1) * 100).toFixed(1)}% slower`);
+ * }
+ * ```
+ */
+export const benchmark_history_trends = (
+	history: Array<BenchmarkBaseline>,
+	options: BenchmarkHistoryTrendOptions = {},
+): BenchmarkHistoryTrendsResult => {
+	const min_runs = options.min_runs ?? 3;
+	const regression_threshold = options.regression_threshold ?? 1.1;
+	const min_r_squared = options.min_r_squared ?? 0.5;
+
+	// Group points by task, preserving the order of first appearance
+	const points_by_task: Map<string, Array<BenchmarkHistoryTrendPoint>> = new Map();
+	for (let run = 0; run < history.length; run++) {
+		const {timestamp, git_commit, entries} = history[run]!;
+		for (const entry of entries) {
+			let points = points_by_task.get(entry.name);
+			if (!points) {
+				points = [];
+				points_by_task.set(entry.name, points);
+			}
+			points.push({run, timestamp, git_commit, p50_ns: entry.p50_ns});
+		}
+	}
+
+	const trends: Array<BenchmarkHistoryTrend> = [];
+	for (const [name, points] of points_by_task) {
+		const {slope, intercept, r_squared} = stats_linear_regression(
+			points.map((p) => p.run),
+			points.map((p) => p.p50_ns),
+		);
+		const first_ns = slope * points[0]!.run + intercept;
+		const last_ns = slope * points.at(-1)!.run + intercept;
+		const change_ratio = first_ns > 0 ? last_ns / first_ns : NaN;
+		const flaggable = points.length >= min_runs && r_squared >= min_r_squared;
+		trends.push({
+			name,
+			points,
+			slope_ns_per_run: slope,
+			change_ratio,
+			r_squared,
+			regressing: flaggable && change_ratio >= regression_threshold,
+			improving: flaggable && change_ratio <= 1 / regression_threshold,
+		});
+	}
+
+	return {
+		runs: history.length,
+		trends,
+		regressions: trends.filter((t) => t.regressing).sort((a, b) => b.change_ratio - a.change_ratio),
+		improvements: trends.filter((t) => t.improving).sort((a, b) => a.change_ratio - b.change_ratio),
+	};
+};
+
+/**
+ * Format a trends result as a human-readable string.
+ *
+ * @param result - Trends result from benchmark_history_trends
+ * @returns Formatted string summary
+ */
+export const benchmark_history_format = (result: BenchmarkHistoryTrendsResult): string => {
+	if (result.runs === 0) {
+		return 'No benchmark history found. Call benchmark_history_append() to record runs.';
+	}
+
+	const lines: Array<string> = [];
+
+	lines.push(`Trends across ${result.runs} runs`);
+	lines.push('');
+
+	const format_trend = (t: BenchmarkHistoryTrend): string => {
+		const percent = (t.change_ratio - 1) * 100;
+		const sign = percent >= 0 ? '+' : '';
+		return `  ${t.name}: ${sign}${percent.toFixed(1)}% over ${t.points.length} runs (r²=${t.r_squared.toFixed(2)})`;
+	};
+
+	if (result.regressions.length > 0) {
+		lines.push(`Gradual regressions (${result.regressions.length}):`);
+		for (const t of result.regressions) {
+			lines.push(format_trend(t));
+		}
+		lines.push('');
+	}
+
+	if (result.improvements.length > 0) {
+		lines.push(`Gradual improvements (${result.improvements.length}):`);
+		for (const t of result.improvements) {
+			lines.push(format_trend(t));
+		}
+		lines.push('');
+	}
+
+	const stable = result.trends.filter((t) => !t.regressing && !t.improving);
+	if (stable.length > 0) {
+		lines.push(`Stable (${stable.length}): ${stable.map((t) => t.name).join(', ')}`);
+	}
+
+	return lines.join('\n').trimEnd();
+};
@@ -18,7 +18,13 @@ import {
 	stats_outliers_mad,
 	stats_welch_t_test,
 	stats_t_distribution_p_value,
+	stats_linear_regression,
+	stats_mann_whitney_u,
+	stats_bootstrap_median_difference,
 } from './stats.js';
+import {create_random_alea} from './random_alea.js';
+
+const DEFAULT_COMPARE_SEED = 'benchmark_stats_compare';
 
 /**
  * Minimal stats interface for comparison.
@@ -29,10 +35,21 @@ export interface BenchmarkStatsComparable {
 	std_dev_ns: number;
 	sample_size: number;
 	confidence_interval_ns: [number, number];
+	/** Raw timings, required by the `mann_whitney` and `bootstrap` methods */
+	timings_ns?: Array<number>;
 }
 
 /**
- * Effect size magnitude interpretation (Cohen's d).
+ * Hypothesis test used to compare two benchmarks:
+ * - `welch`: Welch's t-test on the means, needs only summary stats
+ * - `mann_whitney`: Mann-Whitney U test on the raw timings, robust to skew and outliers
+ * - `bootstrap`: seeded bootstrap confidence interval for the difference of medians
+ */
+export type BenchmarkCompareMethod = 'welch' | 'mann_whitney' | 'bootstrap';
+
+/**
+ * Effect size magnitude interpretation
+ * (Cohen's d, or rank-biserial correlation for the non-parametric methods).
  */
 export type EffectMagnitude = 'negligible' | 'small' | 'medium' | 'large';
 
@@ -40,15 +57,31 @@ export type EffectMagnitude = 'negligible' | 'small' | 'medium' | 'large';
  * Result from comparing two benchmark stats.
  */
 export interface BenchmarkComparison {
-	/** Which benchmark is faster ('a', 'b', or 'equal' if difference is negligible) */
+	/**
+	 * Which benchmark is faster ('a', 'b', or 'equal' if difference is negligible),
+	 * by the means for 'welch' and the medians for the non-parametric methods
+	 */
 	faster: 'a' | 'b' | 'equal';
-	/** How much faster the winner is (e.g., 1.5 means 1.5x faster) */
+	/** How much faster the winner is (e.g., 1.5 means 1.5x faster), by the same measure as `faster` */
 	speedup_ratio: number;
 	/** Whether the difference is statistically significant at the given alpha */
 	significant: boolean;
-	/** P-value from Welch's t-test (lower = more confident the difference is real) */
+	/** P-value from the comparison's method (lower = more confident the difference is real) */
 	p_value: number;
-	/** Cohen's d effect size (magnitude of difference independent of sample size) */
+	/**
+	 * Method that produced the p-value.
+	 * Falls back to 'welch' when either side lacks timings for the requested method.
+	 */
+	method: BenchmarkCompareMethod;
+	/**
+	 * Bootstrap confidence interval of the second median minus the first in nanoseconds
+	 * (positive = second is slower), null unless the method is 'bootstrap'.
+	 */
+	median_difference_ci_ns: [number, number] | null;
+	/**
+	 * Effect size (magnitude of difference independent of sample size):
+	 * Cohen's d for 'welch', the absolute rank-biserial correlation for the non-parametric methods
+	 */
 	effect_size: number;
 	/** Interpretation of effect size */
 	effect_magnitude: EffectMagnitude;
@@ -64,6 +97,36 @@ export interface BenchmarkComparison {
 export interface BenchmarkCompareOptions {
 	/** Significance level for hypothesis testing (default: 0.05) */
 	alpha?: number;
+	/**
+	 * Hypothesis test to use, the non-parametric methods need `timings_ns` on both sides.
+	 * Default: 'welch'
+	 */
+	method?: BenchmarkCompareMethod;
+	/**
+	 * Number of resamples for the `bootstrap` method (default: 1000),
+	 * each taking time linear in the number of timings, see `stats_bootstrap_median_difference`
+	 */
+	bootstrap_resamples?: number;
+	/**
+	 * Seed of the `bootstrap` method's random number generator,
+	 * fixed by default so the same timings always give the same result.
+	 * Default: 'benchmark_stats_compare'
+	 */
+	seed?: string | number;
+}
+
+/**
+ * Heap measurements collected for a task when `BenchmarkConfig.memory` is enabled.
+ * All values are in bytes.
+ */
+export interface BenchmarkMemorySamples {
+	/**
+	 * Heap growth per operation for each sampled batch of iterations.
+	 * Negative samples (garbage collected mid-batch) are ignored by the stats.
+	 */
+	allocated_bytes_per_op: Array<number>;
+	/** Heap growth retained after the task completed, or null if unknown */
+	retained_bytes: number | null;
 }
 
 /**
@@ -106,8 +169,19 @@ export class BenchmarkStats {
 	readonly ops_per_second: number;
 	/** Number of failed iterations (NaN, Infinity, or negative values) */
 	readonly failed_iterations: number;
+	/** Median heap bytes allocated per operation, or null if memory wasn't measured */
+	readonly allocated_bytes_per_op: number | null;
+	/** Heap bytes retained after the task completed, or null if memory wasn't measured or GC isn't exposed */
+	readonly retained_bytes: number | null;
+
+	constructor(timings_ns: Array<number>, memory?: BenchmarkMemorySamples) {
+		// Memory stats are independent of timing validity
+		const allocated_samples = memory?.allocated_bytes_per_op.filter((b) => b >= 0 && isFinite(b));
+		this.allocated_bytes_per_op = allocated_samples?.length
+			? stats_median(allocated_samples)
+			: null;
+		this.retained_bytes = memory?.retained_bytes ?? null;
 
-	constructor(timings_ns: Array<number>) {
 		// Filter out invalid values (NaN, Infinity, negative)
 		const valid_timings: Array<number> = [];
 		let failed_count = 0;
@@ -182,7 +256,11 @@ export class BenchmarkStats {
 
 /**
  * Compare two benchmark results for statistical significance.
- * Uses Welch's t-test (handles unequal variances) and Cohen's d effect size.
+ * Uses Welch's t-test (handles unequal variances) by default,
+ * or a non-parametric test on the raw timings selected with `options.method`.
+ * Welch's t-test compares the means with Cohen's d effect size,
+ * and the non-parametric methods compare the medians with rank-biserial correlation,
+ * so skewed timings with a slow tail don't flip the result.
  *
  * @param a - First benchmark stats (or any object with required properties)
  * @param b - Second benchmark stats (or any object with required properties)
@@ -195,6 +273,18 @@ export class BenchmarkStats {
  * if (comparison.significant) {
  *   console.log(`${comparison.faster} is ${comparison.speedup_ratio.toFixed(2)}x faster`);
  * }
+ *
+ * // Non-parametric, reproducible comparison of the medians
+ * const to_comparable = ({stats, timings_ns}: BenchmarkResult): BenchmarkStatsComparable => ({
+ *   mean_ns: stats.mean_ns,
+ *   std_dev_ns: stats.std_dev_ns,
+ *   sample_size: stats.sample_size,
+ *   confidence_interval_ns: stats.confidence_interval_ns,
+ *   timings_ns,
+ * });
+ * const robust = benchmark_stats_compare(to_comparable(result_a), to_comparable(result_b), {
+ *   method: 'bootstrap',
+ * });
  * ```
  */
 export const benchmark_stats_compare = (
@@ -204,6 +294,12 @@ export const benchmark_stats_compare = (
 ): BenchmarkComparison => {
 	const alpha = options?.alpha ?? 0.05;
 
+	// The non-parametric methods need valid timings on both sides
+	const timings_a = a.timings_ns?.filter((t) => isFinite(t) && t > 0) ?? [];
+	const timings_b = b.timings_ns?.filter((t) => isFinite(t) && t > 0) ?? [];
+	const method: BenchmarkCompareMethod =
+		timings_a.length > 0 && timings_b.length > 0 ? (options?.method ?? 'welch') : 'welch';
+
 	// Handle edge cases
 	if (a.sample_size === 0 || b.sample_size === 0) {
 		return {
@@ -211,6 +307,8 @@ export const benchmark_stats_compare = (
 			speedup_ratio: 1,
 			significant: false,
 			p_value: 1,
+			method,
+			median_difference_ci_ns: null,
 			effect_size: 0,
 			effect_magnitude: 'negligible',
 			ci_overlap: true,
@@ -218,62 +316,96 @@ export const benchmark_stats_compare = (
 		};
 	}
 
+	// Compare the means, or the medians for the non-parametric methods which are robust to skew
+	const center_a = method === 'welch' ? a.mean_ns : stats_median(timings_a);
+	const center_b = method === 'welch' ? b.mean_ns : stats_median(timings_b);
+
 	// Calculate speedup ratio (lower time = faster, so compare by time not ops/sec)
-	const speedup_ratio = a.mean_ns < b.mean_ns ? b.mean_ns / a.mean_ns : a.mean_ns / b.mean_ns;
+	const speedup_ratio = center_a < center_b ? center_b / center_a : center_a / center_b;
 	const faster: 'a' | 'b' | 'equal' =
-		a.mean_ns < b.mean_ns ? 'a' : a.mean_ns > b.mean_ns ? 'b' : 'equal';
+		center_a < center_b ? 'a' : center_a > center_b ? 'b' : 'equal';
 
-	// Welch's t-test (handles unequal variances)
-	// Special case: if both have zero variance, t-test is undefined
 	let p_value: number;
-	if (a.std_dev_ns === 0 && b.std_dev_ns === 0) {
-		// When there's no variance, any difference is 100% reliable (p=0) or identical (p=1)
-		p_value = a.mean_ns === b.mean_ns ? 1 : 0;
-	} else {
-		const {t_statistic, degrees_of_freedom} = stats_welch_t_test(
-			a.mean_ns,
-			a.std_dev_ns,
-			a.sample_size,
-			b.mean_ns,
-			b.std_dev_ns,
-			b.sample_size,
-		);
-		// Calculate two-tailed p-value using t-distribution approximation
-		p_value = stats_t_distribution_p_value(Math.abs(t_statistic), degrees_of_freedom);
-	}
-
-	// Cohen's d effect size
-	const pooled_std_dev = Math.sqrt(
-		((a.sample_size - 1) * a.std_dev_ns ** 2 + (b.sample_size - 1) * b.std_dev_ns ** 2) /
-			(a.sample_size + b.sample_size - 2),
-	);
-
-	// When pooled_std_dev is 0 but means differ, effect is maximal (infinite)
-	// When means are equal, effect is 0
+	let median_difference_ci_ns: [number, number] | null = null;
 	let effect_size: number;
 	let effect_magnitude: EffectMagnitude;
-
-	if (pooled_std_dev === 0) {
-		// Zero variance case - if means differ, it's a definitive difference
-		if (a.mean_ns === b.mean_ns) {
-			effect_size = 0;
-			effect_magnitude = 'negligible';
+	if (method !== 'welch') {
+		const mann_whitney = stats_mann_whitney_u(timings_a, timings_b);
+		if (method === 'mann_whitney') {
+			p_value = mann_whitney.p_value;
 		} else {
-			// Any difference is 100% reliable when there's no variance
-			effect_size = Infinity;
-			effect_magnitude = 'large';
+			// The interval's confidence level matches alpha, so it excludes zero when significant
+			const bootstrap = stats_bootstrap_median_difference(timings_a, timings_b, {
+				resamples: options?.bootstrap_resamples,
+				confidence_level: 1 - alpha,
+				random: create_random_alea(options?.seed ?? DEFAULT_COMPARE_SEED),
+			});
+			p_value = bootstrap.p_value;
+			median_difference_ci_ns = bootstrap.confidence_interval;
 		}
-	} else {
-		effect_size = Math.abs(a.mean_ns - b.mean_ns) / pooled_std_dev;
-		// Interpret effect size (Cohen's conventions)
+		// Rank-biserial correlation, the difference between the proportions of pairs
+		// where one side is slower and where it's faster
+		effect_size = Math.abs(
+			(2 * mann_whitney.u_statistic) / (timings_a.length * timings_b.length) - 1,
+		);
+		// Interpret effect size (conventions for correlations)
 		effect_magnitude =
-			effect_size < 0.2
+			effect_size < 0.1
 				? 'negligible'
-				: effect_size < 0.5
+				: effect_size < 0.3
 					? 'small'
-					: effect_size < 0.8
+					: effect_size < 0.5
 						? 'medium'
 						: 'large';
+	} else {
+		if (a.std_dev_ns === 0 && b.std_dev_ns === 0) {
+			// Special case: if both have zero variance, Welch's t-test is undefined
+			// When there's no variance, any difference is 100% reliable (p=0) or identical (p=1)
+			p_value = a.mean_ns === b.mean_ns ? 1 : 0;
+		} else {
+			// Welch's t-test (handles unequal variances)
+			const {t_statistic, degrees_of_freedom} = stats_welch_t_test(
+				a.mean_ns,
+				a.std_dev_ns,
+				a.sample_size,
+				b.mean_ns,
+				b.std_dev_ns,
+				b.sample_size,
+			);
+			// Calculate two-tailed p-value using t-distribution approximation
+			p_value = stats_t_distribution_p_value(Math.abs(t_statistic), degrees_of_freedom);
+		}
+
+		// Cohen's d effect size
+		const pooled_std_dev = Math.sqrt(
+			((a.sample_size - 1) * a.std_dev_ns ** 2 + (b.sample_size - 1) * b.std_dev_ns ** 2) /
+				(a.sample_size + b.sample_size - 2),
+		);
+
+		// When pooled_std_dev is 0 but means differ, effect is maximal (infinite)
+		// When means are equal, effect is 0
+		if (pooled_std_dev === 0) {
+			// Zero variance case - if means differ, it's a definitive difference
+			if (a.mean_ns === b.mean_ns) {
+				effect_size = 0;
+				effect_magnitude = 'negligible';
+			} else {
+				// Any difference is 100% reliable when there's no variance
+				effect_size = Infinity;
+				effect_magnitude = 'large';
+			}
+		} else {
+			effect_size = Math.abs(a.mean_ns - b.mean_ns) / pooled_std_dev;
+			// Interpret effect size (Cohen's conventions)
+			effect_magnitude =
+				effect_size < 0.2
+					? 'negligible'
+					: effect_size < 0.5
+						? 'small'
+						: effect_size < 0.8
+							? 'medium'
+							: 'large';
+		}
 	}
 
 	// Check confidence interval overlap
@@ -305,9 +437,70 @@ export const benchmark_stats_compare = (
 		speedup_ratio,
 		significant,
 		p_value,
+		method,
+		median_difference_ci_ns,
 		effect_size,
 		effect_magnitude,
 		ci_overlap,
 		recommendation,
 	};
 };
+
+/**
+ * A single point in a scaling analysis: an input size and the measured mean time.
+ */
+export interface BenchmarkScalingPoint {
+	size: number;
+	mean_ns: number;
+}
+
+/**
+ * Estimated complexity of a task across input sizes.
+ */
+export interface BenchmarkComplexityFit {
+	/**
+	 * Fitted exponent `k` in `time ≈ c * size^k`.
+	 * Roughly 0 for constant time, 1 for linear, 2 for quadratic.
+	 */
+	exponent: number;
+	/** Coefficient of determination of the log-log fit (0-1, higher = better fit) */
+	r_squared: number;
+	/** Number of points used for the fit */
+	points: number;
+}
+
+/**
+ * Estimate the complexity exponent of a task from its mean times at several input sizes.
+ * Fits a power law by linear regression in log-log space.
+ * Points with non-positive or non-finite sizes or times are ignored.
+ *
+ * @param points - Input sizes with their mean times
+ * @returns The fit, or null if fewer than 2 distinct valid sizes are available
+ *
+ * @example
+ * ```ts
+ * const fit = benchmark_complexity_fit([
+ *   {size: 10, mean_ns: 100},
+ *   {size: 100, mean_ns: 1000},
+ *   {size: 1000, mean_ns: 10000},
+ * ]);
+ * fit?.exponent; // 1 (linear)
+ * ```
+ */
+export const benchmark_complexity_fit = (
+	points: Array<BenchmarkScalingPoint>,
+): BenchmarkComplexityFit | null => {
+	const xs: Array<number> = [];
+	const ys: Array<number> = [];
+	for (const p of points) {
+		if (p.size > 0 && isFinite(p.size) && p.mean_ns > 0 && isFinite(p.mean_ns)) {
+			xs.push(Math.log(p.size));
+			ys.push(Math.log(p.mean_ns));
+		}
+	}
+
+	if (new Set(xs).size < 2) return null;
+
+	const {slope, r_squared} = stats_linear_regression(xs, ys);
+	return {exponent: slope, r_squared, points: xs.length};
+};
@@ -45,6 +45,38 @@ export interface BenchmarkConfig {
 	 */
 	timer?: Timer;
 
+	/**
+	 * Number of calls to time together as a single sample, for functions so fast
+	 * that timer overhead and resolution dominate each measured call.
+	 * Each sample's time is divided by the batch size to get the per-op time,
+	 * so `timings_ns` and stats stay per operation.
+	 * With 'auto', the batch size is calibrated per task after warmup so each sample
+	 * lasts well above the timer's resolution.
+	 * Iteration counts (`min_iterations`, `max_iterations`, `on_iteration`) count samples.
+	 * Default: 1 (no batching)
+	 */
+	batch?: number | 'auto';
+
+	/**
+	 * Measure heap allocations and retained memory for each task.
+	 * Samples `process.memoryUsage()` around batches of iterations (outside the timed region)
+	 * and reports `allocated_bytes_per_op` and `retained_bytes` in `BenchmarkStats`.
+	 * Retained memory requires running node with `--expose-gc`, otherwise it's null.
+	 * Node.js only.
+	 * Default: false
+	 */
+	memory?: boolean;
+
+	/**
+	 * Stop each task as soon as its timings converge,
+	 * instead of always running for `duration_ms`.
+	 * A task converges when the relative width of the confidence interval of its mean
+	 * drops below the target, and each result reports whether it did in `converged`.
+	 * When set, `duration_ms` is ignored in favor of `convergence.max_duration_ms`.
+	 * Default: undefined (run for `duration_ms`)
+	 */
+	convergence?: BenchmarkConvergenceOptions;
+
 	/**
 	 * Callback invoked after each iteration completes.
 	 * Useful for triggering garbage collection, logging progress, early termination,
@@ -76,7 +108,7 @@ export interface BenchmarkConfig {
 	 *   }
 	 * })
 	 *
-	 * // Stop early when converged
+	 * // Stop early on a custom condition (see `convergence` for the built-in rule)
 	 * new Benchmark({
 	 *   on_iteration: (name, iteration, abort) => {
 	 *     if (iteration > 1000 && has_stabilized()) abort();
@@ -106,6 +138,36 @@ export interface BenchmarkConfig {
 	on_task_complete?: (result: BenchmarkResult, index: number, total: number) => void;
 }
 
+/**
+ * Options for stopping tasks once their timings converge.
+ *
+ * @example
+ * ```ts
+ * // Stop when the 95% CI is within ±1% of the mean, or after 30s
+ * new Benchmark({convergence: {target_relative_ci: 0.02, max_duration_ms: 30_000}});
+ * ```
+ */
+export interface BenchmarkConvergenceOptions {
+	/**
+	 * Target width of the confidence interval of the mean relative to the mean,
+	 * so 0.02 means ±1%.
+	 * Default: 0.02
+	 */
+	target_relative_ci?: number;
+
+	/**
+	 * Maximum time to run each task in milliseconds if it doesn't converge.
+	 * Default: 10000ms
+	 */
+	max_duration_ms?: number;
+
+	/**
+	 * Confidence level of the interval (0-1).
+	 * Default: 0.95
+	 */
+	confidence_level?: number;
+}
+
 /**
  * A benchmark task to execute.
  */
@@ -148,6 +210,120 @@ export interface BenchmarkTask {
 	async?: boolean;
 }
 
+/**
+ * A parameterized benchmark task that expands into one task per param.
+ * Useful for measuring how a function scales with input size.
+ *
+ * @example
+ * ```ts
+ * bench.add_params({
+ *   name: 'sort',
+ *   params: [10, 100, 10_000],
+ *   setup: (n) => { data = create_data(n) },
+ *   fn: () => [...data].sort(),
+ * });
+ * ```
+ */
+export interface BenchmarkParamTask<T = unknown> {
+	/** Name of the task, combined with each param label for the generated task names */
+	name: string;
+
+	/** Params to run the task with, one result is generated per param */
+	params: Array<T>;
+
+	/** Function to benchmark (sync or async), receives the current param. Return values are ignored. */
+	fn: (param: T) => unknown;
+
+	/**
+	 * Optional setup function run before benchmarking each param.
+	 * Not included in timing measurements.
+	 */
+	setup?: (param: T) => void | Promise<void>;
+
+	/**
+	 * Optional teardown function run after benchmarking each param.
+	 * Not included in timing measurements.
+	 */
+	teardown?: (param: T) => void | Promise<void>;
+
+	/**
+	 * Display label for a param.
+	 * Defaults to `String(param)`, required when params are not primitives.
+	 */
+	label?: (param: T) => string;
+
+	/**
+	 * Numeric input size for a param, used for scaling analysis.
+	 * Defaults to the param itself when it's a number.
+	 */
+	size?: (param: T) => number;
+
+	/** If true, skip all params of this task. */
+	skip?: boolean;
+
+	/** If true, run only this task (and other tasks marked `only`). */
+	only?: boolean;
+
+	/** Hint for whether the function is sync or async, see `BenchmarkTask.async`. */
+	async?: boolean;
+}
+
+/**
+ * A benchmark task that runs isolated in a fresh worker thread.
+ * Because functions can't be sent to workers, the task is identified by
+ * a module and export instead of a function.
+ * Node.js only.
+ *
+ * The export is either a function to benchmark or an object
+ * with `fn` and optional `setup` and `teardown`, which run inside the worker.
+ *
+ * Isolated tasks always use a nanosecond `process.hrtime` timer in the worker,
+ * ignoring `BenchmarkConfig.timer`, and `on_iteration` runs on the main thread
+ * after each chunk of timings is received, so `abort` stops at chunk boundaries.
+ *
+ * @example
+ * ```ts
+ * // parse.benchmark.ts
+ * export const parse_small = () => parse(small_input);
+ *
+ * // run.ts
+ * bench.add_isolated({name: 'parse small', module: './parse.benchmark.ts', export: 'parse_small'});
+ * ```
+ */
+export interface BenchmarkIsolatedTask {
+	/** Name of the task (for display) */
+	name: string;
+
+	/** Path or URL of the module to import in the worker, relative paths resolve from the cwd */
+	module: string | URL;
+
+	/** Name of the export to benchmark (default: 'default') */
+	export?: string;
+
+	/** If true, skip this task during benchmark runs. */
+	skip?: boolean;
+
+	/** If true, run only this task (and other tasks marked `only`). */
+	only?: boolean;
+
+	/** Hint for whether the function is sync or async, see `BenchmarkTask.async`. */
+	async?: boolean;
+}
+
+/**
+ * Param info recorded on results generated by a `BenchmarkParamTask`.
+ */
+export interface BenchmarkResultParam {
+	/** Name of the parameterized task that generated the result */
+	task: string;
+
+	/** Display label of the param */
+	label: string;
+
+	/** Numeric input size of the param, or null if not available */
+	size: number | null;
+}
+
 /**
  * Result from running a single benchmark task.
  */
@@ -158,9 +334,15 @@ export interface BenchmarkResult {
 	/** Statistical analysis of the benchmark */
 	stats: BenchmarkStats;
 
-	/** Number of iterations executed */
+	/** Number of iterations (timed samples) executed */
 	iterations: number;
 
+	/**
+	 * Number of calls per timed sample, see `BenchmarkConfig.batch`, 1 if missing.
+	 * The total number of operations is `iterations * batch_size`.
+	 */
+	batch_size?: number;
+
 	/** Total time spent benchmarking (including warmup) in milliseconds */
 	total_time_ms: number;
 
@@ -170,6 +352,15 @@ export interface BenchmarkResult {
 	 * or exporting to external tools.
 	 */
 	timings_ns: Array<number>;
+
+	/** Param info, present only for results generated by a `BenchmarkParamTask` */
+	param?: BenchmarkResultParam;
+
+	/**
+	 * Whether the timings converged before hitting `max_iterations`, the max duration,
+	 * or an abort, present only when `BenchmarkConfig.convergence` is set.
+	 */
+	converged?: boolean;
 }
 
 /**
@@ -180,6 +371,13 @@ export interface BenchmarkFormatTableOptions {
 	 * Group results by category using filter functions.
 	 */
 	groups?: Array<BenchmarkGroup>;
+
+	/**
+	 * Render parameterized results as a scaling table
+	 * with tasks as rows, params as columns, and an estimated complexity exponent.
+	 * Takes precedence over `groups`.
+	 */
+	scaling?: boolean;
 }
 
 /**
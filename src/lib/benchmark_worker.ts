@@ -0,0 +1,370 @@
+/**
+ * Worker thread runner for isolated benchmark tasks.
+ * Each task runs in a fresh `node:worker_threads` worker so JIT state and heap garbage
+ * from one task can't affect the next.
+ * The worker only executes iterations on request - the main thread drives the
+ * measurement loop and builds the stats from the streamed timings.
+ *
+ * Node.js only.
+ *
+ * @module
+ */
+
+import {Worker} from 'node:worker_threads';
+import {resolve} from 'node:path';
+import {pathToFileURL} from 'node:url';
+
+import type {BenchmarkIsolatedTask} from './benchmark_types.js';
+
+/**
+ * Messages sent from the main thread to the worker.
+ */
+type BenchmarkWorkerRequest =
+	| {type: 'warmup'; iterations: number; async_hint: boolean | undefined}
+	| ({type: 'measure'} & Required<BenchmarkWorkerMeasureOptions>)
+	| {type: 'teardown'};
+
+/**
+ * Messages sent from the worker to the main thread.
+ */
+type BenchmarkWorkerResponse =
+	| {type: 'ready'}
+	| {type: 'warmed'; is_async: boolean}
+	| {type: 'timings'; timings_ns: Array<number>; allocated_bytes_per_op: Array<number>}
+	| {type: 'torn_down'; retained_bytes: number | null}
+	| {type: 'error'; message: string; stack: string | undefined};
+
+/**
+ * Source of the worker, evaluated as a script so it works from both
+ * compiled output and TypeScript sources.
+ * Mirrors the sync/async measurement loops, batching, and memory sampling of `Benchmark`.
+ */
+const WORKER_SOURCE = `
+const {parentPort, workerData} = require('node:worker_threads');
+
+const now = () => Number(process.hrtime.bigint());
+const is_promise = (value) =>
+	value !== null && typeof value === 'object' && typeof value.then === 'function';
+
+let task;
+let is_async = false;
+let heap_start = null;
+
+const heap_used = () => process.memoryUsage().heapUsed;
+const heap_settled = () => {
+	if (!globalThis.gc) return null;
+	globalThis.gc();
+	return heap_used();
+};
+
+// Same batching as the main thread's memory sampler, restarted for each chunk
+const create_memory_sampler = () => {
+	const samples = [];
+	let last_heap = heap_used();
+	const overhead = Math.max(0, heap_used() - last_heap);
+	last_heap = heap_used();
+	return {
+		samples,
+		sample: (iterations) => {
+			if (iterations <= 0) return;
+			const heap = heap_used();
+			samples.push((heap - last_heap - overhead) / iterations);
+			last_heap = heap_used();
+		},
+	};
+};
+
+const to_batched_fn = (fn, size) => {
+	if (size === 1) return fn;
+	return is_async
+		? async () => {
+				for (let i = 0; i < size; i++) await fn();
+			}
+		: () => {
+				for (let i = 0; i < size; i++) fn();
+			};
+};
+
+const send_error = (error) => {
+	parentPort.postMessage({
+		type: 'error',
+		message: error instanceof Error ? error.message : String(error),
+		stack: error instanceof Error ? error.stack : undefined,
+	});
+};
+
+const handle = async (message) => {
+	switch (message.type) {
+		case 'warmup': {
+			for (let i = 0; i < message.iterations; i++) {
+				const result = task.fn();
+				if (message.async_hint === undefined && i === 0) is_async = is_promise(result);
+				if ((message.async_hint ?? is_async) && is_promise(result)) await result;
+			}
+			if (message.async_hint !== undefined) is_async = message.async_hint;
+			parentPort.postMessage({type: 'warmed', is_async});
+			break;
+		}
+		case 'measure': {
+			const timings_ns = [];
+			const {memory_batch, batch_size} = message;
+			const fn = to_batched_fn(task.fn, batch_size);
+			const memory_sampler = memory_batch > 0 ? create_memory_sampler() : null;
+			const deadline_ns = now() + message.duration_ns;
+			if (is_async) {
+				while (timings_ns.length < message.iterations) {
+					const start_ns = now();
+					await fn();
+					const end_ns = now();
+					timings_ns.push((end_ns - start_ns) / batch_size);
+					if (memory_sampler && timings_ns.length % memory_batch === 0) {
+						memory_sampler.sample(memory_batch * batch_size);
+					}
+					if (end_ns >= deadline_ns) break;
+				}
+			} else {
+				while (timings_ns.length < message.iterations) {
+					const start_ns = now();
+					fn();
+					const end_ns = now();
+					timings_ns.push((end_ns - start_ns) / batch_size);
+					if (memory_sampler && timings_ns.length % memory_batch === 0) {
+						memory_sampler.sample(memory_batch * batch_size);
+					}
+					if (end_ns >= deadline_ns) break;
+				}
+			}
+			memory_sampler?.sample((timings_ns.length % memory_batch) * batch_size);
+			parentPort.postMessage({
+				type: 'timings',
+				timings_ns,
+				allocated_bytes_per_op: memory_sampler ? memory_sampler.samples : [],
+			});
+			break;
+		}
+		case 'teardown': {
+			if (task.teardown) await task.teardown();
+			const heap_end = heap_settled();
+			parentPort.postMessage({
+				type: 'torn_down',
+				retained_bytes: heap_start === null || heap_end === null ? null : heap_end - heap_start,
+			});
+			break;
+		}
+	}
+};
+
+import(workerData.module_url)
+	.then(async (mod) => {
+		const value = mod[workerData.export_name];
+		if (typeof value === 'function') {
+			task = {fn: value};
+		} else if (value && typeof value.fn === 'function') {
+			task = value;
+		} else {
+			throw new Error(
+				'Export "' + workerData.export_name + '" of ' + workerData.module_url +
+					' is not a function or an object with a fn property',
+			);
+		}
+		heap_start = heap_settled();
+		if (task.setup) await task.setup();
+		parentPort.on('message', (message) => {
+			handle(message).catch(send_error);
+		});
+		parentPort.postMessage({type: 'ready'});
+	})
+	.catch(send_error);
+`;
+
+/**
+ * Options for measuring a chunk of iterations in a worker.
+ */
+export interface BenchmarkWorkerMeasureOptions {
+	/** Maximum number of iterations (timed samples) to run */
+	iterations: number;
+	/** Stop after the first iteration that ends past this duration */
+	duration_ns: number;
+	/** Iterations per heap sample, 0 to skip memory measurement (default: 0) */
+	memory_batch?: number;
+	/** Calls per timed sample, see `BenchmarkConfig.batch` (default: 1) */
+	batch_size?: number;
+}
+
+/**
+ * Convert a module path or URL to a URL string that can be imported from a worker.
+ * Relative paths are resolved against the current working directory.
+ */
+const to_module_url = (module: string | URL): string => {
+	if (module instanceof URL) return module.href;
+	if (/^(file|data|node):/.test(module)) return module;
+	return pathToFileURL(resolve(module)).href;
+};
+
+/**
+ * Handle to a worker thread running a single isolated benchmark task.
+ * The task's `setup` runs when the worker is created and its `teardown` on `close`.
+ * Memory is measured in the worker's own heap.
+ *
+ * @example
+ * ```ts
+ * const worker = await BenchmarkWorker.create({name: 'parse', module: './parse.benchmark.js'});
+ * try {
+ *   const is_async = await worker.warmup(10);
+ *   const {timings_ns} = await worker.measure({iterations: 1000, duration_ns: 100_000_000});
+ * } finally {
+ *   await worker.close();
+ * }
+ * ```
+ */
+export class BenchmarkWorker {
+	readonly #worker: Worker;
+	#pending: {
+		type: BenchmarkWorkerResponse['type'];
+		resolve: (response: BenchmarkWorkerResponse) => void;
+		reject: (error: Error) => void;
+	} | null = null;
+	#failure: Error | null = null;
+	#closed = false;
+	#retained_bytes: number | null = null;
+
+	private constructor(worker: Worker) {
+		this.#worker = worker;
+		worker.on('message', (response: BenchmarkWorkerResponse) => {
+			if (response.type === 'error') {
+				const error = new Error(response.message);
+				if (response.stack) error.stack = response.stack;
+				this.#fail(error);
+				return;
+			}
+			const pending = this.#pending;
+			if (pending?.type !== response.type) return;
+			this.#pending = null;
+			pending.resolve(response);
+		});
+		worker.on('error', (error) => this.#fail(error));
+		worker.on('exit', (code) => {
+			if (!this.#closed) this.#fail(new Error(`Benchmark worker exited with code ${code}`));
+		});
+	}
+
+	/**
+	 * Spawn a worker, import the task's module, and run its `setup`.
+	 * @param task - Task identifying the module and export to benchmark
+	 * @returns The ready worker
+	 * @throws Error if the module can't be imported, the export is invalid, or setup fails
+	 */
+	static async create(task: BenchmarkIsolatedTask): Promise<BenchmarkWorker> {
+		const worker = new BenchmarkWorker(
+			new Worker(WORKER_SOURCE, {
+				eval: true,
+				workerData: {
+					module_url: to_module_url(task.module),
+					export_name: task.export ?? 'default',
+				},
+			}),
+		);
+		try {
+			await worker.#wait('ready');
+		} catch (error) {
+			await worker.terminate();
+			throw error;
+		}
+		return worker;
+	}
+
+	/**
+	 * Run warmup iterations in the worker, detecting whether the function is async.
+	 * @param iterations - Number of warmup iterations
+	 * @param async_hint - If provided, use this instead of detecting
+	 * @returns Whether the function is async
+	 */
+	async warmup(iterations: number, async_hint?: boolean): Promise<boolean> {
+		const response = await this.#request({type: 'warmup', iterations, async_hint}, 'warmed');
+		return (response as Extract<BenchmarkWorkerResponse, {type: 'warmed'}>).is_async;
+	}
+
+	/**
+	 * Heap bytes retained in the worker after teardown,
+	 * or null before `close` or if GC isn't exposed.
+	 */
+	get retained_bytes(): number | null {
+		return this.#retained_bytes;
+	}
+
+	/**
+	 * Measure a chunk of iterations in the worker.
+	 * Always runs at least one iteration.
+	 * @param options - Limits of the chunk and what to measure
+	 * @returns Per-op timing of each iteration in nanoseconds and heap growth per op of each memory batch in bytes
+	 */
+	async measure(
+		options: BenchmarkWorkerMeasureOptions,
+	): Promise<{timings_ns: Array<number>; allocated_bytes_per_op: Array<number>}> {
+		const response = await this.#request(
+			{
+				type: 'measure',
+				iterations: options.iterations,
+				duration_ns: options.duration_ns,
+				memory_batch: options.memory_batch ?? 0,
+				batch_size: options.batch_size ?? 1,
+			},
+			'timings',
+		);
+		const {timings_ns, allocated_bytes_per_op} = response as Extract<
+			BenchmarkWorkerResponse,
+			{type: 'timings'}
+		>;
+		return {timings_ns, allocated_bytes_per_op};
+	}
+
+	/**
+	 * Run the task's `teardown` and terminate the worker.
+	 * Skips teardown if the worker already failed.
+	 */
+	async close(): Promise<void> {
+		try {
+			if (!this.#failure && !this.#closed) {
+				const response = await this.#request({type: 'teardown'}, 'torn_down');
+				this.#retained_bytes = (
+					response as Extract<BenchmarkWorkerResponse, {type: 'torn_down'}>
+				).retained_bytes;
+			}
+		} finally {
+			await this.terminate();
+		}
+	}
+
+	/**
+	 * Terminate the worker immediately without running teardown.
+	 */
+	async terminate(): Promise<void> {
+		if (this.#closed) return;
+		this.#closed = true;
+		await this.#worker.terminate();
+	}
+
+	#request(
+		request: BenchmarkWorkerRequest,
+		type: BenchmarkWorkerResponse['type'],
+	): Promise<BenchmarkWorkerResponse> {
+		const response = this.#wait(type);
+		this.#worker.postMessage(request);
+		return response;
+	}
+
+	#wait(type: BenchmarkWorkerResponse['type']): Promise<BenchmarkWorkerResponse> {
+		if (this.#failure) return Promise.reject(this.#failure);
+		if (this.#closed) return Promise.reject(new Error('Benchmark worker is closed'));
+		return new Promise((resolve, reject) => {
+			this.#pending = {type, resolve, reject};
+		});
+	}
+
+	#fail(error: Error): void {
+		this.#failure ??= error;
+		const pending = this.#pending;
+		this.#pending = null;
+		pending?.reject(error);
+	}
+}
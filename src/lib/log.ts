@@ -1,6 +1,10 @@
 import {styleText} from 'node:util';
 import {DEV} from 'esm-env';
 
+import {escape_regexp} from './regexp.js';
+import {Timings, type TimingsKey} from './timings.js';
+import {time_format_adaptive, TIME_NS_PER_MS} from './time.js';
+
 /**
  * Log level hierarchy from least to most verbose.
  * - `'off'`: No logging
@@ -11,12 +15,82 @@ import {DEV} from 'esm-env';
  */
 export type LogLevel = 'off' | 'error' | 'warn' | 'info' | 'debug';
 
+/**
+ * Level of a logged message, every level except `'off'`.
+ */
+export type LogMessageLevel = Exclude<LogLevel, 'off'>;
+
+/**
+ * Level of the loggers with labels matching `pattern`, see `log_level_patterns_parse`.
+ */
+export interface LogLevelPattern {
+	/** Full label to match like `'app:db'`, where `*` matches any characters including `:` */
+	pattern: string;
+	level: LogLevel;
+}
+
 /**
  * Console interface subset used by Logger for output.
  * Allows custom console implementations for testing.
  */
 export type LogConsole = Pick<typeof console, 'error' | 'warn' | 'log'>;
 
+/**
+ * Output format of a logger.
+ * - `'text'`: Human-readable output with level and label prefixes (default)
+ * - `'json'`: One JSON line per message, see `LogRecord`, for log aggregators
+ */
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Fields bound to a logger and included with every message, like `request_id`.
+ */
+export type LogContext = Record<string, unknown>;
+
+/**
+ * A message in structured form, written as one JSON line by loggers with the `'json'` format.
+ */
+export interface LogRecord {
+	/** ISO 8601 time the message was logged */
+	timestamp: string;
+	level: LogMessageLevel;
+	/** Full label like `'app:db'`, or null if the logger has no label */
+	label: string | null;
+	/** Label of each logger in the chain from the root, like `['app', 'db']` */
+	labels: Array<string>;
+	/** Context fields bound to the logger and its parents, converted to JSON-safe values */
+	context: LogContext;
+	/** The first argument if it's a string, otherwise an empty string */
+	message: string;
+	/** The remaining arguments, converted to JSON-safe values with errors including their stacks */
+	args: Array<unknown>;
+}
+
+/**
+ * A message as passed to sinks, before any formatting.
+ */
+export interface LogEntry {
+	level: LogMessageLevel;
+	/** Arguments of the log call */
+	args: Array<unknown>;
+	/** Logger the message was logged with */
+	logger: Logger;
+}
+
+/**
+ * Destination of log messages, see `LoggerOptions.sinks`.
+ * Receives the messages that pass both the logger's level and its own.
+ */
+export interface LogSink {
+	/**
+	 * Most verbose level this sink writes,
+	 * so a sink with `'warn'` only gets errors and warnings.
+	 * Defaults to every message the logger's level lets through.
+	 */
+	level?: LogLevel;
+	write: (entry: LogEntry) => void;
+}
+
 const CHAR_ERROR = '🞩';
 const CHAR_WARN = '⚑';
 // Info logs have no character prefix - they only show the label.
@@ -59,20 +133,560 @@ export const log_level_parse = (value: string | undefined): LogLevel | undefined
 	throw new Error(`Invalid log level: '${value}'`);
 };
 
+/**
+ * Parses and validates a log format string.
+ * @param value The value to parse as a log format
+ * @returns The validated log format, or undefined if value is undefined
+ * @throws Error if value is provided but invalid
+ */
+export const log_format_parse = (value: string | undefined): LogFormat | undefined => {
+	if (!value) return undefined;
+	if (value === 'text' || value === 'json') return value;
+	throw new Error(`Invalid log format: '${value}'`);
+};
+
+/**
+ * Parses a DEBUG-style list of label patterns and levels like `'app:db=debug,app:*=warn,*=info'`.
+ * A `*` in a pattern matches any characters including `:`.
+ * Entries without a level enable a pattern like DEBUG does, so `'app:*'` is shorthand for `'app:*=debug'`,
+ * except for bare level names like `'info'`, which are shorthand for `'*=info'`.
+ * @param value Comma-separated `pattern=level` entries
+ * @returns The patterns in the given order, or undefined if value is empty
+ * @throws Error if an entry has an empty pattern or an invalid level
+ */
+export const log_level_patterns_parse = (
+	value: string | undefined,
+): Array<LogLevelPattern> | undefined => {
+	if (!value) return undefined;
+	const patterns: Array<LogLevelPattern> = [];
+	for (const entry of value.split(',')) {
+		const trimmed = entry.trim();
+		if (!trimmed) continue;
+		const index = trimmed.lastIndexOf('=');
+		if (index === -1) {
+			patterns.push(
+				Object.hasOwn(LOG_LEVEL_VALUES, trimmed)
+					? {pattern: '*', level: trimmed as LogLevel}
+					: {pattern: trimmed, level: 'debug'},
+			);
+			continue;
+		}
+		const pattern = trimmed.slice(0, index).trim();
+		if (!pattern) {
+			throw new Error(`Invalid log level pattern: '${trimmed}'`);
+		}
+		const level = log_level_parse(trimmed.slice(index + 1).trim());
+		if (level === undefined) {
+			throw new Error(`Invalid log level pattern: '${trimmed}'`);
+		}
+		patterns.push({pattern, level});
+	}
+	return patterns.length > 0 ? patterns : undefined;
+};
+
+/**
+ * Finds the level of a label from the most specific matching pattern.
+ * Patterns without wildcards are most specific, then patterns with more literal characters,
+ * and ties go to the later pattern.
+ * @param patterns The patterns to match against
+ * @param label Full label like `'app:db'`, or `''` for loggers without a label
+ * @returns The level of the most specific match, or null if no pattern matches
+ */
+export const log_level_patterns_match = (
+	patterns: ReadonlyArray<LogLevelPattern>,
+	label: string,
+): LogLevel | null => {
+	let matched: LogLevel | null = null;
+	let matched_specificity = -1;
+	for (const {pattern, level} of patterns) {
+		const parts = pattern.split('*');
+		const is_match =
+			parts.length === 1
+				? pattern === label
+				: new RegExp(`^${parts.map(escape_regexp).join('.*')}$`).test(label);
+		if (!is_match) continue;
+		// Exact patterns outrank every wildcard pattern
+		const specificity = parts.length === 1 ? Infinity : pattern.length - parts.length + 1;
+		if (specificity >= matched_specificity) {
+			matched = level;
+			matched_specificity = specificity;
+		}
+	}
+	return matched;
+};
+
 const DEFAULT_LOG_LEVEL: LogLevel =
 	(typeof process === 'undefined' ? undefined : log_level_parse(process.env.PUBLIC_LOG_LEVEL)) ??
 	(process.env.VITEST ? 'off' : DEV ? 'debug' : 'info');
 
+const DEFAULT_LOG_LEVEL_PATTERNS: ReadonlyArray<LogLevelPattern> | null =
+	(typeof process === 'undefined'
+		? undefined
+		: log_level_patterns_parse(process.env.PUBLIC_LOG_LEVELS)) ?? null;
+
+const DEFAULT_LOG_FORMAT: LogFormat =
+	(typeof process === 'undefined' ? undefined : log_format_parse(process.env.PUBLIC_LOG_FORMAT)) ??
+	'text';
+
+// Parses strings and copies arrays so later mutations don't bypass the level caches
+const to_level_patterns = (
+	value: string | ReadonlyArray<LogLevelPattern> | null,
+): ReadonlyArray<LogLevelPattern> | null =>
+	value === null
+		? null
+		: typeof value === 'string'
+			? (log_level_patterns_parse(value) ?? null)
+			: value.map(({pattern, level}) => {
+					log_level_parse(level); // throws if invalid
+					return {pattern, level};
+				});
+
 // Identity function for when colors are disabled
 const NO_COLOR_ST: typeof styleText = (_: string | Array<string>, s: string) => s;
 
+/**
+ * Converts a logged value to a JSON-safe value.
+ * Errors keep their name, message, stack, cause, and own properties,
+ * and circular references are replaced with `'[Circular]'`.
+ * @param ancestors Objects currently being converted, to detect cycles
+ */
+const to_json_safe = (value: unknown, ancestors: Set<object> = new Set()): unknown => {
+	switch (typeof value) {
+		case 'undefined':
+			return null;
+		case 'bigint':
+		case 'symbol':
+			return value.toString();
+		case 'function':
+			return `[Function ${value.name || 'anonymous'}]`;
+		case 'object':
+			break;
+		default:
+			return value;
+	}
+	if (value === null) return null;
+	if (ancestors.has(value)) return '[Circular]';
+	ancestors.add(value);
+	let result: unknown;
+	if (value instanceof Error) {
+		const error: Record<string, unknown> = {
+			name: value.name,
+			message: value.message,
+			stack: value.stack,
+		};
+		if (value.cause !== undefined) error.cause = to_json_safe(value.cause, ancestors);
+		for (const [k, v] of Object.entries(value)) error[k] = to_json_safe(v, ancestors);
+		result = error;
+	} else if (Array.isArray(value)) {
+		result = value.map((v) => to_json_safe(v, ancestors));
+	} else if (typeof (value as {toJSON?: unknown}).toJSON === 'function') {
+		result = (value as {toJSON: () => unknown}).toJSON();
+	} else if (value instanceof Map) {
+		result = to_json_safe(Object.fromEntries(value), ancestors);
+	} else if (value instanceof Set) {
+		result = to_json_safe(Array.from(value), ancestors);
+	} else {
+		const object: Record<string, unknown> = {};
+		for (const [k, v] of Object.entries(value)) object[k] = to_json_safe(v, ancestors);
+		result = object;
+	}
+	ancestors.delete(value);
+	return result;
+};
+
+/**
+ * Formats context fields as `key=value` pairs for the text format.
+ * Strings are written as is unless they're empty or contain whitespace or quotes.
+ */
+const format_context = (context: LogContext): string => {
+	const pairs: Array<string> = [];
+	for (const [key, value] of Object.entries(context)) {
+		const formatted =
+			typeof value === 'string' && value !== '' && !/[\s"]/.test(value)
+				? value
+				: JSON.stringify(to_json_safe(value));
+		pairs.push(`${key}=${formatted}`);
+	}
+	return pairs.join(' ');
+};
+
+/**
+ * Creates the structured record of a log entry, as written by the `'json'` format.
+ * @param entry The logged message
+ * @returns The record with a timestamp of now and JSON-safe args
+ */
+export const log_record_create = ({level, args, logger}: LogEntry): LogRecord => {
+	const has_message = typeof args[0] === 'string';
+	return {
+		timestamp: new Date().toISOString(),
+		level,
+		label: logger.label || null,
+		labels: [...logger.labels],
+		context: to_json_safe(logger.context) as LogContext,
+		message: has_message ? (args[0] as string) : '',
+		args: (has_message ? args.slice(1) : args).map((arg) => to_json_safe(arg)),
+	};
+};
+
+/**
+ * Writes a log entry to a console in the given format, like loggers without sinks do.
+ * Errors go to `console.error`, warnings to `console.warn`, and the rest to `console.log`.
+ * @param console The console to write to
+ * @param format The output format
+ * @param entry The logged message
+ */
+export const log_console_write = (
+	console: LogConsole,
+	format: LogFormat,
+	entry: LogEntry,
+): void => {
+	const {level, args, logger} = entry;
+	const method = level === 'error' ? 'error' : level === 'warn' ? 'warn' : 'log';
+	if (format === 'json') {
+		console[method](JSON.stringify(log_record_create(entry)));
+	} else {
+		console[method](logger.prefix(level), ...args);
+	}
+};
+
+/**
+ * Options of `LogRateLimiter`.
+ */
+export interface LogRateLimiterOptions {
+	/** Max messages written per key in each interval, defaults to 10 */
+	max?: number;
+	/** Length of each interval in milliseconds, defaults to 1000 */
+	interval_ms?: number;
+	/**
+	 * Groups the messages limited together, defaults to `'message'`.
+	 * - `'message'`: the level, the logger's label, and the first argument if it's a string
+	 * - `'call_site'`: the source location of the log call, for messages with interpolated values,
+	 *   falls back to `'message'` without `Error.captureStackTrace`
+	 * - a function that returns the key of an entry
+	 */
+	key?: 'message' | 'call_site' | ((entry: LogEntry) => string);
+	/** Fraction of messages to keep before applying `max`, from 0 to 1, defaults to 1 */
+	sample_rate?: number;
+	/** Random number generator used for sampling, defaults to `Math.random` */
+	random?: () => number;
+}
+
+interface LogRateLimitWindow {
+	start: number;
+	count: number;
+	suppressed: number;
+	/** Latest suppressed entry, describes the summary */
+	entry: LogEntry | null;
+	write: (entry: LogEntry) => void;
+	timeout: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Limits how many messages loggers write per key in each interval, see `LoggerOptions.rate_limit`,
+ * so noisy subsystems like hot loops don't flood the output.
+ * When an interval with suppressed messages ends, writes a summary like
+ * `Suppressed 42 messages like "retrying" (limit 10 per 1000ms)` at the level of the messages.
+ * Shared by every logger it's passed to, with keys that include the logger's label by default.
+ *
+ * @example
+ * ```ts
+ * const log = new Logger('worker', {rate_limit: new LogRateLimiter({max: 5, interval_ms: 10_000})});
+ * for (const job of jobs) log.warn('job failed'); // writes 5, then a summary after 10 seconds
+ * ```
+ */
+export class LogRateLimiter {
+	readonly max: number;
+	readonly interval_ms: number;
+	readonly sample_rate: number;
+
+	#key: 'message' | 'call_site' | ((entry: LogEntry) => string);
+	#random: () => number;
+	#windows: Map<string, LogRateLimitWindow> = new Map();
+	#next_sweep = 0;
+
+	/**
+	 * @param options Limits, key, and sampling
+	 * @throws Error if `max` is less than 1, `interval_ms` isn't positive,
+	 *   or `sample_rate` is outside 0 to 1
+	 */
+	constructor(options: LogRateLimiterOptions = {}) {
+		const {
+			max = 10,
+			interval_ms = 1000,
+			key = 'message',
+			sample_rate = 1,
+			random = Math.random,
+		} = options;
+		if (!(max >= 1)) {
+			throw new Error(`Log rate limit max must be at least 1: ${max}`);
+		}
+		if (!(interval_ms > 0)) {
+			throw new Error(`Log rate limit interval must be positive: ${interval_ms}`);
+		}
+		if (!(sample_rate >= 0 && sample_rate <= 1)) {
+			throw new Error(`Log sample rate must be between 0 and 1: ${sample_rate}`);
+		}
+		this.max = max;
+		this.interval_ms = interval_ms;
+		this.sample_rate = sample_rate;
+		this.#key = key;
+		this.#random = random;
+	}
+
+	/**
+	 * Counts a message against the limit of its key.
+	 * Suppressed messages are summarized with `write` when their interval ends.
+	 * @param entry The message
+	 * @param write Writes the summary, bypassing the limit
+	 * @returns True if the message should be written
+	 */
+	check(entry: LogEntry, write: (entry: LogEntry) => void): boolean {
+		const now = Date.now();
+		// Expired windows are normally closed by the next message with the same key,
+		// sweeping drops the rest so unique messages don't accumulate
+		if (now >= this.#next_sweep) {
+			this.#sweep(now);
+		}
+
+		const key = this.#get_key(entry);
+		let window = this.#windows.get(key);
+		if (window && now - window.start >= this.interval_ms) {
+			this.#close(key, window);
+			window = undefined;
+		}
+		if (!window) {
+			window = {start: now, count: 0, suppressed: 0, entry: null, write, timeout: null};
+			this.#windows.set(key, window);
+		}
+
+		const sampled_out = this.sample_rate < 1 && this.#random() >= this.sample_rate;
+		if (!sampled_out && window.count < this.max) {
+			window.count++;
+			return true;
+		}
+
+		window.suppressed++;
+		window.entry = entry;
+		window.write = write;
+		if (window.timeout === null) {
+			const suppressed_window = window;
+			const timeout = setTimeout(
+				() => this.#close(key, suppressed_window),
+				window.start + this.interval_ms - now,
+			);
+			// Don't keep Node processes alive just to write a summary
+			if (typeof timeout === 'object' && 'unref' in timeout) timeout.unref();
+			window.timeout = timeout;
+		}
+		return false;
+	}
+
+	/**
+	 * Writes the summaries of suppressed messages immediately and resets every limit,
+	 * like before exiting.
+	 */
+	flush(): void {
+		for (const [key, window] of this.#windows) {
+			this.#close(key, window);
+		}
+	}
+
+	#get_key(entry: LogEntry): string {
+		if (typeof this.#key === 'function') {
+			return this.#key(entry);
+		}
+		if (this.#key === 'call_site') {
+			const call_site = get_call_site(entry.level);
+			if (call_site) return call_site;
+		}
+		const message = entry.args[0];
+		return `${entry.level} ${entry.logger.label ?? ''} ${typeof message === 'string' ? message : ''}`;
+	}
+
+	#close(key: string, window: LogRateLimitWindow): void {
+		if (window.timeout !== null) {
+			clearTimeout(window.timeout);
+		}
+		if (this.#windows.get(key) === window) {
+			this.#windows.delete(key);
+		}
+		const {entry, suppressed} = window;
+		if (!entry) return;
+		const message = entry.args[0];
+		const like = typeof message === 'string' ? ` like "${message}"` : '';
+		window.write({
+			level: entry.level,
+			args: [
+				`Suppressed ${suppressed} message${suppressed === 1 ? '' : 's'}${like} (limit ${this.max} per ${this.interval_ms}ms)`,
+			],
+			logger: entry.logger,
+		});
+	}
+
+	#sweep(now: number): void {
+		for (const [key, window] of this.#windows) {
+			if (now - window.start >= this.interval_ms) {
+				this.#close(key, window);
+			}
+		}
+		this.#next_sweep = now + this.interval_ms;
+	}
+}
+
+// Gets the source location that called a logger's level method,
+// or an empty string if the runtime doesn't support `Error.captureStackTrace`
+const get_call_site = (level: LogMessageLevel): string => {
+	if (typeof Error.captureStackTrace !== 'function') return '';
+	const holder: {stack?: string} = {};
+	// Omits the frames of the logger so the first frame is its caller
+	Error.captureStackTrace(holder, Logger.prototype[level]);
+	return holder.stack?.split('\n')[1]?.trim() ?? '';
+};
+
+/**
+ * Options of `Logger.span`.
+ */
+export interface LogSpanOptions {
+	/** Level of the tree of durations logged when the span ends, defaults to `'debug'` */
+	level?: LogMessageLevel;
+	/** Records the durations of the span and its children, defaults to a new `Timings` */
+	timings?: Timings;
+}
+
+// Internal type for span() implementation
+interface InternalLogSpanOptions extends LogSpanOptions {
+	parent?: LogSpan;
+}
+
+// Suffixes keys like `Timings.start` does for running stopwatches,
+// but also for ended ones so spans with the same name don't overwrite each other
+const next_timings_key = (timings: Timings, key: string): string => {
+	const keys: Set<TimingsKey> = new Set();
+	for (const [k] of timings.entries()) keys.add(k);
+	if (!keys.has(key)) return key;
+	let i = 2;
+	while (true) {
+		const next = key + '_' + i++;
+		if (!keys.has(next)) return next;
+	}
+};
+
+/**
+ * A named, timed operation with nested child spans, created with `Logger.span`.
+ * Durations are recorded in `timings` with keys like `'build/compile'`,
+ * and ending a root span logs the tree of durations of it and its children.
+ */
+export class LogSpan {
+	readonly name: string;
+	readonly logger: Logger;
+	readonly parent: LogSpan | null;
+	/** Level of the tree of durations logged when the root span ends */
+	readonly level: LogMessageLevel;
+	/** Shared by the span and its children */
+	readonly timings: Timings;
+	/**
+	 * Key of the duration in `timings`, the names of the spans from the root joined with `/`,
+	 * with a suffix like `_2` when `timings` already has the key from another span.
+	 */
+	readonly key: string;
+	/** Child spans in the order they started */
+	readonly children: Array<LogSpan> = [];
+
+	#stop: () => number;
+	#duration: number | null = null;
+
+	/**
+	 * Starts a span, see `Logger.span`.
+	 * @param name Name of the span, shown in the tree of durations
+	 * @param logger Logs the tree of durations when the root span ends
+	 * @param options Level and timings, child spans use their parent's
+	 */
+	constructor(name: string, logger: Logger, options: LogSpanOptions = {}) {
+		const {parent} = options as InternalLogSpanOptions;
+		this.name = name;
+		this.logger = logger;
+		this.parent = parent ?? null;
+		this.level = options.level ?? parent?.level ?? 'debug';
+		this.timings = options.timings ?? parent?.timings ?? new Timings();
+		this.key = next_timings_key(this.timings, parent ? `${parent.key}/${name}` : name);
+		this.#stop = this.timings.start(this.key);
+	}
+
+	/**
+	 * Duration in milliseconds, null until the span ends.
+	 */
+	get duration(): number | null {
+		return this.#duration;
+	}
+
+	/**
+	 * Starts a child span that ends when it's ended or when this span ends.
+	 * @param name Name of the child span
+	 * @returns The child span
+	 */
+	span(name: string): LogSpan {
+		const internal_options: InternalLogSpanOptions = {parent: this};
+		const child = new LogSpan(name, this.logger, internal_options);
+		this.children.push(child);
+		return child;
+	}
+
+	/**
+	 * Ends the span and its running children, recording their durations.
+	 * Ending a root span logs the tree of durations. Later calls do nothing.
+	 * @returns Duration in milliseconds
+	 */
+	end(): number {
+		if (this.#duration !== null) return this.#duration;
+		for (const child of this.children) {
+			child.end();
+		}
+		this.#duration = this.#stop();
+		if (!this.parent) {
+			this.logger[this.level](this.format());
+		}
+		return this.#duration;
+	}
+
+	/**
+	 * Formats the tree of durations of the span and its children,
+	 * with `...` for spans that haven't ended.
+	 */
+	format(): string {
+		const lines: Array<string> = [];
+		const add_lines = (span: LogSpan, prefix: string, child_prefix: string): void => {
+			const duration = span.#duration;
+			lines.push(
+				`${prefix}${span.name} ${duration === null ? '...' : time_format_adaptive(duration * TIME_NS_PER_MS)}`,
+			);
+			const last_index = span.children.length - 1;
+			for (let i = 0; i <= last_index; i++) {
+				const is_last = i === last_index;
+				add_lines(
+					span.children[i]!,
+					child_prefix + (is_last ? '└─ ' : '├─ '),
+					child_prefix + (is_last ? '   ' : '│  '),
+				);
+			}
+		};
+		add_lines(this, '', '');
+		return lines.join('\n');
+	}
+}
+
 /**
  * Simple, flexible logger with support for child loggers and automatic context.
  *
  * Features:
  * - Instance-based configuration (no global state)
  * - Child loggers with automatic label concatenation
- * - Parent chain inheritance for level, console, and colors
+ * - Context fields bound with `with` and included with every message
+ * - Parent chain inheritance for level, console, colors, format, and sinks
+ * - Per-label levels with DEBUG-style patterns like `app:db=debug,*=info`
+ * - Structured JSON output for log aggregators
+ * - Sinks to fan out messages to multiple destinations, see `log_sinks.ts`
+ * - Rate limiting and sampling of noisy messages, see `LogRateLimiter`
+ * - Timing spans that log a tree of durations, see `span`
  * - Respects NO_COLOR environment variable
  *
  * @example
@@ -87,16 +701,29 @@ const NO_COLOR_ST: typeof styleText = (_: string | Array<string>, s: string) =>
  *
  * // Custom configuration
  * const verbose_log = new Logger('debug', { level: 'debug', colors: true });
+ *
+ * // Structured output
+ * const json_log = new Logger('app', { format: 'json' });
+ * json_log.child('db').info('connected', {ms: 5});
+ * // {"timestamp":"...","level":"info","label":"app:db","labels":["app","db"],"message":"connected","args":[{"ms":5}]}
  * ```
  */
 export class Logger {
 	readonly label?: string;
 	readonly parent?: Logger;
+	/** Label of each logger in the chain from the root, `label` is these joined with `:` */
+	readonly labels: ReadonlyArray<string>;
+	/** Context fields of this logger merged over its parent's, see `with` */
+	readonly context: Readonly<LogContext>;
 
 	// Private override fields (undefined = inherit from parent)
 	#level_override?: LogLevel;
+	#level_patterns_override?: ReadonlyArray<LogLevelPattern> | null;
 	#colors_override?: boolean;
 	#console_override?: LogConsole;
+	#format_override?: LogFormat;
+	#sinks_override?: Array<LogSink> | null;
+	#rate_limit_override?: LogRateLimiter | null;
 
 	// Lazy cache for formatted prefixes (individually cached and invalidated when colors change)
 	#cached_colors?: boolean;
@@ -109,38 +736,74 @@ export class Logger {
 	#cached_level_string?: LogLevel;
 	#cached_level?: number;
 
+	#cached_level_patterns?: ReadonlyArray<LogLevelPattern> | null;
+	#cached_pattern_level?: LogLevel | null;
+	#cached_pattern_exact?: boolean;
+
 	/**
 	 * Creates a new Logger instance.
 	 *
 	 * @param label Optional label for this logger. Can be `undefined` for no label, or an
 	 *   empty string `''` which is functionally equivalent (both produce no brackets in output).
 	 *   Note: Empty strings are only allowed for root loggers - child loggers cannot have empty labels.
-	 * @param options Optional configuration for level, colors, and console
+	 * @param options Optional configuration for level, level patterns, colors, console, format, sinks,
+	 *   rate limit, and context
 	 */
 	constructor(label?: string, options: LoggerOptions = {}) {
+		const {parent, labels} = options as InternalLoggerOptions;
 		this.label = label;
-		this.parent = (options as InternalLoggerOptions).parent;
+		this.parent = parent;
+		this.labels = labels ?? (label ? [label] : []);
+		// Context is fixed at construction, so it's merged once
+		this.context =
+			parent && options.context
+				? {...parent.context, ...options.context}
+				: (options.context ?? parent?.context ?? {});
 
 		// Set overrides if provided (undefined = inherit from parent)
 		if (options.level !== undefined) {
 			log_level_parse(options.level); // throws if invalid
 			this.#level_override = options.level;
 		}
+		if (options.level_patterns !== undefined) {
+			this.#level_patterns_override = to_level_patterns(options.level_patterns);
+		}
 		if (options.colors !== undefined) {
 			this.#colors_override = options.colors;
 		}
 		if (options.console !== undefined) {
 			this.#console_override = options.console;
 		}
+		if (options.format !== undefined) {
+			log_format_parse(options.format); // throws if invalid
+			this.#format_override = options.format;
+		}
+		if (options.sinks !== undefined) {
+			this.#sinks_override = options.sinks;
+		}
+		if (options.rate_limit !== undefined) {
+			this.#rate_limit_override = options.rate_limit;
+		}
 	}
 
 	/**
-	 * Dynamic getter for level - checks override, then parent, then default.
+	 * Dynamic getter for level - checks override, then the most specific of the `level_patterns`
+	 * matching this logger's full label, then parent, then default.
+	 * Wildcard patterns don't apply below an ancestor with its own level
+	 * that's closer than where the patterns were set, so `*=info` doesn't override it,
+	 * but patterns naming the full label like `app:db=debug` do.
 	 */
 	get level(): LogLevel {
 		if (this.#level_override !== undefined) {
 			return this.#level_override;
 		}
+		const pattern_level = this.#get_cached_pattern_level();
+		if (
+			pattern_level !== null &&
+			(this.#cached_pattern_exact || !this.#has_closer_ancestor_level())
+		) {
+			return pattern_level;
+		}
 		if (this.parent) {
 			return this.parent.level;
 		}
@@ -155,6 +818,29 @@ export class Logger {
 		this.#level_override = value;
 	}
 
+	/**
+	 * Dynamic getter for level patterns - checks override, then parent,
+	 * then the `PUBLIC_LOG_LEVELS` environment variable, then defaults to null.
+	 * Usually set on the root logger to configure the levels of its children by label.
+	 */
+	get level_patterns(): ReadonlyArray<LogLevelPattern> | null {
+		if (this.#level_patterns_override !== undefined) {
+			return this.#level_patterns_override;
+		}
+		if (this.parent) {
+			return this.parent.level_patterns;
+		}
+		return DEFAULT_LOG_LEVEL_PATTERNS;
+	}
+
+	/**
+	 * Setter for level patterns - creates override, parsing strings like `'app:db=debug,*=info'`.
+	 * Null disables the patterns of parents and the environment.
+	 */
+	set level_patterns(value: string | ReadonlyArray<LogLevelPattern> | null) {
+		this.#level_patterns_override = to_level_patterns(value);
+	}
+
 	/**
 	 * Dynamic getter for colors - checks override, then parent, then environment variables.
 	 *
@@ -202,6 +888,69 @@ export class Logger {
 		this.#console_override = value;
 	}
 
+	/**
+	 * Dynamic getter for format - checks override, then parent,
+	 * then the `PUBLIC_LOG_FORMAT` environment variable, then `'text'`.
+	 */
+	get format(): LogFormat {
+		if (this.#format_override !== undefined) {
+			return this.#format_override;
+		}
+		if (this.parent) {
+			return this.parent.format;
+		}
+		return DEFAULT_LOG_FORMAT;
+	}
+
+	/**
+	 * Setter for format - creates override.
+	 */
+	set format(value: LogFormat) {
+		log_format_parse(value); // throws if invalid
+		this.#format_override = value;
+	}
+
+	/**
+	 * Dynamic getter for sinks - checks override, then parent, then defaults to null.
+	 * When null, messages are written to `console` in the logger's `format`.
+	 */
+	get sinks(): Array<LogSink> | null {
+		if (this.#sinks_override !== undefined) {
+			return this.#sinks_override;
+		}
+		if (this.parent) {
+			return this.parent.sinks;
+		}
+		return null;
+	}
+
+	/**
+	 * Setter for sinks - creates override, null writes to the console even if a parent has sinks.
+	 */
+	set sinks(value: Array<LogSink> | null) {
+		this.#sinks_override = value;
+	}
+
+	/**
+	 * Dynamic getter for the rate limit - checks override, then parent, then defaults to null.
+	 */
+	get rate_limit(): LogRateLimiter | null {
+		if (this.#rate_limit_override !== undefined) {
+			return this.#rate_limit_override;
+		}
+		if (this.parent) {
+			return this.parent.rate_limit;
+		}
+		return null;
+	}
+
+	/**
+	 * Setter for the rate limit - creates override, null disables a parent's rate limit.
+	 */
+	set rate_limit(value: LogRateLimiter | null) {
+		this.#rate_limit_override = value;
+	}
+
 	/**
 	 * Gets the root logger by walking up the parent chain.
 	 * Useful for setting global configuration that affects all child loggers.
@@ -226,6 +975,15 @@ export class Logger {
 		this.#cached_level = undefined;
 	}
 
+	/**
+	 * Clears the level patterns override for this logger, restoring inheritance from parent.
+	 * After calling this, the logger will dynamically inherit the level patterns from its parent
+	 * (or use the `PUBLIC_LOG_LEVELS` environment variable if it has no parent).
+	 */
+	clear_level_patterns_override(): void {
+		this.#level_patterns_override = undefined;
+	}
+
 	/**
 	 * Clears the colors override for this logger, restoring inheritance from parent.
 	 * After calling this, the logger will dynamically inherit colors from its parent
@@ -250,6 +1008,77 @@ export class Logger {
 		this.#console_override = undefined;
 	}
 
+	/**
+	 * Clears the format override for this logger, restoring inheritance from parent.
+	 * After calling this, the logger will dynamically inherit the format from its parent
+	 * (or use the default format if it has no parent).
+	 */
+	clear_format_override(): void {
+		this.#format_override = undefined;
+	}
+
+	/**
+	 * Clears the sinks override for this logger, restoring inheritance from parent.
+	 * After calling this, the logger will dynamically inherit the sinks from its parent
+	 * (or write to the console if it has no parent).
+	 */
+	clear_sinks_override(): void {
+		this.#sinks_override = undefined;
+	}
+
+	/**
+	 * Clears the rate limit override for this logger, restoring inheritance from parent.
+	 * After calling this, the logger will dynamically inherit the rate limit from its parent
+	 * (or write every message if it has no parent).
+	 */
+	clear_rate_limit_override(): void {
+		this.#rate_limit_override = undefined;
+	}
+
+	/**
+	 * Gets the formatted text prefix of a level with this logger's label and colors,
+	 * like `🞩error🞩 [app]`. Cached, for sinks that write text.
+	 * @param level The level of the message
+	 */
+	prefix(level: LogMessageLevel): string {
+		switch (level) {
+			case 'error':
+				return this.#get_error_prefix();
+			case 'warn':
+				return this.#get_warn_prefix();
+			case 'info':
+				return this.#get_info_prefix();
+			case 'debug':
+				return this.#get_debug_prefix();
+		}
+	}
+
+	/**
+	 * Writes a message that passed the level check to the sinks or the console, unless rate limited.
+	 */
+	#write(level: LogMessageLevel, args: Array<unknown>): void {
+		const entry: LogEntry = {level, args, logger: this};
+		const rate_limit = this.rate_limit;
+		if (rate_limit && !rate_limit.check(entry, this.#write_entry)) return;
+		this.#write_entry(entry);
+	}
+
+	// Arrow function so the rate limiter can write summaries later
+	#write_entry = (entry: LogEntry): void => {
+		const {level} = entry;
+		const sinks = this.sinks;
+		if (!sinks) {
+			log_console_write(this.console, this.format, entry);
+			return;
+		}
+		const level_value = LOG_LEVEL_VALUES[level];
+		for (const sink of sinks) {
+			if (sink.level === undefined || LOG_LEVEL_VALUES[sink.level] >= level_value) {
+				sink.write(entry);
+			}
+		}
+	};
+
 	/**
 	 * Ensures prefix cache is valid by checking if colors configuration changed.
 	 * Uses pull-based invalidation: checks colors on each access and invalidates cached
@@ -272,15 +1101,20 @@ export class Logger {
 	}
 
 	/**
-	 * Formats the label portion of log output with given styleText function.
-	 * Applies color styling if enabled, otherwise returns plain bracketed label.
+	 * Formats the label and context portion of log output with given styleText function.
+	 * Applies color styling if enabled, otherwise returns plain bracketed label
+	 * followed by the context's `key=value` pairs.
 	 */
 	#format_label(st: typeof styleText, colored: boolean): string {
-		if (!this.label) return '';
-
-		return colored
-			? `${st('gray', '[')}${st('magenta', this.label)}${st('gray', ']')}`
-			: `[${this.label}]`;
+		const label = this.label
+			? colored
+				? `${st('gray', '[')}${st('magenta', this.label)}${st('gray', ']')}`
+				: `[${this.label}]`
+			: '';
+		const context = format_context(this.context);
+		if (!context) return label;
+		const styled_context = colored ? st('gray', context) : context;
+		return label ? `${label} ${styled_context}` : styled_context;
 	}
 
 	/**
@@ -356,6 +1190,38 @@ export class Logger {
 		return this.#cached_level!;
 	}
 
+	/**
+	 * Gets the level of the most specific pattern matching this logger's label,
+	 * or null if none match. Matching is cached until the inherited patterns change,
+	 * using the same pull-based invalidation as `#get_cached_level`.
+	 */
+	#get_cached_pattern_level(): LogLevel | null {
+		const current_patterns = this.level_patterns;
+		if (this.#cached_level_patterns !== current_patterns) {
+			const label = this.label ?? '';
+			this.#cached_level_patterns = current_patterns;
+			this.#cached_pattern_level = current_patterns
+				? log_level_patterns_match(current_patterns, label)
+				: null;
+			// Exact patterns outrank wildcards, so an exact one is the match
+			this.#cached_pattern_exact = !!current_patterns?.some((p) => p.pattern === label);
+		}
+		return this.#cached_pattern_level!;
+	}
+
+	/**
+	 * Checks if an ancestor has its own level and is closer than the logger
+	 * whose level patterns apply, or the environment's if none set them.
+	 */
+	#has_closer_ancestor_level(): boolean {
+		if (this.#level_patterns_override !== undefined) return false;
+		for (let ancestor = this.parent; ancestor; ancestor = ancestor.parent) {
+			if (ancestor.#level_patterns_override !== undefined) return false;
+			if (ancestor.#level_override !== undefined) return true;
+		}
+		return false;
+	}
+
 	/**
 	 * Creates a child logger with automatic label concatenation.
 	 * Children inherit parent configuration unless overridden.
@@ -385,17 +1251,71 @@ export class Logger {
 		const internal_options: InternalLoggerOptions = {
 			...options,
 			parent: this,
+			labels: [...this.labels, label],
 		};
 		return new Logger(child_label, internal_options);
 	}
 
+	/**
+	 * Creates a logger with the same label and additional context fields,
+	 * included with every message it and its children log.
+	 * Fields override the same fields of this logger's context.
+	 * Inherits all configuration from this logger.
+	 *
+	 * @param context Fields to bind
+	 * @returns New Logger instance with the merged context
+	 *
+	 * @example
+	 * ```ts
+	 * const log = new Logger('api');
+	 * const request_log = log.with({request_id: 'abc'});
+	 * request_log.info('handled'); // [api] request_id=abc handled
+	 * request_log.child('db').with({user_id: 1}).info('query'); // [api:db] request_id=abc user_id=1 query
+	 * ```
+	 */
+	with(context: LogContext): Logger {
+		const internal_options: InternalLoggerOptions = {
+			context,
+			parent: this,
+			labels: this.labels,
+		};
+		return new Logger(this.label, internal_options);
+	}
+
+	/**
+	 * Starts a timing span, use `span.span` for nested child spans.
+	 * Ending it logs the tree of durations of it and its children, at `'debug'` by default.
+	 *
+	 * @param name Name of the span
+	 * @param options Level of the logged tree, and the `Timings` that records the durations
+	 * @returns The started span
+	 *
+	 * @example
+	 * ```ts
+	 * const log = new Logger('gro');
+	 * const build = log.span('build');
+	 * const compile = build.span('compile');
+	 * await compile_all();
+	 * compile.end();
+	 * build.span('bundle');
+	 * await bundle_all();
+	 * build.end(); // also ends the running bundle span
+	 * // ┆debug┆ [gro] build 1.21s
+	 * // ├─ compile 950.12ms
+	 * // └─ bundle 260.40ms
+	 * ```
+	 */
+	span(name: string, options?: LogSpanOptions): LogSpan {
+		return new LogSpan(name, this, options);
+	}
+
 	/**
 	 * Logs an error message with `🞩error🞩` prefix.
 	 * Only outputs if current level is `error` or higher.
 	 */
 	error(...args: Array<unknown>): void {
 		if (this.#get_cached_level() < LOG_LEVEL_VALUES.error) return;
-		this.console.error(this.#get_error_prefix(), ...args);
+		this.#write('error', args);
 	}
 
 	/**
@@ -404,7 +1324,7 @@ export class Logger {
 	 */
 	warn(...args: Array<unknown>): void {
 		if (this.#get_cached_level() < LOG_LEVEL_VALUES.warn) return;
-		this.console.warn(this.#get_warn_prefix(), ...args);
+		this.#write('warn', args);
 	}
 
 	/**
@@ -415,7 +1335,7 @@ export class Logger {
 	 */
 	info(...args: Array<unknown>): void {
 		if (this.#get_cached_level() < LOG_LEVEL_VALUES.info) return;
-		this.console.log(this.#get_info_prefix(), ...args);
+		this.#write('info', args);
 	}
 
 	/**
@@ -424,7 +1344,7 @@ export class Logger {
 	 */
 	debug(...args: Array<unknown>): void {
 		if (this.#get_cached_level() < LOG_LEVEL_VALUES.debug) return;
-		this.console.log(this.#get_debug_prefix(), ...args);
+		this.#write('debug', args);
 	}
 
 	/**
@@ -449,6 +1369,15 @@ export interface LoggerOptions {
 	 */
 	level?: LogLevel;
 
+	/**
+	 * Levels by label like `'app:db=debug,app:*=warn,*=info'`, see `log_level_patterns_parse`.
+	 * The most specific pattern matching a logger's full label sets its level,
+	 * unless the logger has its own `level`.
+	 * Inherits from parent or defaults to the `PUBLIC_LOG_LEVELS` environment variable.
+	 * Null disables inherited patterns.
+	 */
+	level_patterns?: string | ReadonlyArray<LogLevelPattern> | null;
+
 	/**
 	 * Console interface for output.
 	 * Inherits from parent or defaults to global console.
@@ -459,11 +1388,38 @@ export interface LoggerOptions {
 	/**
 	 * Whether to use colors in output.
 	 * Inherits from parent or defaults to enabled (unless NO_COLOR env var is set).
+	 * Ignored by the `'json'` format.
 	 */
 	colors?: boolean;
+
+	/**
+	 * Context fields included with every message, merged over the parent's context.
+	 * Shown as `key=value` pairs after the label in the text format.
+	 */
+	context?: LogContext;
+
+	/**
+	 * Destinations of messages, each with its own minimum level, replacing the console output.
+	 * Inherits from parent or defaults to null, which writes to `console` in the logger's `format`.
+	 */
+	sinks?: Array<LogSink> | null;
+
+	/**
+	 * Limits how many messages are written per key in each interval, see `LogRateLimiter`.
+	 * Inherits from parent or defaults to null, which writes every message.
+	 */
+	rate_limit?: LogRateLimiter | null;
+
+	/**
+	 * Output format, `'json'` writes one `LogRecord` JSON line per message.
+	 * Inherits from parent or defaults to the `PUBLIC_LOG_FORMAT` environment variable or `'text'`.
+	 */
+	format?: LogFormat;
 }
 
 // Internal type for child() implementation
 interface InternalLoggerOptions extends LoggerOptions {
 	parent?: Logger;
+	/** Labels of the chain from the root, defaults to the label alone */
+	labels?: ReadonlyArray<string>;
 }
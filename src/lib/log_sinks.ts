@@ -0,0 +1,185 @@
+/**
+ * Sinks for `Logger`, set with `LoggerOptions.sinks` to fan out messages
+ * to multiple destinations, each with its own minimum level.
+ *
+ * Node.js only.
+ *
+ * @example
+ * ```ts
+ * const memory = create_log_sink_memory();
+ * const log = new Logger('app', {
+ *   level: 'debug',
+ *   sinks: [
+ *     create_log_sink_console({level: 'info'}),
+ *     create_log_sink_file({path: 'logs/app.log'}),
+ *     memory,
+ *   ],
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import {appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync} from 'node:fs';
+import {dirname} from 'node:path';
+import {format as format_args, stripVTControlCharacters} from 'node:util';
+
+import {
+	log_console_write,
+	log_record_create,
+	type LogConsole,
+	type LogEntry,
+	type LogFormat,
+	type LogLevel,
+	type LogRecord,
+	type LogSink,
+} from './log.js';
+
+/**
+ * Options for a console sink.
+ */
+export interface LogSinkConsoleOptions {
+	/** Most verbose level to write (default: all levels) */
+	level?: LogLevel;
+	/** Console to write to (default: the logger's `console`) */
+	console?: LogConsole;
+	/** Output format (default: the logger's `format`) */
+	format?: LogFormat;
+}
+
+/**
+ * Creates a sink that writes to a console, like loggers without sinks.
+ * @param options Level, console, and format overrides
+ */
+export const create_log_sink_console = (options: LogSinkConsoleOptions = {}): LogSink => ({
+	level: options.level,
+	write: (entry) => {
+		log_console_write(
+			options.console ?? entry.logger.console,
+			options.format ?? entry.logger.format,
+			entry,
+		);
+	},
+});
+
+/**
+ * Options for a rotating file sink.
+ */
+export interface LogSinkFileOptions {
+	/** Path of the log file, its directory is created if needed */
+	path: string;
+	/** Most verbose level to write (default: all levels) */
+	level?: LogLevel;
+	/** Output format, text is written without colors (default: 'json') */
+	format?: LogFormat;
+	/** Size in bytes after which the file is rotated (default: 10MB) */
+	max_bytes?: number;
+	/** Number of rotated files to keep, named `path.1` (newest) to `path.N` (default: 5) */
+	max_files?: number;
+}
+
+/**
+ * Creates a sink that appends lines to a file, rotating it when it grows past `max_bytes`.
+ * Writes synchronously so messages aren't lost when the process exits.
+ * @param options Path, level, format, and rotation limits
+ */
+export const create_log_sink_file = (options: LogSinkFileOptions): LogSink => {
+	const {path, level, format = 'json', max_bytes = 10 * 1024 * 1024, max_files = 5} = options;
+
+	mkdirSync(dirname(path), {recursive: true});
+	let size = existsSync(path) ? statSync(path).size : 0;
+
+	const rotate = (): void => {
+		if (max_files <= 0) {
+			rmSync(path, {force: true});
+			return;
+		}
+		// Shift older files up, the last one is overwritten
+		for (let i = max_files - 1; i >= 1; i--) {
+			const from = `${path}.${i}`;
+			if (existsSync(from)) renameSync(from, `${path}.${i + 1}`);
+		}
+		renameSync(path, `${path}.1`);
+	};
+
+	return {
+		level,
+		write: (entry) => {
+			const line =
+				(format === 'json' ? JSON.stringify(log_record_create(entry)) : to_text_line(entry)) + '\n';
+			const bytes = Buffer.byteLength(line);
+			if (size > 0 && size + bytes > max_bytes) {
+				rotate();
+				size = 0;
+			}
+			appendFileSync(path, line);
+			size += bytes;
+		},
+	};
+};
+
+const to_text_line = ({level, args, logger}: LogEntry): string => {
+	const prefix = logger.prefix(level);
+	return stripVTControlCharacters(prefix ? format_args(prefix, ...args) : format_args(...args));
+};
+
+/**
+ * Options for an in-memory sink.
+ */
+export interface LogSinkMemoryOptions {
+	/** Most verbose level to keep (default: all levels) */
+	level?: LogLevel;
+	/** Maximum number of records to keep, older ones are dropped (default: 1000) */
+	capacity?: number;
+}
+
+/**
+ * Sink that keeps the latest records in memory.
+ */
+export interface LogSinkMemory extends LogSink {
+	/** Kept records, oldest first */
+	readonly records: Array<LogRecord>;
+	/** Removes all kept records */
+	clear: () => void;
+}
+
+/**
+ * Creates a sink that keeps the latest records in a ring buffer,
+ * useful for tests and debug panels.
+ * @param options Level and capacity
+ *
+ * @example
+ * ```ts
+ * const memory = create_log_sink_memory({capacity: 100});
+ * const log = new Logger('app', {sinks: [memory]});
+ * log.info('hello');
+ * memory.records[0].message; // 'hello'
+ * ```
+ */
+export const create_log_sink_memory = (options: LogSinkMemoryOptions = {}): LogSinkMemory => {
+	const capacity = options.capacity ?? 1000;
+	if (!(capacity > 0)) throw new Error(`Log sink capacity must be positive: ${capacity}`);
+
+	let buffer: Array<LogRecord> = [];
+	let start = 0; // index of the oldest record once the buffer is full
+
+	return {
+		level: options.level,
+		write: (entry) => {
+			const record = log_record_create(entry);
+			if (buffer.length < capacity) {
+				buffer.push(record);
+			} else {
+				buffer[start] = record;
+				start = (start + 1) % capacity;
+			}
+		},
+		get records() {
+			return [...buffer.slice(start), ...buffer.slice(0, start)];
+		},
+		clear: () => {
+			buffer = [];
+			start = 0;
+		},
+	};
+};
@@ -4,10 +4,16 @@ import {
 	type ChildProcess,
 } from 'node:child_process';
 import {styleText as st} from 'node:util';
+import {connect} from 'node:net';
+import {readdirSync, readFileSync} from 'node:fs';
+import {StringDecoder} from 'node:string_decoder';
+import {PassThrough, type Readable} from 'node:stream';
 
 import {Logger} from './log.js';
 import {print_error, print_key_value} from './print.js';
 import {noop} from './function.js';
+import {fs_exists} from './fs.js';
+import {wait} from './async.js';
 
 const log = new Logger('process');
 
@@ -98,6 +104,24 @@ export interface SpawnProcessOptions extends SpawnOptions {
 	 * Sends SIGTERM when exceeded. A value of 0 triggers immediate SIGTERM.
 	 */
 	timeout_ms?: number;
+	/**
+	 * Readiness probe, resolving the `ready` promise of the spawned process.
+	 * Output probes pipe stdout and stderr and forward them to the parent's if `stdio` is not set.
+	 * Otherwise `child.stdout` and `child.stderr` are replaced with streams buffering all output,
+	 * which callers must read as usual or the child may block before it is ready.
+	 */
+	ready?: SpawnReadyProbe;
+	/**
+	 * Spawns the process as the leader of a new process group (`detached`, except on Windows),
+	 * so `despawn`, `signal`, and `timeout_ms` signal the whole group,
+	 * including grandchildren spawned by shells and npm scripts.
+	 * Unlike `spawn_detached`, the process is tracked in the registry,
+	 * but the caller must despawn it, like with `despawn_all` on shutdown:
+	 * the group leaves the terminal's foreground group, so Ctrl+C doesn't send it SIGINT,
+	 * it's orphaned instead of killed when the parent dies,
+	 * and it's stopped by SIGTTIN if it reads from an inherited terminal stdin.
+	 */
+	process_group?: boolean;
 	/**
 	 * Custom spawn function for testing. Defaults to `node:child_process` spawn.
 	 */
@@ -116,8 +140,16 @@ export interface DespawnOptions {
 	/**
 	 * Timeout in ms before escalating to SIGKILL. Must be non-negative.
 	 * Useful for processes that may ignore SIGTERM. A value of 0 triggers immediate SIGKILL escalation.
+	 * For process groups and trees, waits for the rest of the group or tree to exit before escalating.
 	 */
 	timeout_ms?: number;
+	/**
+	 * Also signal the descendants of the process, found with `process_get_descendants` (Linux only).
+	 * Process group leaders always have their whole group signaled.
+	 * `despawn_all` defaults to `true`.
+	 * @default false
+	 */
+	tree?: boolean;
 }
 
 /**
@@ -125,6 +157,104 @@ export interface DespawnOptions {
  */
 export type SpawnDetachedResult = {ok: true; child: ChildProcess} | {ok: false; message: string};
 
+//
+// Readiness Types
+//
+
+/**
+ * Default timeout in ms of readiness probes.
+ */
+export const SPAWN_READY_TIMEOUT_MS_DEFAULT = 30_000;
+
+interface SpawnReadyProbeBase {
+	/**
+	 * Timeout in ms before readiness fails. Must be non-negative.
+	 * The process keeps running when readiness fails.
+	 * @default SPAWN_READY_TIMEOUT_MS_DEFAULT
+	 */
+	timeout_ms?: number;
+}
+
+/**
+ * Ready when a line of output matches `pattern`.
+ */
+export interface SpawnReadyProbeOutput extends SpawnReadyProbeBase {
+	type: 'output';
+	pattern: RegExp;
+	/**
+	 * Output streams to match.
+	 * @default 'both'
+	 */
+	stream?: 'stdout' | 'stderr' | 'both';
+}
+
+/**
+ * Ready when a TCP port accepts connections.
+ */
+export interface SpawnReadyProbePort extends SpawnReadyProbeBase {
+	type: 'port';
+	port: number;
+	/**
+	 * @default 'localhost'
+	 */
+	host?: string;
+	/**
+	 * Delay in ms between connection attempts.
+	 * @default 100
+	 */
+	interval_ms?: number;
+}
+
+/**
+ * Ready when a file exists.
+ */
+export interface SpawnReadyProbeFile extends SpawnReadyProbeBase {
+	type: 'file';
+	path: string;
+	/**
+	 * Delay in ms between checks.
+	 * @default 100
+	 */
+	interval_ms?: number;
+}
+
+/**
+ * Readiness probe of a spawned process, see `SpawnProcessOptions.ready`.
+ */
+export type SpawnReadyProbe = SpawnReadyProbeOutput | SpawnReadyProbePort | SpawnReadyProbeFile;
+
+/**
+ * The process is ready, or has no readiness probe.
+ */
+export interface SpawnReadyResultReady {
+	ok: true;
+	child: ChildProcess;
+	error: null;
+	reason: null;
+	result: null;
+}
+
+/**
+ * The process didn't become ready.
+ * - `timeout` - the probe's `timeout_ms` elapsed
+ * - `exited` - the process exited first, see `result`
+ * - `unavailable` - the output stream to match isn't piped
+ */
+export interface SpawnReadyResultFailed {
+	ok: false;
+	child: ChildProcess;
+	/** Describes the failure, the probe, and the command */
+	error: Error;
+	reason: 'timeout' | 'exited' | 'unavailable';
+	/** The result if the process exited before it was ready */
+	result: SpawnResult | null;
+}
+
+/**
+ * Outcome of a readiness probe.
+ */
+export type SpawnReadyResult = SpawnReadyResultReady | SpawnReadyResultFailed;
+
 //
 // Process Handle Types
 //
@@ -137,6 +267,76 @@ export interface SpawnedProcess {
 	child: ChildProcess;
 	/** Resolves when the process exits */
 	closed: Promise<SpawnResult>;
+	/** Resolves when the `ready` probe passes or fails, immediately if there's no probe */
+	ready: Promise<SpawnReadyResult>;
+}
+
+/**
+ * A line of output of a process spawned with `spawn_lines`.
+ */
+export interface SpawnLine {
+	stream: 'stdout' | 'stderr';
+	/** The line without its line ending */
+	text: string;
+	/** Time the line was read, from `Date.now()` */
+	time: number;
+	/** The `label` option, see `print_spawn_line` */
+	label: string | null;
+}
+
+/**
+ * Options for `spawn_lines`. Sets `stdio: 'pipe'` automatically.
+ */
+export interface SpawnLinesOptions extends SpawnProcessOptions {
+	/** Label of the lines, prefixed by `print_spawn_line` and when forwarding to `log` */
+	label?: string;
+	/** Logger to forward lines to, stdout with `info` and stderr with `warn` */
+	log?: Logger;
+	/**
+	 * Maximum number of lines buffered while not iterating, dropping the oldest lines.
+	 * @default 1000
+	 */
+	max_buffered_lines?: number;
+}
+
+/**
+ * Handle of `spawn_lines`, async-iterable over the lines of output as they're read.
+ * Iteration ends when the process exits, with `closed` resolving its final result.
+ * Supports a single consumer, and stopping iteration doesn't kill the process.
+ */
+export interface SpawnedLines extends SpawnedProcess, AsyncIterable<SpawnLine> {}
+
+/**
+ * A command of a pipeline, see `spawn_pipeline`.
+ */
+export interface SpawnPipelineStage {
+	command: string;
+	args?: ReadonlyArray<string>;
+	/** Spawn options of this stage, overriding the pipeline's, except `stdio` which is always piped */
+	options?: SpawnOptions;
+}
+
+/**
+ * Options for `spawn_pipeline`, applied to every stage.
+ * `signal` and `timeout_ms` kill all stages.
+ */
+export interface SpawnPipelineOptions extends Omit<SpawnProcessOptions, 'stdio' | 'ready'> {
+	/** Written to the stdin of the first stage, which otherwise gets an empty stdin */
+	input?: string;
+}
+
+/**
+ * Result of `spawn_pipeline`.
+ */
+export interface SpawnedPipeline {
+	/** True if every stage succeeded, like `set -o pipefail` */
+	ok: boolean;
+	/** Results of the stages in order */
+	results: Array<SpawnResult>;
+	/** Captured stdout of the last stage, or null if it failed to spawn */
+	stdout: string | null;
+	/** Captured stderr of each stage, or null for stages that failed to spawn */
+	stderr: Array<string | null>;
 }
 
 /**
@@ -189,12 +389,15 @@ const create_closed_promise = (child: ChildProcess): Promise<SpawnResult> => {
  * Sets up abort signal handling for a child process.
  * @returns cleanup function to remove the listener
  */
-const setup_abort_signal = (child: ChildProcess, signal: AbortSignal): (() => void) => {
+const setup_abort_signal = (
+	kill: (signal: NodeJS.Signals) => void,
+	signal: AbortSignal,
+): (() => void) => {
 	if (signal.aborted) {
-		child.kill();
+		kill('SIGTERM');
 		return noop;
 	}
-	const on_abort = () => child.kill();
+	const on_abort = () => kill('SIGTERM');
 	signal.addEventListener('abort', on_abort, {once: true});
 	return () => signal.removeEventListener('abort', on_abort);
 };
@@ -214,15 +417,328 @@ const validate_timeout_ms = (timeout_ms: number | undefined): void => {
  * Note: timeout_ms of 0 triggers immediate SIGTERM (use with caution).
  * @returns cleanup function to clear the timeout
  */
-const setup_timeout = (child: ChildProcess, timeout_ms: number): (() => void) => {
-	const timeout_id = setTimeout(() => child.kill('SIGTERM'), timeout_ms);
+const setup_timeout = (
+	kill: (signal: NodeJS.Signals) => void,
+	timeout_ms: number,
+): (() => void) => {
+	const timeout_id = setTimeout(() => kill('SIGTERM'), timeout_ms);
 	return () => clearTimeout(timeout_id);
 };
 
+/**
+ * Sends a signal to a child process, or to its whole process group if it leads one.
+ */
+const kill_child = (child: ChildProcess, signal: NodeJS.Signals, group: boolean): void => {
+	if (group && child.pid !== undefined) {
+		try {
+			process.kill(-child.pid, signal);
+			return;
+		} catch {
+			// The group already exited
+		}
+	}
+	child.kill(signal);
+};
+
+/**
+ * Sends a signal to a process by pid, ignoring processes that already exited.
+ */
+const kill_pid = (pid: number, signal: NodeJS.Signals): void => {
+	try {
+		process.kill(pid, signal);
+	} catch {
+		// Already exited
+	}
+};
+
+interface ProcStat {
+	pid: number;
+	ppid: number;
+	pgrp: number;
+	/** `Z` for zombies, which are dead but not yet reaped */
+	state: string;
+	/** Start time in clock ticks since boot, telling apart processes that reuse a pid */
+	starttime: number;
+}
+
+/**
+ * Reads the status of a process from `/proc`, `null` if it exited.
+ */
+const read_proc_stat = (pid: number): ProcStat | null => {
+	let contents: string;
+	try {
+		contents = readFileSync(`/proc/${pid}/stat`, 'utf8');
+	} catch {
+		return null;
+	}
+	// The command name in parens may contain spaces and parens
+	const fields = contents.slice(contents.lastIndexOf(')') + 2).split(' ');
+	return {
+		pid,
+		state: fields[0]!,
+		ppid: Number(fields[1]),
+		pgrp: Number(fields[2]),
+		starttime: Number(fields[19]),
+	};
+};
+
+/**
+ * Reads the status of all processes from `/proc`, empty on platforms other than Linux.
+ */
+const read_proc_stats = (): Array<ProcStat> => {
+	if (process.platform !== 'linux') return [];
+	let names: Array<string>;
+	try {
+		names = readdirSync('/proc');
+	} catch {
+		return [];
+	}
+	const stats: Array<ProcStat> = [];
+	for (const name of names) {
+		if (!/^\d+$/.test(name)) continue;
+		const stat = read_proc_stat(Number(name));
+		if (stat) stats.push(stat);
+	}
+	return stats;
+};
+
+/**
+ * Gets the running descendants of a process in `stats`, breadth-first.
+ */
+const get_proc_descendants = (stats: ReadonlyArray<ProcStat>, pid: number): Array<ProcStat> => {
+	const children_by_ppid: Map<number, Array<ProcStat>> = new Map();
+	for (const stat of stats) {
+		let children = children_by_ppid.get(stat.ppid);
+		if (!children) children_by_ppid.set(stat.ppid, (children = []));
+		children.push(stat);
+	}
+	const descendants: Array<ProcStat> = [];
+	const queue = [pid];
+	for (let i = 0; i < queue.length; i++) {
+		for (const child of children_by_ppid.get(queue[i]!) ?? []) {
+			queue.push(child.pid);
+			if (child.state !== 'Z') descendants.push(child);
+		}
+	}
+	return descendants;
+};
+
+/**
+ * Checks if a snapshotted process is still running, and not a new process reusing its pid.
+ * Its ppid is not compared because orphans are reparented. Zombies count as exited.
+ */
+const is_proc_running = (stat: ProcStat): boolean => {
+	const current = read_proc_stat(stat.pid);
+	return current !== null && current.state !== 'Z' && current.starttime === stat.starttime;
+};
+
+/**
+ * Checks if any members of a process group are running, including zombies.
+ */
+const is_group_running = (pgid: number): boolean => {
+	try {
+		process.kill(-pgid, 0);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Creates a promise that resolves when the readiness probe passes,
+ * the probe times out, or the process exits first.
+ * Output probes watch `output`, which defaults to the child's streams.
+ */
+const create_ready_promise = (
+	child: ChildProcess,
+	closed: Promise<SpawnResult>,
+	probe: SpawnReadyProbe | undefined,
+	output: Pick<ChildProcess, 'stdout' | 'stderr'> = child,
+): Promise<SpawnReadyResult> => {
+	if (!probe) return Promise.resolve({ok: true, child, error: null, reason: null, result: null});
+	const {timeout_ms = SPAWN_READY_TIMEOUT_MS_DEFAULT} = probe;
+
+	return new Promise((resolve) => {
+		let settled = false;
+		const cleanups: Array<() => void> = [];
+		const settle = (ready_result: SpawnReadyResult): void => {
+			if (settled) return;
+			settled = true;
+			for (const cleanup of cleanups) cleanup();
+			resolve(ready_result);
+		};
+		const fail = (
+			reason: SpawnReadyResultFailed['reason'],
+			message: string,
+			result: SpawnResult | null = null,
+		): void => {
+			const error = new Error(`${message}: ${child.spawnargs.join(' ')}`);
+			settle({ok: false, child, error, reason, result});
+		};
+		const pass = (): void => settle({ok: true, child, error: null, reason: null, result: null});
+
+		const timeout_id = setTimeout(
+			() => fail('timeout', `Process not ready after ${timeout_ms}ms ${print_ready_probe(probe)}`),
+			timeout_ms,
+		);
+		cleanups.push(() => clearTimeout(timeout_id));
+		void closed.then((result) =>
+			fail(
+				'exited',
+				`Process exited with ${spawn_result_to_message(result)} before ready ${print_ready_probe(probe)}`,
+				result,
+			),
+		);
+
+		switch (probe.type) {
+			case 'output': {
+				const {pattern, stream = 'both'} = probe;
+				const streams: Array<Readable | null> = [];
+				if (stream !== 'stderr') streams.push(output.stdout);
+				if (stream !== 'stdout') streams.push(output.stderr);
+				if (streams.includes(null)) {
+					fail(
+						'unavailable',
+						`Cannot wait for output because ${stream === 'both' ? 'stdout/stderr' : stream} is not piped; spawn with \`stdio: 'pipe'\``,
+					);
+					return;
+				}
+				for (const readable of streams) {
+					cleanups.push(watch_lines(readable!, pattern, pass));
+				}
+				break;
+			}
+			case 'port': {
+				const {port, host = 'localhost', interval_ms = 100} = probe;
+				cleanups.push(poll(() => check_port(port, host), interval_ms, pass));
+				break;
+			}
+			case 'file': {
+				cleanups.push(poll(() => fs_exists(probe.path), probe.interval_ms ?? 100, pass));
+				break;
+			}
+		}
+	});
+};
+
+const print_ready_probe = (probe: SpawnReadyProbe): string => {
+	switch (probe.type) {
+		case 'output': {
+			const stream = probe.stream ?? 'both';
+			return `waiting for ${stream === 'both' ? 'stdout or stderr' : stream} to match ${probe.pattern}`;
+		}
+		case 'port':
+			return `waiting for port ${probe.host ?? 'localhost'}:${probe.port}`;
+		case 'file':
+			return `waiting for file ${probe.path}`;
+	}
+};
+
+/**
+ * Calls `on_match` when a line of `readable` matches `pattern`,
+ * including the incomplete last line to match prompts.
+ * @returns cleanup function to remove the listener
+ */
+const watch_lines = (readable: Readable, pattern: RegExp, on_match: () => void): (() => void) => {
+	const decoder = new StringDecoder('utf8');
+	let partial = '';
+	const on_data = (data: Buffer): void => {
+		const lines = (partial + decoder.write(data)).split('\n');
+		partial = lines.pop()!;
+		lines.push(partial);
+		for (const line of lines) {
+			pattern.lastIndex = 0;
+			if (pattern.test(line)) {
+				on_match();
+				return;
+			}
+		}
+	};
+	readable.on('data', on_data);
+	return () => readable.off('data', on_data);
+};
+
+/**
+ * Pipes `readable` into a `PassThrough` that buffers its output,
+ * so `readable` can be watched without consuming the output read from the returned stream.
+ */
+const tee_readable = (readable: Readable | null): Readable | null =>
+	readable?.pipe(new PassThrough()) ?? null;
+
+/**
+ * Calls `on_line` with each line of `readable` without its line ending,
+ * including the incomplete last line when the stream ends.
+ * @returns cleanup function to remove the listeners
+ */
+const read_lines = (readable: Readable, on_line: (line: string) => void): (() => void) => {
+	const decoder = new StringDecoder('utf8');
+	let partial = '';
+	const on_data = (data: Buffer): void => {
+		const lines = (partial + decoder.write(data)).split('\n');
+		partial = lines.pop()!;
+		for (const line of lines) on_line(strip_cr(line));
+	};
+	const on_end = (): void => {
+		partial += decoder.end();
+		if (partial) on_line(strip_cr(partial));
+		partial = '';
+	};
+	readable.on('data', on_data);
+	readable.once('end', on_end);
+	return () => {
+		readable.off('data', on_data);
+		readable.off('end', on_end);
+	};
+};
+
+const strip_cr = (line: string): string => (line.endsWith('\r') ? line.slice(0, -1) : line);
+
+/**
+ * Calls `check` every `interval_ms` until it returns true, then calls `on_ready`.
+ * @returns cleanup function to stop polling
+ */
+const poll = (
+	check: () => Promise<boolean>,
+	interval_ms: number,
+	on_ready: () => void,
+): (() => void) => {
+	let stopped = false;
+	let timeout_id: NodeJS.Timeout | undefined;
+	const attempt = async (): Promise<void> => {
+		const passed = await check();
+		if (stopped) return;
+		if (passed) {
+			on_ready();
+		} else {
+			timeout_id = setTimeout(attempt, interval_ms);
+		}
+	};
+	void attempt();
+	return () => {
+		stopped = true;
+		clearTimeout(timeout_id);
+	};
+};
+
+const check_port = (port: number, host: string): Promise<boolean> =>
+	new Promise((resolve) => {
+		const socket = connect({port, host});
+		const done = (connected: boolean): void => {
+			socket.destroy();
+			resolve(connected);
+		};
+		socket.setTimeout(1000, () => done(false));
+		socket.once('connect', () => done(true));
+		socket.once('error', () => done(false));
+	});
+
 //
 // Process Registry
 //
 
+// Time in ms to wait for process groups and trees to exit after escalating to SIGKILL
+const ESCALATION_GRACE_MS = 1000;
+
 /**
  * Manages a collection of spawned processes for lifecycle tracking and cleanup.
  *
@@ -246,14 +762,17 @@ export class ProcessRegistry {
 
 	#error_handler: ((err: Error, origin: NodeJS.UncaughtExceptionOrigin) => void) | null = null;
 
+	/** Processes spawned with `process_group` that lead their own group */
+	#process_groups: WeakSet<ChildProcess> = new WeakSet();
+
 	/**
 	 * Spawns a process and tracks it in this registry.
 	 * The process is automatically unregistered when it exits.
 	 *
 	 * @param command - The command to run
 	 * @param args - Arguments to pass to the command
-	 * @param options - Spawn options including `signal` and `timeout_ms`
-	 * @returns Handle with `child` process and `closed` promise
+	 * @param options - Spawn options including `signal`, `timeout_ms`, and `ready`
+	 * @returns Handle with `child` process, `closed` promise, and `ready` promise
 	 */
 	spawn(
 		command: string,
@@ -263,23 +782,46 @@ export class ProcessRegistry {
 		const {
 			signal,
 			timeout_ms,
+			ready,
+			process_group = false,
 			spawn_child_process = node_spawn_child_process,
 			...spawn_options
 		} = options ?? {};
 		validate_timeout_ms(timeout_ms);
-		const child = spawn_child_process(command, args, {stdio: 'inherit', ...spawn_options});
+		validate_timeout_ms(ready?.timeout_ms);
+		// Output probes need piped output, forwarded to keep it visible like `inherit`
+		const forward_output = ready?.type === 'output' && spawn_options.stdio === undefined;
+		// Windows has no process groups, and `detached` opens a new console there
+		const group = process_group && process.platform !== 'win32';
+		const child = spawn_child_process(command, args, {
+			stdio: forward_output ? ['inherit', 'pipe', 'pipe'] : 'inherit',
+			...spawn_options,
+			...(group && {detached: true}),
+		});
+		if (group) this.#process_groups.add(child);
+		const output = {stdout: child.stdout, stderr: child.stderr};
+		if (forward_output) {
+			child.stdout?.pipe(process.stdout, {end: false});
+			child.stderr?.pipe(process.stderr, {end: false});
+		} else if (ready?.type === 'output') {
+			// The probe watches the original streams, leaving all output to the caller
+			child.stdout = tee_readable(child.stdout);
+			child.stderr = tee_readable(child.stderr);
+		}
 
 		this.processes.add(child);
 		const closed = create_closed_promise(child);
 
+		const kill = (kill_signal: NodeJS.Signals): void => kill_child(child, kill_signal, group);
+
 		let cleanup_abort: (() => void) | undefined;
 		if (signal) {
-			cleanup_abort = setup_abort_signal(child, signal);
+			cleanup_abort = setup_abort_signal(kill, signal);
 		}
 
 		let cleanup_timeout: (() => void) | undefined;
 		if (timeout_ms !== undefined) {
-			cleanup_timeout = setup_timeout(child, timeout_ms);
+			cleanup_timeout = setup_timeout(kill, timeout_ms);
 		}
 
 		void closed.then(() => {
@@ -288,7 +830,7 @@ export class ProcessRegistry {
 			cleanup_timeout?.();
 		});
 
-		return {child, closed};
+		return {child, closed, ready: create_ready_promise(child, closed, ready, output)};
 	}
 
 	/**
@@ -334,19 +876,192 @@ export class ProcessRegistry {
 		return {result, stdout, stderr};
 	}
 
+	/**
+	 * Spawns commands connected by pipes, the stdout of each stage to the stdin of the next,
+	 * and captures the output of the last stage.
+	 * When a stage exits early, the stdout of the stage before it is closed,
+	 * ending it with `SIGPIPE` or `EPIPE` if it keeps writing, like in shells.
+	 *
+	 * @param stages - The commands in order, at least one
+	 * @param options - Spawn options applied to every stage including `signal` and `timeout_ms`
+	 * @returns Results of each stage with the captured output
+	 */
+	async spawn_pipeline(
+		stages: ReadonlyArray<SpawnPipelineStage>,
+		options?: SpawnPipelineOptions,
+	): Promise<SpawnedPipeline> {
+		if (stages.length === 0) {
+			throw new Error('spawn_pipeline requires at least one stage');
+		}
+		const {input, ...spawn_options} = options ?? {};
+		validate_timeout_ms(spawn_options.timeout_ms);
+
+		const spawned: Array<SpawnedProcess> = [];
+		const stderr_chunks: Array<Array<string>> = [];
+		for (const stage of stages) {
+			const spawned_stage = this.spawn(stage.command, stage.args, {
+				...spawn_options,
+				...stage.options,
+				stdio: 'pipe',
+			});
+			const {child} = spawned_stage;
+			// Writes fail with EPIPE when the stage exits before reading all of its input
+			child.stdin?.on('error', noop);
+			const chunks: Array<string> = [];
+			child.stderr?.on('data', (data: Buffer) => chunks.push(data.toString()));
+			stderr_chunks.push(chunks);
+
+			const previous = spawned.at(-1)?.child;
+			if (previous) {
+				if (previous.stdout && child.stdin) {
+					previous.stdout.pipe(child.stdin);
+					// Close the previous stage's output when this stage stops reading
+					child.stdin.once('close', () => previous.stdout?.destroy());
+				} else {
+					child.stdin?.end();
+				}
+			} else {
+				child.stdin?.end(input);
+			}
+			spawned.push(spawned_stage);
+		}
+
+		const last = spawned.at(-1)!.child;
+		const stdout_chunks: Array<string> = [];
+		last.stdout?.on('data', (data: Buffer) => stdout_chunks.push(data.toString()));
+
+		const results = await Promise.all(spawned.map((s) => s.closed));
+		return {
+			ok: results.every((r) => r.ok),
+			results,
+			stdout:
+				spawn_result_is_error(results.at(-1)!) || !last.stdout ? null : stdout_chunks.join(''),
+			stderr: results.map((result, i) =>
+				spawn_result_is_error(result) || !spawned[i]!.child.stderr
+					? null
+					: stderr_chunks[i]!.join(''),
+			),
+		};
+	}
+
+	/**
+	 * Spawns a process and reads its output line by line as it runs.
+	 * Sets `stdio: 'pipe'` automatically.
+	 *
+	 * @param command - The command to run
+	 * @param args - Arguments to pass to the command
+	 * @param options - Spawn options with the label, logger, and buffer size
+	 * @returns Handle that's async-iterable over the lines, with `closed` resolving the final result
+	 */
+	spawn_lines(
+		command: string,
+		args: ReadonlyArray<string> = [],
+		options?: SpawnLinesOptions,
+	): SpawnedLines {
+		const {
+			label = null,
+			log: line_log,
+			max_buffered_lines = 1000,
+			...spawn_options
+		} = options ?? {};
+		const {child, closed, ready} = this.spawn(command, args, {...spawn_options, stdio: 'pipe'});
+
+		const buffered: Array<SpawnLine> = [];
+		let pending: ((result: IteratorResult<SpawnLine>) => void) | null = null;
+		let done = false;
+
+		const on_line = (stream: SpawnLine['stream'], text: string): void => {
+			const line: SpawnLine = {stream, text, time: Date.now(), label};
+			if (line_log) {
+				if (stream === 'stdout') line_log.info(print_spawn_line(line));
+				else line_log.warn(print_spawn_line(line));
+			}
+			if (done) return;
+			if (pending) {
+				const resolve = pending;
+				pending = null;
+				resolve({value: line, done: false});
+			} else {
+				buffered.push(line);
+				if (buffered.length > max_buffered_lines) buffered.shift();
+			}
+		};
+		const cleanup_stdout = child.stdout
+			? read_lines(child.stdout, (text) => on_line('stdout', text))
+			: noop;
+		const cleanup_stderr = child.stderr
+			? read_lines(child.stderr, (text) => on_line('stderr', text))
+			: noop;
+
+		const finish = (): void => {
+			done = true;
+			if (pending) {
+				const resolve = pending;
+				pending = null;
+				resolve({value: undefined, done: true});
+			}
+		};
+		void closed.then(() => {
+			cleanup_stdout();
+			cleanup_stderr();
+			finish();
+		});
+
+		const iterator: AsyncIterator<SpawnLine> = {
+			next: () => {
+				const line = buffered.shift();
+				if (line) return Promise.resolve({value: line, done: false});
+				if (done) return Promise.resolve({value: undefined, done: true});
+				return new Promise((resolve) => (pending = resolve));
+			},
+			return: () => {
+				buffered.length = 0;
+				finish();
+				return Promise.resolve({value: undefined, done: true});
+			},
+		};
+
+		return {child, closed, ready, [Symbol.asyncIterator]: () => iterator};
+	}
+
+	/**
+	 * Spawns a process and restarts it according to a restart policy,
+	 * with exponential backoff and jitter between restarts.
+	 *
+	 * @param command - The command to run
+	 * @param args - Arguments to pass to the command
+	 * @param options - Restart policy, backoff, and spawn options
+	 * @returns The started supervisor
+	 */
+	supervise(
+		command: string,
+		args: ReadonlyArray<string> = [],
+		options?: ProcessSupervisorOptions,
+	): ProcessSupervisor {
+		const supervisor = new ProcessSupervisor(command, args, options, this);
+		supervisor.start();
+		return supervisor;
+	}
+
 	/**
 	 * Kills a child process and waits for it to exit.
+	 * Signals the whole group of processes spawned with `process_group`,
+	 * and the descendants of the process with the `tree` option.
 	 *
 	 * @param child - The child process to kill
-	 * @param options - Kill options including signal and timeout
+	 * @param options - Kill options including signal, timeout, and tree
 	 * @returns The spawn result after the process exits
 	 */
 	async despawn(child: ChildProcess, options?: DespawnOptions): Promise<SpawnResult> {
-		const {signal = 'SIGTERM', timeout_ms} = options ?? {};
+		const {signal = 'SIGTERM', timeout_ms, tree = false} = options ?? {};
 		validate_timeout_ms(timeout_ms);
 
+		const group = this.#process_groups.has(child);
+
 		// Already exited with code
 		if (child.exitCode !== null) {
+			// Members of the group may outlive the leader
+			if (group) kill_child(child, signal, true);
 			return {
 				ok: child.exitCode === 0,
 				child,
@@ -357,6 +1072,7 @@ export class ProcessRegistry {
 		}
 		// Already terminated by signal
 		if (child.signalCode !== null) {
+			if (group) kill_child(child, signal, true);
 			return {
 				ok: false,
 				child,
@@ -368,25 +1084,75 @@ export class ProcessRegistry {
 
 		log.debug('despawning', print_child_process(child));
 		const closed = create_closed_promise(child);
+		const kill = this.#create_kill(
+			child,
+			tree || this.#process_groups.has(child) ? read_proc_stats() : [],
+		);
 
 		// Escalate to SIGKILL after timeout
+		let escalation: NodeJS.Timeout | undefined;
 		if (timeout_ms !== undefined) {
-			const timeout_id = setTimeout(() => child.kill('SIGKILL'), timeout_ms);
-			void closed.then(() => clearTimeout(timeout_id));
+			escalation = setTimeout(() => kill('SIGKILL'), timeout_ms);
 		}
 
-		child.kill(signal);
-		return closed;
+		kill(signal);
+		const result = await closed;
+
+		// Wait for the rest of the group or tree to exit or be killed
+		if (escalation !== undefined) {
+			const deadline = Date.now() + timeout_ms! + ESCALATION_GRACE_MS;
+			while (kill.is_running() && Date.now() < deadline) {
+				await wait(10); // eslint-disable-line no-await-in-loop
+			}
+			clearTimeout(escalation);
+		}
+		return result;
 	}
 
 	/**
-	 * Kills all processes in this registry.
+	 * Kills all processes in this registry, including their descendants on Linux.
 	 *
-	 * @param options - Kill options applied to all processes
+	 * @param options - Kill options applied to all processes, `tree` defaults to `true`
 	 * @returns Array of spawn results
 	 */
 	async despawn_all(options?: DespawnOptions): Promise<Array<SpawnResult>> {
-		return Promise.all([...this.processes].map((child) => this.despawn(child, options)));
+		return Promise.all(
+			[...this.processes].map((child) => this.despawn(child, {tree: true, ...options})),
+		);
+	}
+
+	/**
+	 * Creates a function that signals a child and its group or descendants,
+	 * snapshotting the group members or descendants in `stats` because they're reparented
+	 * when their parent exits. Pass empty `stats` to signal only the child or its group.
+	 * Snapshotted processes that exited are skipped so reused pids are never signaled.
+	 */
+	#create_kill(
+		child: ChildProcess,
+		stats: ReadonlyArray<ProcStat>,
+	): ((signal: NodeJS.Signals) => void) & {is_running: () => boolean} {
+		const group = this.#process_groups.has(child);
+		const {pid} = child;
+		let snapshot =
+			pid === undefined
+				? []
+				: group
+					? stats.filter((stat) => stat.pgrp === pid && stat.pid !== pid && stat.state !== 'Z')
+					: get_proc_descendants(stats, pid);
+		const kill = (signal: NodeJS.Signals): void => {
+			snapshot = snapshot.filter(is_proc_running);
+			// An exited leader's pgid may be reused once no members are left
+			const exited = child.exitCode !== null || child.signalCode !== null;
+			kill_child(child, signal, group && (!exited || snapshot.length > 0));
+			if (!group) for (const stat of snapshot) kill_pid(stat.pid, signal);
+		};
+		return Object.assign(kill, {
+			// Off Linux there are no snapshots, so only groups can be checked
+			is_running: (): boolean =>
+				process.platform === 'linux'
+					? snapshot.some(is_proc_running)
+					: group && pid !== undefined && is_group_running(pid),
+		});
 	}
 
 	/**
@@ -436,10 +1202,13 @@ export class ProcessRegistry {
 				}
 			}
 
+			const stats = read_proc_stats();
+			const kills = [...this.processes].map((child) => this.#create_kill(child, stats));
+
 			if (graceful_timeout_ms != null && graceful_timeout_ms > 0) {
 				// Attempt graceful shutdown with SIGTERM first
-				for (const child of this.processes) {
-					child.kill('SIGTERM');
+				for (const kill of kills) {
+					kill('SIGTERM');
 				}
 				// Busy-wait (blocking) - only option in sync handler.
 				// Warning: This will peg the CPU during the wait period.
@@ -450,8 +1219,8 @@ export class ProcessRegistry {
 			}
 
 			// Force kill all (including any that survived SIGTERM)
-			for (const child of this.processes) {
-				child.kill('SIGKILL');
+			for (const kill of kills) {
+				kill('SIGKILL');
 			}
 			this.processes.clear();
 			handle_error(err, origin);
@@ -484,7 +1253,7 @@ export const process_registry_default = new ProcessRegistry();
 
 /**
  * Spawns a process with graceful shutdown behavior.
- * Returns a handle with access to the `child` process and `closed` promise.
+ * Returns a handle with access to the `child` process and `closed` and `ready` promises.
  *
  * @example
  * ```ts
@@ -493,6 +1262,15 @@ export const process_registry_default = new ProcessRegistry();
  * child.kill();
  * const result = await closed;
  * ```
+ *
+ * @example Wait until ready
+ * ```ts
+ * const {child, ready} = spawn_process('node', ['server.js'], {
+ *   ready: {type: 'port', port: 3000, timeout_ms: 10_000},
+ * });
+ * const ready_result = await ready;
+ * if (!ready_result.ok) throw ready_result.error; // Process not ready after 10000ms waiting for port localhost:3000: node server.js
+ * ```
  */
 export const spawn_process = (
 	command: string,
@@ -531,6 +1309,68 @@ export const spawn_out = (
 	options?: SpawnProcessOptions,
 ): Promise<SpawnedOut> => process_registry_default.spawn_out(command, args, options);
 
+/**
+ * Spawns commands connected by pipes and captures the output of the last stage.
+ *
+ * @see ProcessRegistry.spawn_pipeline
+ *
+ * @example
+ * ```ts
+ * // git log --oneline | grep fix | wc -l
+ * const {ok, stdout} = await spawn_pipeline([
+ *   {command: 'git', args: ['log', '--oneline']},
+ *   {command: 'grep', args: ['fix']},
+ *   {command: 'wc', args: ['-l']},
+ * ]);
+ * ```
+ */
+export const spawn_pipeline = (
+	stages: ReadonlyArray<SpawnPipelineStage>,
+	options?: SpawnPipelineOptions,
+): Promise<SpawnedPipeline> => process_registry_default.spawn_pipeline(stages, options);
+
+/**
+ * Spawns a process and reads its output line by line as it runs.
+ *
+ * @see ProcessRegistry.spawn_lines
+ *
+ * @example
+ * ```ts
+ * const spawned = spawn_lines('npm', ['run', 'build'], {label: 'build'});
+ * for await (const line of spawned) {
+ *   console.log(print_spawn_line(line)); // [build] vite v6.0.0 building for production...
+ * }
+ * const result = await spawned.closed;
+ * ```
+ *
+ * @example Forward to a logger
+ * ```ts
+ * const {closed} = spawn_lines('npm', ['run', 'dev'], {log: new Logger('dev')});
+ * ```
+ */
+export const spawn_lines = (
+	command: string,
+	args: ReadonlyArray<string> = [],
+	options?: SpawnLinesOptions,
+): SpawnedLines => process_registry_default.spawn_lines(command, args, options);
+
+/**
+ * Spawns a process in the default registry and restarts it according to a restart policy.
+ *
+ * @see ProcessRegistry.supervise
+ *
+ * @example
+ * ```ts
+ * const supervisor = spawn_supervised_process('node', ['server.js'], {max_restarts: 3});
+ * const result = await supervisor.closed; // after 3 quick crashes
+ * ```
+ */
+export const spawn_supervised_process = (
+	command: string,
+	args: ReadonlyArray<string> = [],
+	options?: ProcessSupervisorOptions,
+): ProcessSupervisor => process_registry_default.supervise(command, args, options);
+
 /**
  * Kills a child process and returns the result.
  *
@@ -621,6 +1461,14 @@ export const spawn_detached = (
 export const print_child_process = (child: ChildProcess): string =>
 	`${st('gray', 'pid(')}${child.pid ?? 'none'}${st('gray', ')')} ← ${st('green', child.spawnargs.join(' '))}`;
 
+/**
+ * Formats a line of `spawn_lines` for display, prefixed with its label if any.
+ *
+ * @example `[build] done in 1.2s`
+ */
+export const print_spawn_line = (line: SpawnLine): string =>
+	line.label === null ? line.text : `${st('gray', `[${line.label}]`)} ${line.text}`;
+
 /**
  * Formats a spawn result for display.
  * Returns `'ok'` for success, or the error/signal/code for failures.
@@ -674,7 +1522,7 @@ export interface RestartableProcess {
 	 * Promise that resolves when the initial `spawn_process()` call completes.
 	 *
 	 * Note: This resolves when the spawn syscall returns, NOT when the process
-	 * is "ready" or has produced output. For commands that fail immediately
+	 * is "ready" or has produced output, see `ready`. For commands that fail immediately
 	 * (e.g., ENOENT), `spawned` still resolves - check `closed` for errors.
 	 *
 	 * @example
@@ -684,6 +1532,19 @@ export interface RestartableProcess {
 	 * ```
 	 */
 	readonly spawned: Promise<void>;
+	/**
+	 * Promise that resolves when the current process passes or fails the `ready` probe,
+	 * immediately if there's no probe. Resets on restart like `closed`.
+	 *
+	 * @example
+	 * ```ts
+	 * const rp = spawn_restartable_process('node', ['server.js'], {
+	 *   ready: {type: 'output', pattern: /listening on/},
+	 * });
+	 * await rp.ready;
+	 * ```
+	 */
+	readonly ready: Promise<SpawnReadyResult>;
 }
 
 /**
@@ -693,6 +1554,7 @@ export interface RestartableProcess {
  * Note: The `signal` and `timeout_ms` options are reapplied on each restart.
  * If the AbortSignal is already aborted when `restart()` is called, the new
  * process will be killed immediately.
+ * For restart policies with backoff, see `spawn_supervised_process`.
  *
  * @example Simple restart on crash
  * ```ts
@@ -704,19 +1566,6 @@ export interface RestartableProcess {
  *   await rp.restart();
  * }
  * ```
- *
- * @example Restart with backoff
- * ```ts
- * const rp = spawn_restartable_process('node', ['server.js']);
- * let failures = 0;
- *
- * while (rp.active) {
- *   const result = await rp.closed;
- *   if (result.ok || ++failures > 5) break;
- *   await new Promise((r) => setTimeout(r, 1000 * failures));
- *   await rp.restart();
- * }
- * ```
  */
 export const spawn_restartable_process = (
 	command: string,
@@ -734,6 +1583,12 @@ export const spawn_restartable_process = (
 		closed_promise = new Promise((r) => (resolve_closed = r));
 	};
 	reset_closed_promise();
+	let ready_promise: Promise<SpawnReadyResult>;
+	let resolve_ready: (result: SpawnReadyResult) => void;
+	const reset_ready_promise = (): void => {
+		ready_promise = new Promise((r) => (resolve_ready = r));
+	};
+	reset_ready_promise();
 
 	// Resolve when first spawn completes to avoid race conditions
 	let resolve_spawned: () => void;
@@ -753,18 +1608,22 @@ export const spawn_restartable_process = (
 		if (pending_kill) await pending_kill;
 		if (pending_close) await pending_close;
 		if (spawned_process) await do_close();
-		spawned_process = spawn_process(command, args, {stdio: 'inherit', ...options});
-		// Forward the spawned process's closed promise to our exposed one
+		spawned_process = spawn_process(command, args, options);
+		// Forward the spawned process's promises to our exposed ones
 		void spawned_process.closed.then((result) => {
 			resolve_closed(result);
 		});
+		void spawned_process.ready.then((result) => {
+			resolve_ready(result);
+		});
 	};
 
 	// Coalesce concurrent restart calls - multiple calls share one restart
 	const restart = (): Promise<void> => {
 		if (!pending_restart) {
-			// Reset the closed promise for the new process
+			// Reset the promises for the new process
 			reset_closed_promise();
+			reset_ready_promise();
 			pending_restart = do_restart().finally(() => {
 				pending_restart = null;
 			});
@@ -806,13 +1665,332 @@ export const spawn_restartable_process = (
 		get spawned() {
 			return spawned;
 		},
+		get ready() {
+			return ready_promise;
+		},
 	};
 };
 
+//
+// Process Supervisor
+//
+
+/**
+ * When a supervised process is restarted after it exits.
+ * - `always` - after any exit, including clean exits
+ * - `on-failure` - after errors, non-zero exit codes, and signals
+ * - `never` - the process runs once
+ */
+export type ProcessRestartPolicy = 'always' | 'on-failure' | 'never';
+
+/**
+ * Options for supervising processes, see `ProcessRegistry.supervise`.
+ * The spawn options, including `signal` and `timeout_ms`, are reapplied on each restart.
+ * Aborting `signal` stops the supervisor.
+ */
+export interface ProcessSupervisorOptions extends SpawnProcessOptions {
+	/**
+	 * When to restart the process.
+	 * @default 'on-failure'
+	 */
+	restart?: ProcessRestartPolicy;
+	/**
+	 * Maximum number of restarts within `restart_window_ms` before giving up.
+	 * @default 5
+	 */
+	max_restarts?: number;
+	/**
+	 * Window in ms for counting restarts toward `max_restarts`.
+	 * @default 60_000
+	 */
+	restart_window_ms?: number;
+	/**
+	 * Delay in ms before the first restart in the window, multiplied by `backoff_factor` for each restart after it.
+	 * @default 100
+	 */
+	backoff_initial_ms?: number;
+	/**
+	 * Maximum delay in ms before a restart.
+	 * @default 30_000
+	 */
+	backoff_max_ms?: number;
+	/**
+	 * @default 2
+	 */
+	backoff_factor?: number;
+	/**
+	 * Random variation of the delay as a ratio, 0.2 varies delays by up to 20% in either direction.
+	 * @default 0.2
+	 */
+	jitter?: number;
+	/**
+	 * Random number generator for jitter, useful for testing.
+	 * @default Math.random
+	 */
+	random?: () => number;
+	/**
+	 * Called on lifecycle events, see `ProcessSupervisorEvent`.
+	 */
+	on_event?: (event: ProcessSupervisorEvent) => void;
+}
+
+/**
+ * Lifecycle state of a `ProcessSupervisor`.
+ * - `idle` - not started
+ * - `running` - the process is running
+ * - `backoff` - waiting to restart the process
+ * - `stopped` - stopped by `stop`, the signal, or a clean exit without restart
+ * - `failed` - the process failed without restart, or restarted too often
+ */
+export type ProcessSupervisorState = 'idle' | 'running' | 'backoff' | 'stopped' | 'failed';
+
+/**
+ * Lifecycle events of a `ProcessSupervisor`.
+ */
+export type ProcessSupervisorEvent =
+	| {type: 'spawn'; child: ChildProcess; restart_count: number}
+	| {type: 'exit'; result: SpawnResult}
+	| {type: 'restart'; delay_ms: number; restart_count: number}
+	| {type: 'give_up'; result: SpawnResult; restart_count: number}
+	| {type: 'stop'};
+
+/**
+ * Snapshot of the health of a `ProcessSupervisor`.
+ */
+export interface ProcessSupervisorHealth {
+	state: ProcessSupervisorState;
+	/** True while the process is running */
+	healthy: boolean;
+	/** Total number of restarts */
+	restart_count: number;
+	/** Number of restarts within `restart_window_ms`, counted toward `max_restarts` */
+	recent_restart_count: number;
+	/** Result of the last exit, or null if the process hasn't exited */
+	last_result: SpawnResult | null;
+	/** Time in ms the current process has been running, or null if not running */
+	uptime_ms: number | null;
+}
+
+/**
+ * Keeps a process running with a restart policy,
+ * restarting it with exponential backoff and jitter until it restarts too often.
+ * Create with `ProcessRegistry.supervise` or `spawn_supervised_process`.
+ *
+ * @example
+ * ```ts
+ * const supervisor = spawn_supervised_process('node', ['server.js'], {
+ *   restart: 'always',
+ *   on_event: (event) => {
+ *     if (event.type === 'give_up') console.error('server keeps crashing');
+ *   },
+ * });
+ * // Later...
+ * await supervisor.stop({timeout_ms: 5000});
+ * ```
+ */
+export class ProcessSupervisor {
+	readonly command: string;
+	readonly args: ReadonlyArray<string>;
+	readonly registry: ProcessRegistry;
+
+	/** Resolves with the last result when the supervisor stops or fails, null if never spawned */
+	readonly closed: Promise<SpawnResult | null>;
+
+	#options: ProcessSupervisorOptions;
+	#resolve_closed!: (result: SpawnResult | null) => void;
+	#state: ProcessSupervisorState = 'idle';
+	#child: ChildProcess | null = null;
+	#started_at: number | null = null;
+	#last_result: SpawnResult | null = null;
+	#restart_count = 0;
+	#restart_times: Array<number> = [];
+	#stopping = false;
+	#cancel_backoff: (() => void) | null = null;
+	#running: Promise<void> | null = null;
+	#cleanup_abort: (() => void) | null = null;
+
+	constructor(
+		command: string,
+		args: ReadonlyArray<string> = [],
+		options: ProcessSupervisorOptions = {},
+		registry: ProcessRegistry = process_registry_default,
+	) {
+		validate_timeout_ms(options.timeout_ms);
+		this.command = command;
+		this.args = args;
+		this.registry = registry;
+		this.#options = options;
+		this.closed = new Promise((r) => (this.#resolve_closed = r));
+	}
+
+	get state(): ProcessSupervisorState {
+		return this.#state;
+	}
+
+	/** The current child process, or null if not running */
+	get child(): ChildProcess | null {
+		return this.#child;
+	}
+
+	get health(): ProcessSupervisorHealth {
+		return {
+			state: this.#state,
+			healthy: this.#state === 'running',
+			restart_count: this.#restart_count,
+			recent_restart_count: this.#prune_restart_times(Date.now()),
+			last_result: this.#last_result,
+			uptime_ms: this.#started_at === null ? null : Date.now() - this.#started_at,
+		};
+	}
+
+	/**
+	 * Spawns the process and starts supervising it. Does nothing if already started.
+	 */
+	start(): void {
+		if (this.#running || this.#stopping) return;
+		const {signal} = this.#options;
+		if (signal) {
+			if (signal.aborted) {
+				this.#stopping = true;
+				this.#finish('stopped');
+				return;
+			}
+			const on_abort = () => void this.stop();
+			signal.addEventListener('abort', on_abort, {once: true});
+			this.#cleanup_abort = () => signal.removeEventListener('abort', on_abort);
+		}
+		this.#running = this.#run();
+	}
+
+	/**
+	 * Stops restarting and kills the current process, if any.
+	 *
+	 * @param options - Kill options for the current process
+	 */
+	async stop(options?: DespawnOptions): Promise<void> {
+		this.#stopping = true;
+		this.#cancel_backoff?.();
+		if (this.#child) {
+			await this.registry.despawn(this.#child, options);
+		}
+		if (this.#running) {
+			await this.#running;
+		} else {
+			this.#finish('stopped');
+		}
+	}
+
+	async #run(): Promise<void> {
+		const {
+			restart = 'on-failure',
+			max_restarts = 5,
+			restart_window_ms = 60_000,
+			backoff_initial_ms = 100,
+			backoff_max_ms = 30_000,
+			backoff_factor = 2,
+			jitter = 0.2,
+			random = Math.random,
+			on_event,
+			signal,
+			...spawn_options
+		} = this.#options;
+
+		for (;;) {
+			const {child, closed} = this.registry.spawn(this.command, this.args, {
+				...spawn_options,
+				signal,
+			});
+			this.#child = child;
+			this.#started_at = Date.now();
+			this.#state = 'running';
+			on_event?.({type: 'spawn', child, restart_count: this.#restart_count});
+
+			const result = await closed; // eslint-disable-line no-await-in-loop
+			this.#child = null;
+			this.#started_at = null;
+			this.#last_result = result;
+			on_event?.({type: 'exit', result});
+
+			if (this.#stopping || signal?.aborted) break;
+			if (restart === 'never' || (restart === 'on-failure' && result.ok)) {
+				this.#finish(result.ok ? 'stopped' : 'failed');
+				return;
+			}
+
+			const recent_restart_count = this.#prune_restart_times(Date.now(), restart_window_ms);
+			if (recent_restart_count >= max_restarts) {
+				log.debug(
+					`giving up after ${recent_restart_count} restarts`,
+					print_child_process(result.child),
+					spawn_result_to_message(result),
+				);
+				on_event?.({type: 'give_up', result, restart_count: this.#restart_count});
+				this.#finish('failed');
+				return;
+			}
+
+			const base_ms = Math.min(
+				backoff_max_ms,
+				backoff_initial_ms * backoff_factor ** recent_restart_count,
+			);
+			const delay_ms = Math.max(0, Math.round(base_ms * (1 + jitter * (random() * 2 - 1))));
+			this.#restart_times.push(Date.now());
+			this.#restart_count++;
+			this.#state = 'backoff';
+			on_event?.({type: 'restart', delay_ms, restart_count: this.#restart_count});
+
+			const cancelled = await this.#wait(delay_ms); // eslint-disable-line no-await-in-loop
+			if (cancelled) break;
+		}
+		this.#finish('stopped');
+	}
+
+	// Waits for the backoff delay, resolving early with true when stopped
+	#wait(delay_ms: number): Promise<boolean> {
+		return new Promise<boolean>((resolve) => {
+			const timeout_id = setTimeout(() => resolve(false), delay_ms);
+			this.#cancel_backoff = () => {
+				clearTimeout(timeout_id);
+				resolve(true);
+			};
+		}).finally(() => {
+			this.#cancel_backoff = null;
+		});
+	}
+
+	// Removes restarts outside the window and returns the number of remaining restarts
+	#prune_restart_times(
+		now: number,
+		restart_window_ms = this.#options.restart_window_ms ?? 60_000,
+	): number {
+		while (this.#restart_times.length > 0 && now - this.#restart_times[0]! >= restart_window_ms) {
+			this.#restart_times.shift();
+		}
+		return this.#restart_times.length;
+	}
+
+	#finish(state: 'stopped' | 'failed'): void {
+		this.#cleanup_abort?.();
+		this.#state = state;
+		if (state === 'stopped') this.#options.on_event?.({type: 'stop'});
+		this.#resolve_closed(this.#last_result);
+	}
+}
+
 //
 // Utility Functions
 //
 
+/**
+ * Gets the PIDs of the running descendants of a process, breadth-first.
+ * Linux only, reading `/proc`, returns an empty array on other platforms.
+ *
+ * @param pid - The process ID of the root, which is not included
+ * @returns PIDs of children, grandchildren, and so on, excluding zombies
+ */
+export const process_get_descendants = (pid: number): Array<number> =>
+	get_proc_descendants(read_proc_stats(), pid).map((stat) => stat.pid);
+
 /**
  * Checks if a process with the given PID is running.
  * Uses signal 0 which checks existence without sending a signal.
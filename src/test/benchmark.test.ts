@@ -1088,3 +1088,371 @@ test('Benchmark: markdown with groups uses baseline', async ({expect}) => {
 	expect(markdown).toContain('### Format');
 	expect(markdown).toContain('vs format/prettier');
 });
+
+test('Benchmark: add_params generates one result per param', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 10,
+		min_iterations: 3,
+		warmup_iterations: 1,
+		cooldown_ms: 0,
+	});
+
+	const received: Array<number> = [];
+	bench.add_params({
+		name: 'sum',
+		params: [10, 100, 1000],
+		fn: (n) => {
+			received.push(n);
+		},
+	});
+
+	const results = await bench.run();
+
+	expect(results.map((r) => r.name)).toEqual(['sum/10', 'sum/100', 'sum/1000']);
+	expect(results[0]!.param).toEqual({task: 'sum', label: '10', size: 10});
+	expect(results[2]!.param).toEqual({task: 'sum', label: '1000', size: 1000});
+	expect(received).toContain(10);
+	expect(received).toContain(1000);
+});
+
+test('Benchmark: add_params passes param to setup and teardown', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 10,
+		min_iterations: 3,
+		warmup_iterations: 1,
+		cooldown_ms: 0,
+	});
+
+	const setups: Array<number> = [];
+	const teardowns: Array<number> = [];
+	let items: Array<number> = [];
+	bench.add_params({
+		name: 'reduce',
+		params: [5, 50],
+		setup: (n) => {
+			setups.push(n);
+			items = Array.from({length: n}, (_, i) => i);
+		},
+		teardown: (n) => {
+			teardowns.push(n);
+		},
+		fn: () => items.reduce((a, b) => a + b, 0),
+	});
+
+	await bench.run();
+
+	expect(setups).toEqual([5, 50]);
+	expect(teardowns).toEqual([5, 50]);
+});
+
+test('Benchmark: add_params with custom label and size', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 10,
+		min_iterations: 3,
+		warmup_iterations: 1,
+		cooldown_ms: 0,
+	});
+
+	bench.add_params({
+		name: 'join',
+		params: [{items: ['a']}, {items: ['a', 'b', 'c']}],
+		label: (p) => `${p.items.length} items`,
+		size: (p) => p.items.length,
+		fn: (p) => p.items.join(','),
+	});
+
+	const results = await bench.run();
+
+	expect(results.map((r) => r.name)).toEqual(['join/1 items', 'join/3 items']);
+	expect(results[1]!.param).toEqual({task: 'join', label: '3 items', size: 3});
+});
+
+test('Benchmark: add_params throws for non-primitive params without label', ({expect}) => {
+	const bench = new Benchmark();
+
+	expect(() => bench.add_params({name: 'objects', params: [{}], fn: () => {}})).toThrow(
+		'Task "objects" requires a label function for non-primitive params',
+	);
+});
+
+test('Benchmark: add_params throws for empty params', ({expect}) => {
+	const bench = new Benchmark();
+
+	expect(() => bench.add_params({name: 'empty', params: [], fn: () => {}})).toThrow(
+		'Task "empty" requires at least one param',
+	);
+});
+
+test('Benchmark: add_params throws on duplicate generated names', ({expect}) => {
+	const bench = new Benchmark();
+
+	bench.add('sum/10', () => {});
+
+	expect(() => bench.add_params({name: 'sum', params: [10], fn: () => {}})).toThrow(
+		'Task "sum/10" already exists',
+	);
+	expect(() => bench.add_params({name: 'dupes', params: [1, 1], fn: () => {}})).toThrow(
+		'Task "dupes/1" already exists',
+	);
+});
+
+test('Benchmark: skip, only, and remove target all params by task name', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 10,
+		min_iterations: 3,
+		warmup_iterations: 1,
+		cooldown_ms: 0,
+	});
+
+	bench.add('plain', () => {});
+	bench.add_params({name: 'a', params: [1, 2], fn: () => {}});
+	bench.add_params({name: 'b', params: [1, 2], fn: () => {}});
+
+	bench.only('a');
+	let results = await bench.run();
+	expect(results.map((r) => r.name)).toEqual(['a/1', 'a/2']);
+
+	bench.remove('a');
+	bench.skip('b/1');
+	results = await bench.run();
+	expect(results.map((r) => r.name)).toEqual(['plain', 'b/2']);
+});
+
+test('Benchmark: table() and markdown() with scaling', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 10,
+		min_iterations: 3,
+		warmup_iterations: 1,
+		cooldown_ms: 0,
+	});
+
+	bench.add_params({name: 'sum', params: [10, 100], fn: () => {}});
+
+	await bench.run();
+
+	const table = bench.table({scaling: true});
+	expect(table).toContain('sum');
+	expect(table).toContain('Complexity');
+	expect(table).not.toContain('sum/10');
+
+	const markdown = bench.markdown({scaling: true});
+	expect(markdown).toContain('| Task Name');
+	expect(markdown).toContain('Complexity');
+});
+
+test('Benchmark: memory measurement reports allocations per op', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 50,
+		min_iterations: 300,
+		warmup_iterations: 2,
+		cooldown_ms: 0,
+		memory: true,
+	});
+
+	let sink: Array<number> = [];
+	bench.add('allocating', () => {
+		sink = new Array(1000).fill(0);
+	});
+
+	const results = await bench.run();
+	const {stats} = results[0]!;
+
+	// 1000 numbers take at least 4 bytes each
+	expect(stats.allocated_bytes_per_op).toBeGreaterThan(4000);
+	if (globalThis.gc) {
+		expect(stats.retained_bytes).toBeTypeOf('number');
+	} else {
+		expect(stats.retained_bytes).toBeNull();
+	}
+	expect(bench.table()).toContain('alloc/op');
+	expect(sink).toHaveLength(1000);
+});
+
+test('Benchmark: memory stats are null when disabled', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 10,
+		min_iterations: 3,
+		warmup_iterations: 1,
+	});
+
+	bench.add('test', () => 1 + 1);
+
+	const results = await bench.run();
+
+	expect(results[0]!.stats.allocated_bytes_per_op).toBeNull();
+	expect(results[0]!.stats.retained_bytes).toBeNull();
+	expect(bench.table()).not.toContain('alloc/op');
+});
+
+test('Benchmark: batch defaults to 1', async ({expect}) => {
+	const bench = new Benchmark({duration_ms: 5, min_iterations: 3, warmup_iterations: 1});
+	bench.add('test', () => 1 + 1);
+
+	const results = await bench.run();
+
+	expect(results[0]!.batch_size).toBe(1);
+});
+
+test('Benchmark: fixed batch runs fn batch times per sample', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 1000,
+		min_iterations: 5,
+		max_iterations: 5,
+		warmup_iterations: 2,
+		cooldown_ms: 0,
+		batch: 10,
+	});
+
+	let calls = 0;
+	bench.add('counted', () => {
+		calls++;
+	});
+
+	const results = await bench.run();
+	const result = results[0]!;
+
+	expect(result.batch_size).toBe(10);
+	expect(result.iterations).toBe(5);
+	expect(result.timings_ns).toHaveLength(5);
+	expect(calls).toBe(2 + 5 * 10);
+});
+
+test('Benchmark: batch auto calibrates for fast functions', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 50,
+		min_iterations: 10,
+		warmup_iterations: 5,
+		cooldown_ms: 0,
+		batch: 'auto',
+	});
+
+	let sink = 0;
+	bench.add('trivial', () => {
+		sink += 1;
+	});
+	bench.add('slow', () => new Promise((resolve) => setTimeout(resolve, 2)));
+
+	const results = await bench.run();
+	const trivial = results.find((r) => r.name === 'trivial')!;
+	const slow = results.find((r) => r.name === 'slow')!;
+
+	expect(trivial.batch_size).toBeGreaterThan(1);
+	// Timings are per op, far below a full batch
+	expect(trivial.stats.p50_ns).toBeLessThan(10_000);
+	expect(slow.batch_size).toBe(1);
+	expect(sink).toBeGreaterThan(0);
+});
+
+test('Benchmark: batch auto works for async tasks', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 20,
+		min_iterations: 5,
+		warmup_iterations: 2,
+		cooldown_ms: 0,
+		batch: 'auto',
+	});
+
+	bench.add('async', () => Promise.resolve(1));
+
+	const results = await bench.run();
+
+	expect(results[0]!.batch_size).toBeGreaterThanOrEqual(1);
+	expect(results[0]!.stats.p50_ns).toBeGreaterThan(0);
+});
+
+test('Benchmark: validates batch', ({expect}) => {
+	expect(() => new Benchmark({batch: 0})).toThrow("batch must be 'auto' or a positive integer");
+	expect(() => new Benchmark({batch: 1.5})).toThrow("batch must be 'auto' or a positive integer");
+	expect(() => new Benchmark({batch: 'auto'})).not.toThrow();
+});
+
+test('Benchmark: convergence stops stable tasks early', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 10,
+		min_iterations: 10,
+		warmup_iterations: 2,
+		cooldown_ms: 0,
+		// Loose target so a stable task converges quickly
+		convergence: {target_relative_ci: 0.5, max_duration_ms: 5_000},
+	});
+
+	bench.add('stable', () => new Promise((resolve) => setTimeout(resolve, 1)));
+
+	const results = await bench.run();
+	const result = results[0]!;
+
+	expect(result.converged).toBe(true);
+	// Converges long before the max duration
+	expect(result.total_time_ms).toBeLessThan(5_000);
+	// Never before the minimum samples needed for the normal approximation
+	expect(result.iterations).toBeGreaterThanOrEqual(30);
+	expect(JSON.parse(bench.json())[0].converged).toBe(true);
+});
+
+test('Benchmark: convergence reports unconverged tasks at the ceiling', async ({expect}) => {
+	const bench = new Benchmark({
+		min_iterations: 5,
+		max_iterations: 20,
+		warmup_iterations: 1,
+		cooldown_ms: 0,
+		convergence: {target_relative_ci: 0.000001},
+	});
+
+	bench.add('test', () => 1 + 1);
+
+	const results = await bench.run();
+
+	expect(results[0]!.converged).toBe(false);
+	expect(results[0]!.iterations).toBe(20);
+});
+
+test('Benchmark: convergence ignores duration_ms for max_duration_ms', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 100_000,
+		min_iterations: 1,
+		warmup_iterations: 1,
+		cooldown_ms: 0,
+		convergence: {target_relative_ci: 0.000001, max_duration_ms: 20},
+	});
+
+	bench.add('noisy', () => new Promise((resolve) => setTimeout(resolve, Math.random() * 2)));
+
+	const results = await bench.run();
+
+	expect(results[0]!.converged).toBe(false);
+	expect(results[0]!.total_time_ms).toBeLessThan(5_000);
+});
+
+test('Benchmark: converged is absent without convergence', async ({expect}) => {
+	const bench = new Benchmark({duration_ms: 5, min_iterations: 3, warmup_iterations: 1});
+	bench.add('test', () => 1 + 1);
+
+	const results = await bench.run();
+
+	expect(results[0]!.converged).toBeUndefined();
+	expect(bench.json()).not.toContain('converged');
+});
+
+test('Benchmark: validates convergence options', ({expect}) => {
+	expect(() => new Benchmark({convergence: {target_relative_ci: 0}})).toThrow(
+		'convergence.target_relative_ci must be positive',
+	);
+	expect(() => new Benchmark({convergence: {max_duration_ms: -1}})).toThrow(
+		'convergence.max_duration_ms must be positive',
+	);
+	expect(() => new Benchmark({convergence: {confidence_level: 1}})).toThrow(
+		'convergence.confidence_level must be between 0 and 1',
+	);
+	expect(() => new Benchmark({convergence: {}})).not.toThrow();
+});
+
+test('Benchmark: task_names lists tasks in order', ({expect}) => {
+	const bench = new Benchmark();
+	bench.add('a', () => {});
+	bench.add_params({name: 'b', params: [1, 2], fn: () => {}});
+	bench.add('c', () => {}).skip('c');
+
+	expect(bench.task_names).toEqual(['a', 'b/1', 'b/2', 'c']);
+	bench.remove('a');
+	expect(bench.task_names).toEqual(['b/1', 'b/2', 'c']);
+});
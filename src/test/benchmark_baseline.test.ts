@@ -11,6 +11,8 @@ import {
 	benchmark_baseline_format_json,
 } from '$lib/benchmark_baseline.js';
 import {Benchmark} from '$lib/benchmark.js';
+import {BenchmarkStats} from '$lib/benchmark_stats.js';
+import type {BenchmarkResult} from '$lib/benchmark_types.js';
 
 // Use a unique temp directory for each test run
 const test_dir = join(tmpdir(), `benchmark_baseline_test_${Date.now()}`);
@@ -46,6 +48,66 @@ test('benchmark_baseline_save and benchmark_baseline_load: roundtrip', async ({e
 	expect(loaded!.timestamp).toBeTruthy();
 });
 
+test('benchmark_baseline_save and benchmark_baseline_load: memory stats roundtrip', async ({
+	expect,
+}) => {
+	const bench = new Benchmark({
+		duration_ms: 20,
+		min_iterations: 5,
+		cooldown_ms: 0,
+		memory: true,
+	});
+
+	bench.add('task1', () => new Array(100).fill(0));
+
+	await bench.run();
+
+	await benchmark_baseline_save(bench.results(), {path: test_dir});
+
+	const loaded = await benchmark_baseline_load({path: test_dir});
+	const entry = loaded!.entries[0]!;
+
+	expect(entry.allocated_bytes_per_op).toBe(bench.results()[0]!.stats.allocated_bytes_per_op);
+	expect(entry.retained_bytes).toBe(bench.results()[0]!.stats.retained_bytes);
+});
+
+test('benchmark_baseline_load: defaults memory stats of baselines saved without them', async ({
+	expect,
+}) => {
+	const {writeFile} = await import('node:fs/promises');
+
+	const entry = {
+		name: 'task1',
+		mean_ns: 1000,
+		p50_ns: 1000,
+		std_dev_ns: 100,
+		min_ns: 900,
+		max_ns: 1100,
+		p75_ns: 1050,
+		p90_ns: 1080,
+		p95_ns: 1090,
+		p99_ns: 1095,
+		ops_per_second: 1000000,
+		sample_size: 100,
+	};
+	await writeFile(
+		join(test_dir, 'baseline.json'),
+		JSON.stringify({
+			version: 2,
+			timestamp: '2024-01-15T10:30:00Z',
+			git_commit: null,
+			git_branch: null,
+			node_version: 'v22.0.0',
+			entries: [entry],
+		}),
+		'utf-8',
+	);
+
+	const loaded = await benchmark_baseline_load({path: test_dir});
+
+	expect(loaded!.entries).toEqual([{...entry, allocated_bytes_per_op: null, retained_bytes: null}]);
+});
+
 test('benchmark_baseline_load: returns null when no baseline exists', async ({expect}) => {
 	const loaded = await benchmark_baseline_load({path: test_dir});
 	expect(loaded).toBeNull();
@@ -149,6 +211,7 @@ test('benchmark_baseline_format: no baseline', ({expect}) => {
 		baseline_commit: null,
 		baseline_age_days: null,
 		baseline_stale: false,
+		correction: 'none' as const,
 		comparisons: [],
 		regressions: [],
 		improvements: [],
@@ -170,6 +233,7 @@ test('benchmark_baseline_format: with results', ({expect}) => {
 		baseline_commit: 'abc123def456',
 		baseline_age_days: 5.5,
 		baseline_stale: false,
+		correction: 'none' as const,
 		comparisons: [],
 		regressions: [
 			{
@@ -187,6 +251,8 @@ test('benchmark_baseline_format: with results', ({expect}) => {
 					p99_ns: 1095,
 					ops_per_second: 1000000,
 					sample_size: 100,
+					allocated_bytes_per_op: null,
+					retained_bytes: null,
 				},
 				current: {
 					name: 'slow_task',
@@ -201,17 +267,22 @@ test('benchmark_baseline_format: with results', ({expect}) => {
 					p99_ns: 2095,
 					ops_per_second: 500000,
 					sample_size: 100,
+					allocated_bytes_per_op: null,
+					retained_bytes: null,
 				},
 				comparison: {
 					faster: 'a' as const,
 					speedup_ratio: 2.0,
 					significant: true,
 					p_value: 0.001,
+					method: 'welch' as const,
+					median_difference_ci_ns: null,
 					effect_size: 5.0,
 					effect_magnitude: 'large' as const,
 					ci_overlap: false,
 					recommendation: 'Regression detected',
 				},
+				adjusted_p_value: 0.001,
 			},
 		],
 		improvements: [],
@@ -316,6 +387,69 @@ test('benchmark_baseline_compare: comparison result structure', async ({expect})
 	expect(task_comparison.comparison.significant).toBeDefined();
 });
 
+// Deterministic results with the same spread, shifted by `shift_ns` per task
+const create_shifted_results = (shifts_ns: Record<string, number>): Array<BenchmarkResult> =>
+	Object.entries(shifts_ns).map(([name, shift_ns]) => {
+		const timings_ns = Array.from({length: 30}, (_, i) => 1000 + shift_ns + (i % 10) * 10);
+		return {
+			name,
+			iterations: timings_ns.length,
+			batch_size: 1,
+			total_time_ms: 1,
+			timings_ns,
+			stats: new BenchmarkStats(timings_ns),
+		};
+	});
+
+test('benchmark_baseline_compare: correction for multiple comparisons', async ({expect}) => {
+	const tasks = ['clear', 'marginal', ...Array.from({length: 22}, (_, i) => `same${i}`)];
+	const baseline = create_shifted_results(Object.fromEntries(tasks.map((name) => [name, 0])));
+	await benchmark_baseline_save(baseline, {path: test_dir, git_commit: null, git_branch: null});
+	const current = create_shifted_results({
+		...Object.fromEntries(tasks.map((name) => [name, 0])),
+		clear: 200,
+		marginal: 13,
+	});
+
+	// The marginal slowdown is significant alone but not after correcting for 24 tasks
+	const uncorrected = await benchmark_baseline_compare(current, {path: test_dir});
+	expect(uncorrected.correction).toBe('none');
+	expect(uncorrected.regressions.map((r) => r.name).sort()).toEqual(['clear', 'marginal']);
+	for (const c of uncorrected.comparisons) {
+		expect(c.adjusted_p_value).toBe(c.comparison.p_value);
+	}
+
+	for (const correction of ['holm', 'benjamini_hochberg'] as const) {
+		const corrected = await benchmark_baseline_compare(current, {path: test_dir, correction}); // eslint-disable-line no-await-in-loop
+		expect(corrected.correction).toBe(correction);
+		expect(corrected.regressions.map((r) => r.name)).toEqual(['clear']);
+		const marginal = corrected.comparisons.find((c) => c.name === 'marginal')!;
+		expect(marginal.comparison.p_value).toBeLessThan(0.05);
+		expect(marginal.adjusted_p_value).toBeGreaterThanOrEqual(0.05);
+		expect(corrected.unchanged.map((r) => r.name)).toContain('marginal');
+	}
+
+	// A looser alpha lets the marginal task through again
+	const loose = await benchmark_baseline_compare(current, {
+		path: test_dir,
+		correction: 'benjamini_hochberg',
+		alpha: 0.2,
+	});
+	expect(loose.regressions.map((r) => r.name).sort()).toEqual(['clear', 'marginal']);
+
+	const formatted = benchmark_baseline_format(
+		await benchmark_baseline_compare(current, {path: test_dir, correction: 'holm'}),
+	);
+	expect(formatted).toContain('P-values adjusted with Holm-Bonferroni correction');
+	expect(formatted).toMatch(/clear: [\d.]+x slower \(p=[\d.]+, adjusted p=[\d.]+, large\)/);
+	expect(benchmark_baseline_format(uncorrected)).not.toContain('adjusted');
+
+	const json = JSON.parse(benchmark_baseline_format_json(loose));
+	expect(json.correction).toBe('benjamini_hochberg');
+	const marginal_json = json.regressions.find((r: {name: string}) => r.name === 'marginal');
+	expect(marginal_json.adjusted_p_value).toBeGreaterThan(marginal_json.p_value);
+});
+
 test('benchmark_baseline_compare: baseline_age_days is calculated', async ({expect}) => {
 	const bench = new Benchmark({
 		duration_ms: 50,
@@ -377,6 +511,7 @@ test('benchmark_baseline_format: stale baseline shows warning', ({expect}) => {
 		baseline_commit: 'abc123def456',
 		baseline_age_days: 30,
 		baseline_stale: true,
+		correction: 'none' as const,
 		comparisons: [],
 		regressions: [],
 		improvements: [],
@@ -398,6 +533,7 @@ test('benchmark_baseline_format_json: produces valid JSON', ({expect}) => {
 		baseline_commit: 'abc123def456',
 		baseline_age_days: 5.5,
 		baseline_stale: false,
+		correction: 'none' as const,
 		comparisons: [],
 		regressions: [
 			{
@@ -415,6 +551,8 @@ test('benchmark_baseline_format_json: produces valid JSON', ({expect}) => {
 					p99_ns: 1095,
 					ops_per_second: 1000000,
 					sample_size: 100,
+					allocated_bytes_per_op: null,
+					retained_bytes: null,
 				},
 				current: {
 					name: 'slow_task',
@@ -429,17 +567,22 @@ test('benchmark_baseline_format_json: produces valid JSON', ({expect}) => {
 					p99_ns: 2095,
 					ops_per_second: 500000,
 					sample_size: 100,
+					allocated_bytes_per_op: null,
+					retained_bytes: null,
 				},
 				comparison: {
 					faster: 'a' as const,
 					speedup_ratio: 2.0,
 					significant: true,
 					p_value: 0.001,
+					method: 'welch' as const,
+					median_difference_ci_ns: null,
 					effect_size: 5.0,
 					effect_magnitude: 'large' as const,
 					ci_overlap: false,
 					recommendation: 'Regression detected',
 				},
+				adjusted_p_value: 0.001,
 			},
 		],
 		improvements: [],
@@ -467,6 +610,7 @@ test('benchmark_baseline_format_json: pretty option', ({expect}) => {
 		baseline_commit: null,
 		baseline_age_days: null,
 		baseline_stale: false,
+		correction: 'none' as const,
 		comparisons: [],
 		regressions: [],
 		improvements: [],
@@ -0,0 +1,163 @@
+import {test, beforeAll, afterAll} from 'vitest';
+import {mkdir, rm, writeFile} from 'node:fs/promises';
+import {join} from 'node:path';
+import {tmpdir} from 'node:os';
+
+import {benchmark_cli_run, type BenchmarkCliOptions} from '$lib/benchmark_cli.js';
+import {benchmark_baseline_load, benchmark_baseline_save} from '$lib/benchmark_baseline.js';
+import {BenchmarkStats} from '$lib/benchmark_stats.js';
+import type {BenchmarkResult} from '$lib/benchmark_types.js';
+
+// Use a unique temp directory for the benchmark files and baselines
+const test_dir = join(tmpdir(), `benchmark_cli_test_${Date.now()}`);
+const files_dir = join(test_dir, 'files');
+
+beforeAll(async () => {
+	await mkdir(join(files_dir, 'nested'), {recursive: true});
+	await mkdir(join(files_dir, 'node_modules'), {recursive: true});
+	await mkdir(join(test_dir, 'bad'), {recursive: true});
+	await writeFile(
+		join(files_dir, 'math.benchmark.mjs'),
+		`export default (bench) => {
+	bench.add('math: add', () => 1 + 1);
+	bench.add('math: multiply', () => 2 * 3);
+};
+`,
+	);
+	await writeFile(
+		join(files_dir, 'nested', 'sleep.benchmark.mjs'),
+		`export default async (bench) => {
+	await null;
+	bench.add('sleep', () => new Promise((resolve) => setTimeout(resolve, 1)));
+};
+`,
+	);
+	await writeFile(
+		join(files_dir, 'node_modules', 'dep.benchmark.mjs'),
+		`export default (bench) => {
+	bench.add('dependency', () => 1);
+};
+`,
+	);
+	await writeFile(join(files_dir, 'not_a_benchmark.mjs'), 'export default () => {};\n');
+	await writeFile(join(test_dir, 'bad', 'bad.benchmark.mjs'), 'export const value = 1;\n');
+});
+
+afterAll(async () => {
+	await rm(test_dir, {recursive: true, force: true});
+});
+
+const run = async (argv: Array<string>, options?: BenchmarkCliOptions) => {
+	const logs: Array<string> = [];
+	const errors: Array<string> = [];
+	const result = await benchmark_cli_run({
+		argv,
+		cwd: test_dir,
+		suffix: '.benchmark.mjs',
+		config: {duration_ms: 5, min_iterations: 3, warmup_iterations: 1, cooldown_ms: 0},
+		log: (message) => logs.push(message),
+		log_error: (message) => errors.push(message),
+		...options,
+	});
+	return {...result, logs: logs.join('\n'), errors: errors.join('\n')};
+};
+
+test('benchmark_cli_run: discovers and runs benchmark files', async ({expect}) => {
+	const {exit_code, results, comparison, logs} = await run(['files']);
+
+	expect(exit_code).toBe(0);
+	expect(results.map((r) => r.name).sort()).toEqual(['math: add', 'math: multiply', 'sleep']);
+	expect(comparison).toBeNull();
+	expect(logs).toContain('math: add');
+	expect(logs).toContain('ops/sec');
+});
+
+test('benchmark_cli_run: filters tasks by name', async ({expect}) => {
+	const {exit_code, results} = await run(['files', '-f', 'math']);
+
+	expect(exit_code).toBe(0);
+	expect(results.map((r) => r.name)).toEqual(['math: add', 'math: multiply']);
+});
+
+test('benchmark_cli_run: fails when no tasks match the filter', async ({expect}) => {
+	const {exit_code, results, errors} = await run(['files', '--filter', 'nothing']);
+
+	expect(exit_code).toBe(1);
+	expect(results).toEqual([]);
+	expect(errors).toContain('No tasks match filter "nothing"');
+});
+
+test('benchmark_cli_run: outputs json', async ({expect}) => {
+	const {logs} = await run(['files', '--filter', 'sleep', '--format', 'json']);
+
+	const parsed = JSON.parse(logs);
+	expect(parsed).toHaveLength(1);
+	expect(parsed[0].name).toBe('sleep');
+});
+
+test('benchmark_cli_run: overrides duration', async ({expect}) => {
+	const {results} = await run(['files', '--filter', 'sleep', '--duration', '50']);
+
+	// A 1ms+ task runs many more than the minimum 3 iterations in 50ms
+	expect(results[0]!.iterations).toBeGreaterThan(3);
+	expect(results[0]!.total_time_ms).toBeGreaterThanOrEqual(50);
+});
+
+test('benchmark_cli_run: saves and compares baselines', async ({expect}) => {
+	const path = join(test_dir, 'baseline_save');
+
+	const saved = await run(['files', '-f', 'math', '--save', '--path', path]);
+	expect(saved.exit_code).toBe(0);
+	expect(saved.logs).toContain(`Baseline saved to ${path}`);
+	const baseline = await benchmark_baseline_load({path});
+	expect(baseline!.entries.map((e) => e.name)).toEqual(['math: add', 'math: multiply']);
+
+	const compared = await run(['files', '-f', 'math', '--compare', '--path', path]);
+	expect(compared.comparison!.baseline_found).toBe(true);
+	expect(compared.logs).toContain('Comparing against baseline');
+});
+
+test('benchmark_cli_run: exits non-zero on regressions', async ({expect}) => {
+	const path = join(test_dir, 'baseline_regression');
+
+	// Save a baseline where the sleep task took 1μs
+	const fast_timings = Array.from({length: 100}, (_, i) => 1000 + (i % 5));
+	const fast: BenchmarkResult = {
+		name: 'sleep',
+		iterations: fast_timings.length,
+		batch_size: 1,
+		total_time_ms: 1,
+		timings_ns: fast_timings,
+		stats: new BenchmarkStats(fast_timings),
+	};
+	await benchmark_baseline_save([fast], {path, git_commit: null, git_branch: null});
+
+	const regressed = await run(['files', '-f', 'sleep', '--compare', '--path', path]);
+	expect(regressed.exit_code).toBe(1);
+	expect(regressed.comparison!.regressions.map((r) => r.name)).toEqual(['sleep']);
+	expect(regressed.errors).toContain('Regressions detected');
+
+	// Saving accepts the regression
+	const accepted = await run(['files', '-f', 'sleep', '--compare', '--save', '--path', path]);
+	expect(accepted.exit_code).toBe(0);
+	expect(accepted.comparison!.regressions).toHaveLength(1);
+});
+
+test('benchmark_cli_run: fails on invalid args', async ({expect}) => {
+	const {exit_code, errors} = await run(['--format', 'xml']);
+
+	expect(exit_code).toBe(1);
+	expect(errors).toContain('Invalid arguments');
+	expect(errors).toContain('format');
+});
+
+test('benchmark_cli_run: fails when no files are found', async ({expect}) => {
+	const {exit_code, errors} = await run(['missing']);
+
+	expect(exit_code).toBe(1);
+	expect(errors).toContain('No .benchmark.mjs files found in missing');
+});
+
+test('benchmark_cli_run: throws for files without a default function', async ({expect}) => {
+	await expect(run(['bad'])).rejects.toThrow('must default-export a function that adds tasks');
+});
@@ -4,13 +4,25 @@ import {
 	benchmark_format_markdown,
 	benchmark_format_table_grouped,
 	benchmark_format_markdown_grouped,
+	benchmark_format_table_scaling,
+	benchmark_format_markdown_scaling,
+	benchmark_format_json,
+	benchmark_format_bytes,
+	benchmark_format_html,
 } from '$lib/benchmark_format.js';
 import type {BenchmarkResult} from '$lib/benchmark_types.js';
+import {BenchmarkStats, benchmark_stats_compare} from '$lib/benchmark_stats.js';
+import type {
+	BenchmarkBaselineComparisonResult,
+	BenchmarkBaselineEntry,
+	BenchmarkBaselineTaskComparison,
+} from '$lib/benchmark_baseline.js';
 
 // Helper to create minimal benchmark results for testing
 const create_result = (name: string, ops_per_second: number): BenchmarkResult => ({
 	name,
 	iterations: 1000,
+	batch_size: 1,
 	total_time_ms: 1000,
 	timings_ns: [],
 	stats: {
@@ -31,6 +43,8 @@ const create_result = (name: string, ops_per_second: number): BenchmarkResult =>
 		sample_size: 1000,
 		raw_sample_size: 1000,
 		failed_iterations: 0,
+		allocated_bytes_per_op: null,
+		retained_bytes: null,
 	},
 });
 
@@ -241,3 +255,325 @@ describe('benchmark_format_markdown_grouped', () => {
 		expect(markdown).toBe('(no results)');
 	});
 });
+
+describe('benchmark_format_table_scaling', () => {
+	const create_param_result = (task: string, size: number, mean_ns: number): BenchmarkResult => ({
+		...create_result(`${task}/${size}`, 1_000_000_000 / mean_ns),
+		param: {task, label: String(size), size},
+	});
+
+	test('renders tasks as rows and params as columns', () => {
+		const results = [
+			create_param_result('linear', 10, 1_000),
+			create_param_result('linear', 100, 10_000),
+			create_param_result('linear', 1000, 100_000),
+			create_param_result('quadratic', 10, 1_000),
+			create_param_result('quadratic', 100, 100_000),
+			create_param_result('quadratic', 1000, 10_000_000),
+		];
+
+		const table = benchmark_format_table_scaling(results);
+		const lines = table.split('\n');
+
+		// Borders, header, separator, and one row per task
+		expect(lines).toHaveLength(6);
+		expect(lines[1]).toContain('Task Name');
+		expect(lines[1]).toContain('10 (');
+		expect(lines[1]).toContain('1000 (');
+		expect(lines[1]).toContain('Complexity');
+		expect(lines[3]).toContain('linear');
+		expect(lines[3]).toContain('O(n^1.00)');
+		expect(lines[4]).toContain('quadratic');
+		expect(lines[4]).toContain('O(n^2.00)');
+
+		// All lines have the same width
+		for (const line of lines) {
+			expect(line.length).toBe(lines[0]!.length);
+		}
+	});
+
+	test('shows placeholders for missing params and unfittable tasks', () => {
+		const results = [
+			create_param_result('a', 10, 1_000),
+			create_param_result('a', 100, 10_000),
+			create_param_result('b', 10, 1_000),
+		];
+
+		const table = benchmark_format_table_scaling(results);
+		const row_b = table.split('\n')[4]!;
+
+		expect(row_b).toContain('b');
+		expect(row_b.split('│').map((c) => c.trim())).toEqual(['', 'b', '1.00', '-', '-', '']);
+	});
+
+	test('ignores results without params', () => {
+		const results = [create_result('plain', 1_000_000), create_param_result('a', 10, 1_000)];
+
+		const table = benchmark_format_table_scaling(results);
+
+		expect(table).not.toContain('plain');
+		expect(table).toContain('a');
+	});
+
+	test('returns placeholder with no parameterized results', () => {
+		expect(benchmark_format_table_scaling([])).toBe('(no results)');
+		expect(benchmark_format_table_scaling([create_result('plain', 1_000_000)])).toBe(
+			'(no results)',
+		);
+	});
+});
+
+describe('benchmark_format_markdown_scaling', () => {
+	test('renders a markdown scaling table', () => {
+		const results: Array<BenchmarkResult> = [10, 100, 1000].map((size) => ({
+			...create_result(`sum/${size}`, 1_000_000_000 / (size * 100)),
+			param: {task: 'sum', label: String(size), size},
+		}));
+
+		const markdown = benchmark_format_markdown_scaling(results);
+		const lines = markdown.split('\n');
+
+		expect(lines).toHaveLength(3);
+		expect(lines[0]).toMatch(/^\| Task Name/);
+		expect(lines[1]).toMatch(/^\| -+/);
+		expect(lines[2]).toMatch(/^\| sum/);
+		expect(lines[2]).toContain('O(n^1.00)');
+	});
+});
+
+describe('memory columns', () => {
+	const create_memory_result = (
+		name: string,
+		allocated_bytes_per_op: number | null,
+		retained_bytes: number | null,
+	): BenchmarkResult => {
+		const result = create_result(name, 1_000_000);
+		Object.assign(result.stats, {allocated_bytes_per_op, retained_bytes});
+		return result;
+	};
+
+	test('table shows memory columns when measured', () => {
+		const results = [
+			create_memory_result('allocating', 1536, 2_097_152),
+			create_memory_result('unknown retained', 64, null),
+		];
+
+		const table = benchmark_format_table(results);
+
+		expect(table).toContain('alloc/op');
+		expect(table).toContain('retained');
+		expect(table).toContain('1.50 KiB');
+		expect(table).toContain('2.00 MiB');
+		expect(table).toContain('64 B');
+		const lines = table.split('\n');
+		for (const line of lines) {
+			expect(line.length).toBe(lines[0]!.length);
+		}
+	});
+
+	test('markdown shows memory columns when measured', () => {
+		const markdown = benchmark_format_markdown([create_memory_result('allocating', 1536, null)]);
+
+		expect(markdown).toContain('alloc/op');
+		expect(markdown).toContain('1.50 KiB');
+	});
+
+	test('json includes memory stats when measured', () => {
+		const parsed = JSON.parse(
+			benchmark_format_json([
+				create_memory_result('allocating', 1536, null),
+				create_result('plain', 1_000_000),
+			]),
+		);
+
+		expect(parsed[0].allocated_bytes_per_op).toBe(1536);
+		expect(parsed[0].retained_bytes).toBeNull();
+		expect(parsed[1]).not.toHaveProperty('allocated_bytes_per_op');
+	});
+
+	test('json treats a missing batch size as 1', () => {
+		const {batch_size: _, ...result} = create_result('unbatched', 1_000_000);
+
+		const parsed = JSON.parse(benchmark_format_json([result]));
+
+		expect(parsed[0].batch_size).toBe(1);
+	});
+});
+
+describe('benchmark_format_bytes', () => {
+	test('formats bytes with binary units', () => {
+		expect(benchmark_format_bytes(0)).toBe('0 B');
+		expect(benchmark_format_bytes(512)).toBe('512 B');
+		expect(benchmark_format_bytes(12.5)).toBe('12.5 B');
+		expect(benchmark_format_bytes(1024)).toBe('1.00 KiB');
+		expect(benchmark_format_bytes(1536)).toBe('1.50 KiB');
+		expect(benchmark_format_bytes(5 * 1024 ** 2)).toBe('5.00 MiB');
+		expect(benchmark_format_bytes(3 * 1024 ** 3, 1)).toBe('3.0 GiB');
+		expect(benchmark_format_bytes(2 * 1024 ** 4)).toBe('2048.00 GiB');
+	});
+
+	test('formats negative bytes', () => {
+		expect(benchmark_format_bytes(-2048)).toBe('-2.00 KiB');
+		expect(benchmark_format_bytes(-10)).toBe('-10 B');
+	});
+});
+
+// Helper to create results with real stats from timings
+const create_timed_result = (name: string, timings_ns: Array<number>): BenchmarkResult => ({
+	name,
+	iterations: timings_ns.length,
+	batch_size: 1,
+	total_time_ms: 100,
+	timings_ns,
+	stats: new BenchmarkStats(timings_ns),
+});
+
+const create_entry = (name: string, mean_ns: number): BenchmarkBaselineEntry => ({
+	name,
+	mean_ns,
+	p50_ns: mean_ns,
+	std_dev_ns: mean_ns / 100,
+	min_ns: mean_ns,
+	max_ns: mean_ns,
+	p75_ns: mean_ns,
+	p90_ns: mean_ns,
+	p95_ns: mean_ns,
+	p99_ns: mean_ns,
+	ops_per_second: 1e9 / mean_ns,
+	sample_size: 100,
+	allocated_bytes_per_op: null,
+	retained_bytes: null,
+});
+
+const create_task_comparison = (
+	name: string,
+	baseline_ns: number,
+	current_ns: number,
+): BenchmarkBaselineTaskComparison => {
+	const baseline = create_entry(name, baseline_ns);
+	const current = create_entry(name, current_ns);
+	const to_comparable = (e: BenchmarkBaselineEntry) => ({
+		mean_ns: e.mean_ns,
+		std_dev_ns: e.std_dev_ns,
+		sample_size: e.sample_size,
+		confidence_interval_ns: [e.mean_ns, e.mean_ns] as [number, number],
+	});
+	const comparison = benchmark_stats_compare(to_comparable(baseline), to_comparable(current));
+	return {name, baseline, current, comparison, adjusted_p_value: comparison.p_value};
+};
+
+describe('benchmark_format_html', () => {
+	// 100 timings around 1-2μs plus two extreme outliers
+	const timings_ns = [
+		...Array.from({length: 100}, (_, i) => 1000 + (i % 10) * 100),
+		1_000_000,
+		2_000_000,
+	];
+
+	test('renders a self-contained document', () => {
+		const html = benchmark_format_html([create_timed_result('parse', timings_ns)], {
+			title: 'My <Benchmarks>',
+		});
+
+		expect(html.startsWith('<!doctype html>')).toBe(true);
+		expect(html).toContain('<title>My &lt;Benchmarks&gt;</title>');
+		expect(html).toContain('<style>');
+		// No external assets
+		expect(html).not.toMatch(/<link|<script|src=|href=/);
+	});
+
+	test('renders a histogram with outliers counted separately', () => {
+		const result = create_timed_result('parse', timings_ns);
+		const html = benchmark_format_html([result], {bins: 10});
+
+		const histogram = /<svg class="histogram"[\s\S]*?<\/svg>/.exec(html)![0];
+		const bins = [...histogram.matchAll(/<rect class="bin"[^>]*><title>[^:]*: (\d+)<\/title>/g)];
+		expect(bins).toHaveLength(10);
+		const binned = bins.reduce((sum, m) => sum + Number(m[1]), 0);
+		expect(binned).toBe(100);
+		expect(result.stats.outliers_ns).toHaveLength(2);
+		expect(histogram).toContain('2 outliers');
+	});
+
+	test('renders percentile bars', () => {
+		const html = benchmark_format_html([create_timed_result('parse', timings_ns)]);
+
+		const percentiles = /<svg class="percentiles"[\s\S]*?<\/svg>/.exec(html)![0];
+		for (const label of ['p50', 'p75', 'p90', 'p95', 'p99', 'max']) {
+			expect(percentiles).toContain(`>${label}</text>`);
+		}
+		expect(percentiles.match(/<rect class="percentile"/g)).toHaveLength(6);
+	});
+
+	test('escapes task names', () => {
+		const html = benchmark_format_html([create_timed_result('<script>alert(1)</script>', [1, 2])]);
+
+		expect(html).not.toContain('<script>');
+		expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+	});
+
+	test('renders baseline deltas', () => {
+		const slower = create_task_comparison('slower', 1000, 2000);
+		const same = create_task_comparison('same', 1000, 1000);
+		const comparison: BenchmarkBaselineComparisonResult = {
+			baseline_found: true,
+			baseline_timestamp: '2026-01-01T00:00:00.000Z',
+			baseline_commit: 'abcdef1234567890',
+			baseline_age_days: 1,
+			baseline_stale: false,
+			correction: 'none',
+			comparisons: [slower, same],
+			regressions: [slower],
+			improvements: [],
+			unchanged: [same],
+			new_tasks: ['added'],
+			removed_tasks: [],
+		};
+
+		const html = benchmark_format_html(
+			[
+				create_timed_result('slower', timings_ns),
+				create_timed_result('same', timings_ns),
+				create_timed_result('added', timings_ns),
+			],
+			{comparison},
+		);
+
+		expect(html).toContain('Compared against baseline from 2026-01-01T00:00:00.000Z');
+		expect(html).toContain('(commit abcdef12)');
+		expect(html).toContain('<span class="regression">1 regressions</span>');
+		expect(html).toContain('<th>vs Baseline</th>');
+		expect(html).toMatch(/<p class="regression">vs baseline: 2\.00x slower \(p=/);
+		expect(html).toContain('<p class="unchanged">vs baseline: same');
+		expect(html).toContain('<p class="new">vs baseline: new</p>');
+	});
+
+	test('notes a missing baseline', () => {
+		const comparison: BenchmarkBaselineComparisonResult = {
+			baseline_found: false,
+			baseline_timestamp: null,
+			baseline_commit: null,
+			baseline_age_days: null,
+			baseline_stale: false,
+			correction: 'none',
+			comparisons: [],
+			regressions: [],
+			improvements: [],
+			unchanged: [],
+			new_tasks: ['parse'],
+			removed_tasks: [],
+		};
+
+		const html = benchmark_format_html([create_timed_result('parse', timings_ns)], {comparison});
+
+		expect(html).toContain('No baseline found.');
+		expect(html).not.toContain('vs Baseline');
+	});
+
+	test('handles empty results and timings', () => {
+		expect(benchmark_format_html([])).toContain('(no results)');
+		expect(benchmark_format_html([create_timed_result('empty', [])])).toContain(
+			'(no valid timings)',
+		);
+	});
+});
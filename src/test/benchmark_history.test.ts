@@ -0,0 +1,256 @@
+import {test, beforeEach, afterEach, vi} from 'vitest';
+import {rm, mkdir, readFile, appendFile} from 'node:fs/promises';
+import {join} from 'node:path';
+import {tmpdir} from 'node:os';
+
+import {
+	benchmark_history_append,
+	benchmark_history_load,
+	benchmark_history_trends,
+	benchmark_history_format,
+} from '$lib/benchmark_history.js';
+import {
+	BENCHMARK_BASELINE_VERSION,
+	benchmark_baseline_load,
+	type BenchmarkBaseline,
+	type BenchmarkBaselineEntry,
+} from '$lib/benchmark_baseline.js';
+import {Benchmark} from '$lib/benchmark.js';
+
+// Use a unique temp directory for each test run
+const test_dir = join(tmpdir(), `benchmark_history_test_${Date.now()}`);
+
+beforeEach(async () => {
+	await mkdir(test_dir, {recursive: true});
+});
+
+afterEach(async () => {
+	await rm(test_dir, {recursive: true, force: true});
+});
+
+const create_entry = (name: string, p50_ns: number): BenchmarkBaselineEntry => ({
+	name,
+	mean_ns: p50_ns,
+	p50_ns,
+	std_dev_ns: p50_ns / 10,
+	min_ns: p50_ns * 0.9,
+	max_ns: p50_ns * 1.1,
+	p75_ns: p50_ns,
+	p90_ns: p50_ns,
+	p95_ns: p50_ns,
+	p99_ns: p50_ns,
+	ops_per_second: 1e9 / p50_ns,
+	sample_size: 100,
+	allocated_bytes_per_op: null,
+	retained_bytes: null,
+});
+
+const create_run = (
+	index: number,
+	p50s: Record<string, number>,
+	git_branch: string | null = 'main',
+): BenchmarkBaseline => ({
+	version: BENCHMARK_BASELINE_VERSION,
+	timestamp: new Date(Date.UTC(2026, 0, index + 1)).toISOString(),
+	git_commit: `commit${index}`,
+	git_branch,
+	node_version: 'v22.0.0',
+	entries: Object.entries(p50s).map(([name, p50_ns]) => create_entry(name, p50_ns)),
+});
+
+const run_bench = async (): Promise<Benchmark> => {
+	const bench = new Benchmark({duration_ms: 10, min_iterations: 3, cooldown_ms: 0});
+	bench.add('task1', () => 1 + 1);
+	await bench.run();
+	return bench;
+};
+
+test('benchmark_history_append and benchmark_history_load: keeps every run', async ({expect}) => {
+	const bench = await run_bench();
+
+	await benchmark_history_append(bench.results(), {
+		path: test_dir,
+		git_commit: 'aaa',
+		git_branch: 'main',
+	});
+	await benchmark_history_append(bench.results(), {
+		path: test_dir,
+		git_commit: 'bbb',
+		git_branch: 'main',
+	});
+
+	const history = await benchmark_history_load({path: test_dir});
+
+	expect(history.map((r) => r.git_commit)).toEqual(['aaa', 'bbb']);
+	expect(history[0]!.entries[0]!.name).toBe('task1');
+	// One run per line
+	const contents = await readFile(join(test_dir, 'history.jsonl'), 'utf-8');
+	expect(contents.trim().split('\n')).toHaveLength(2);
+	// Doesn't touch the baseline
+	expect(await benchmark_baseline_load({path: test_dir})).toBeNull();
+});
+
+test('benchmark_history_load: returns an empty array when no history exists', async ({expect}) => {
+	expect(await benchmark_history_load({path: test_dir})).toEqual([]);
+});
+
+test('benchmark_history_load: filters by branch, commit, and limit', async ({expect}) => {
+	const bench = await run_bench();
+	const append = (git_commit: string, git_branch: string) =>
+		benchmark_history_append(bench.results(), {path: test_dir, git_commit, git_branch});
+
+	await append('aaa', 'main');
+	await append('bbb', 'feature');
+	await append('ccc', 'main');
+	await append('ccc', 'main');
+	await append('ddd', 'main');
+
+	const main = await benchmark_history_load({path: test_dir, git_branch: 'main'});
+	expect(main.map((r) => r.git_commit)).toEqual(['aaa', 'ccc', 'ccc', 'ddd']);
+
+	const unique = await benchmark_history_load({
+		path: test_dir,
+		git_branch: 'main',
+		latest_per_commit: true,
+	});
+	expect(unique.map((r) => r.git_commit)).toEqual(['aaa', 'ccc', 'ddd']);
+	// The latest run of a repeated commit wins
+	expect(unique[1]!.timestamp).toBe(main[2]!.timestamp);
+
+	const last = await benchmark_history_load({path: test_dir, limit: 2});
+	expect(last.map((r) => r.git_commit)).toEqual(['ccc', 'ddd']);
+});
+
+test('benchmark_history_load: skips invalid lines', async ({expect}) => {
+	const bench = await run_bench();
+	await benchmark_history_append(bench.results(), {path: test_dir, git_commit: 'aaa'});
+	const filepath = join(test_dir, 'history.jsonl');
+	await appendFile(filepath, 'not valid json\n');
+	await appendFile(filepath, JSON.stringify({version: 1, wrong: 'schema'}) + '\n');
+	await benchmark_history_append(bench.results(), {path: test_dir, git_commit: 'bbb'});
+
+	const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+	const history = await benchmark_history_load({path: test_dir});
+	expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipped 2'));
+	warn.mockRestore();
+
+	expect(history.map((r) => r.git_commit)).toEqual(['aaa', 'bbb']);
+	// The file is left intact
+	const contents = await readFile(filepath, 'utf-8');
+	expect(contents.trim().split('\n')).toHaveLength(4);
+});
+
+test('benchmark_history_load: keeps runs of older schema versions', async ({expect}) => {
+	// A run saved before the memory stats were added
+	const {entries, ...run} = create_run(0, {task1: 100});
+	const old_entries = entries.map(
+		({allocated_bytes_per_op: _, retained_bytes: __, ...entry}) => entry,
+	);
+	await mkdir(test_dir, {recursive: true});
+	await appendFile(
+		join(test_dir, 'history.jsonl'),
+		JSON.stringify({...run, version: BENCHMARK_BASELINE_VERSION - 1, entries: old_entries}) + '\n',
+	);
+
+	const history = await benchmark_history_load({path: test_dir});
+
+	expect(history).toHaveLength(1);
+	expect(history[0]!.entries[0]).toMatchObject({
+		name: 'task1',
+		p50_ns: 100,
+		allocated_bytes_per_op: null,
+		retained_bytes: null,
+	});
+});
+
+test('benchmark_history_trends: flags gradual regressions', ({expect}) => {
+	// Each run is only 3% slower than the last, but 27% slower overall
+	const history = [100, 103, 106, 109, 112, 115, 118, 121, 124, 127].map((p50, i) =>
+		create_run(i, {drifting: p50, steady: 100 + (i % 2)}),
+	);
+
+	const result = benchmark_history_trends(history);
+
+	expect(result.runs).toBe(10);
+	expect(result.trends.map((t) => t.name)).toEqual(['drifting', 'steady']);
+	expect(result.regressions.map((t) => t.name)).toEqual(['drifting']);
+	expect(result.improvements).toEqual([]);
+
+	const drifting = result.regressions[0]!;
+	expect(drifting.slope_ns_per_run).toBeCloseTo(3);
+	expect(drifting.change_ratio).toBeCloseTo(1.27);
+	expect(drifting.r_squared).toBeCloseTo(1);
+	expect(drifting.points).toHaveLength(10);
+	expect(drifting.points[0]!.git_commit).toBe('commit0');
+
+	const steady = result.trends[1]!;
+	expect(steady.regressing).toBe(false);
+	expect(steady.improving).toBe(false);
+});
+
+test('benchmark_history_trends: flags gradual improvements', ({expect}) => {
+	const history = [200, 180, 160, 140].map((p50, i) => create_run(i, {task: p50}));
+
+	const result = benchmark_history_trends(history);
+
+	expect(result.improvements.map((t) => t.name)).toEqual(['task']);
+	expect(result.improvements[0]!.change_ratio).toBeCloseTo(0.7);
+});
+
+test('benchmark_history_trends: respects thresholds', ({expect}) => {
+	const history = [100, 104, 108].map((p50, i) => create_run(i, {task: p50}));
+
+	expect(benchmark_history_trends(history).regressions).toHaveLength(0);
+	expect(benchmark_history_trends(history, {regression_threshold: 1.05}).regressions).toHaveLength(
+		1,
+	);
+	expect(
+		benchmark_history_trends(history, {regression_threshold: 1.05, min_runs: 4}).regressions,
+	).toHaveLength(0);
+
+	// A noisy history with the same net change isn't flagged
+	const noisy = [100, 150, 90, 140, 100, 120].map((p50, i) => create_run(i, {task: p50}));
+	const noisy_trend = benchmark_history_trends(noisy, {regression_threshold: 1.05}).trends[0]!;
+	expect(noisy_trend.r_squared).toBeLessThan(0.5);
+	expect(noisy_trend.regressing).toBe(false);
+});
+
+test('benchmark_history_trends: fits tasks missing from some runs', ({expect}) => {
+	const history = [
+		create_run(0, {old: 100, task: 100}),
+		create_run(1, {old: 100}),
+		create_run(2, {task: 150, added: 10}),
+	];
+
+	const result = benchmark_history_trends(history, {min_runs: 2});
+
+	expect(result.trends.map((t) => t.name)).toEqual(['old', 'task', 'added']);
+	const task = result.trends[1]!;
+	expect(task.points.map((p) => p.run)).toEqual([0, 2]);
+	expect(task.slope_ns_per_run).toBeCloseTo(25);
+	expect(task.regressing).toBe(true);
+	const added = result.trends[2]!;
+	expect(added.slope_ns_per_run).toBeNaN();
+	expect(added.regressing).toBe(false);
+});
+
+test('benchmark_history_format: lists drifting and stable tasks', ({expect}) => {
+	const history = [100, 110, 120, 130].map((p50, i) =>
+		create_run(i, {slower: p50, faster: 400 - p50, same: 100}),
+	);
+
+	const formatted = benchmark_history_format(benchmark_history_trends(history));
+
+	expect(formatted).toContain('Trends across 4 runs');
+	expect(formatted).toContain('Gradual regressions (1):');
+	expect(formatted).toContain('slower: +30.0% over 4 runs');
+	expect(formatted).toContain('Gradual improvements (1):');
+	expect(formatted).toContain('faster: -10.0% over 4 runs');
+	expect(formatted).toContain('Stable (1): same');
+});
+
+test('benchmark_history_format: no history', ({expect}) => {
+	expect(benchmark_history_format(benchmark_history_trends([]))).toContain(
+		'No benchmark history found',
+	);
+});
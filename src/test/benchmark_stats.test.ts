@@ -1,6 +1,12 @@
 import {test} from 'vitest';
 
-import {BenchmarkStats, benchmark_stats_compare} from '$lib/benchmark_stats.js';
+import {
+	BenchmarkStats,
+	benchmark_stats_compare,
+	benchmark_complexity_fit,
+	type BenchmarkStatsComparable,
+} from '$lib/benchmark_stats.js';
+import {stats_confidence_interval, stats_mean, stats_std_dev} from '$lib/stats.js';
 
 test('BenchmarkStats: basic usage', ({expect}) => {
 	const timings_ns = [1200, 1300, 1100, 1500, 1200, 1400, 1300];
@@ -323,3 +329,180 @@ test('benchmark_stats_compare: single sample each', ({expect}) => {
 	// Zero variance case should still work
 	expect(comparison.effect_magnitude).toBe('large');
 });
+
+const to_comparable = (timings_ns: Array<number>): BenchmarkStatsComparable => {
+	const {mean_ns, std_dev_ns, sample_size, confidence_interval_ns} = new BenchmarkStats(timings_ns);
+	return {mean_ns, std_dev_ns, sample_size, confidence_interval_ns, timings_ns};
+};
+
+test('benchmark_stats_compare: defaults to welch', ({expect}) => {
+	const comparison = benchmark_stats_compare(
+		to_comparable([100, 110, 120]),
+		to_comparable([200, 210, 220]),
+	);
+
+	expect(comparison.method).toBe('welch');
+	expect(comparison.median_difference_ci_ns).toBeNull();
+});
+
+test('benchmark_stats_compare: mann_whitney method', ({expect}) => {
+	// Skewed timings with a long tail of slow iterations
+	const a = Array.from({length: 100}, (_, i) => 1000 + (i % 10) * 10 + (i % 25 === 0 ? 5000 : 0));
+	const b = Array.from({length: 100}, (_, i) => 1200 + (i % 10) * 10 + (i % 25 === 0 ? 5000 : 0));
+
+	const comparison = benchmark_stats_compare(to_comparable(a), to_comparable(b), {
+		method: 'mann_whitney',
+	});
+
+	expect(comparison.method).toBe('mann_whitney');
+	expect(comparison.significant).toBe(true);
+	expect(comparison.p_value).toBeLessThan(0.001);
+	expect(comparison.faster).toBe('a');
+	expect(comparison.median_difference_ci_ns).toBeNull();
+});
+
+test('benchmark_stats_compare: bootstrap method', ({expect}) => {
+	const a = Array.from({length: 100}, (_, i) => 1000 + (i % 10) * 10);
+	const b = Array.from({length: 100}, (_, i) => 1200 + (i % 10) * 10);
+
+	const comparison = benchmark_stats_compare(to_comparable(a), to_comparable(b), {
+		method: 'bootstrap',
+		bootstrap_resamples: 500,
+	});
+
+	expect(comparison.method).toBe('bootstrap');
+	expect(comparison.significant).toBe(true);
+	const [low, high] = comparison.median_difference_ci_ns!;
+	expect(low).toBeGreaterThan(150);
+	expect(high).toBeLessThan(250);
+});
+
+test('benchmark_stats_compare: bootstrap is reproducible per seed', ({expect}) => {
+	const a = to_comparable(Array.from({length: 50}, (_, i) => 1000 + ((i * 7) % 13) * 10));
+	const b = to_comparable(Array.from({length: 50}, (_, i) => 1010 + ((i * 5) % 11) * 10));
+	const compare = (seed?: string) =>
+		benchmark_stats_compare(a, b, {method: 'bootstrap', bootstrap_resamples: 200, seed});
+
+	expect(compare()).toEqual(compare());
+	expect(compare('other')).toEqual(compare('other'));
+	expect(compare('other').median_difference_ci_ns).not.toEqual(compare().median_difference_ci_ns);
+});
+
+test('benchmark_stats_compare: bootstrap interval follows alpha', ({expect}) => {
+	const a = to_comparable(Array.from({length: 50}, (_, i) => 1000 + (i % 20) * 10));
+	const b = to_comparable(Array.from({length: 50}, (_, i) => 1050 + (i % 20) * 10));
+
+	const loose = benchmark_stats_compare(a, b, {method: 'bootstrap', alpha: 0.2});
+	const strict = benchmark_stats_compare(a, b, {method: 'bootstrap', alpha: 0.01});
+
+	expect(strict.median_difference_ci_ns![0]).toBeLessThanOrEqual(loose.median_difference_ci_ns![0]);
+	expect(strict.median_difference_ci_ns![1]).toBeGreaterThanOrEqual(
+		loose.median_difference_ci_ns![1],
+	);
+});
+
+test('benchmark_stats_compare: non-parametric methods compare medians', ({expect}) => {
+	// Keeps the slow tail that `BenchmarkStats` would remove as outliers
+	const to_raw_comparable = (timings_ns: Array<number>): BenchmarkStatsComparable => ({
+		mean_ns: stats_mean(timings_ns),
+		std_dev_ns: stats_std_dev(timings_ns),
+		sample_size: timings_ns.length,
+		confidence_interval_ns: stats_confidence_interval(timings_ns),
+		timings_ns,
+	});
+	// `a` is usually faster but its slow tail gives it the higher mean
+	const a = to_raw_comparable(
+		Array.from({length: 50}, (_, i) => (i % 10 === 0 ? 20_000 : 1000 + (i % 7) * 10)),
+	);
+	const b = to_raw_comparable(Array.from({length: 50}, (_, i) => 1500 + (i % 7) * 10));
+	expect(a.mean_ns).toBeGreaterThan(b.mean_ns);
+
+	const welch = benchmark_stats_compare(a, b);
+	expect(welch.faster).toBe('b');
+
+	for (const method of ['mann_whitney', 'bootstrap'] as const) {
+		const comparison = benchmark_stats_compare(a, b, {method});
+		expect(comparison.faster).toBe('a');
+		expect(comparison.speedup_ratio).toBeCloseTo(1530 / 1030, 5);
+		// Rank-biserial correlation, 90% of pairs have `a` faster and 10% slower
+		expect(comparison.effect_size).toBeCloseTo(0.8, 5);
+		expect(comparison.effect_magnitude).toBe('large');
+		expect(comparison.significant).toBe(true);
+		expect(comparison.recommendation).toMatch(/^First is/);
+	}
+	const [low, high] = benchmark_stats_compare(a, b, {method: 'bootstrap'}).median_difference_ci_ns!;
+	expect(low).toBeGreaterThan(0);
+	expect(high).toBeGreaterThan(low);
+});
+
+test('benchmark_stats_compare: falls back to welch without timings', ({expect}) => {
+	const a = new BenchmarkStats([100, 110, 120]);
+	const b = to_comparable([200, 210, 220]);
+
+	const comparison = benchmark_stats_compare(a, b, {method: 'mann_whitney'});
+	expect(comparison.method).toBe('welch');
+	expect(comparison.p_value).toBe(benchmark_stats_compare(a, b).p_value);
+
+	// Invalid timings don't count
+	const invalid = {...to_comparable([100, 110, 120]), timings_ns: [NaN, -1]};
+	expect(benchmark_stats_compare(invalid, b, {method: 'bootstrap'}).method).toBe('welch');
+});
+
+test('benchmark_complexity_fit: estimates power law exponents', ({expect}) => {
+	const sizes = [10, 100, 1000, 10_000];
+
+	const constant = benchmark_complexity_fit(sizes.map((size) => ({size, mean_ns: 50})));
+	expect(constant!.exponent).toBeCloseTo(0, 5);
+
+	const linear = benchmark_complexity_fit(sizes.map((size) => ({size, mean_ns: size * 3})));
+	expect(linear!.exponent).toBeCloseTo(1, 5);
+	expect(linear!.r_squared).toBeCloseTo(1, 5);
+	expect(linear!.points).toBe(4);
+
+	const quadratic = benchmark_complexity_fit(sizes.map((size) => ({size, mean_ns: size ** 2})));
+	expect(quadratic!.exponent).toBeCloseTo(2, 5);
+});
+
+test('benchmark_complexity_fit: ignores invalid points', ({expect}) => {
+	const fit = benchmark_complexity_fit([
+		{size: 10, mean_ns: 10},
+		{size: 100, mean_ns: 100},
+		{size: NaN, mean_ns: 5},
+		{size: 0, mean_ns: 5},
+		{size: 1000, mean_ns: NaN},
+	]);
+	expect(fit!.exponent).toBeCloseTo(1, 5);
+	expect(fit!.points).toBe(2);
+});
+
+test('benchmark_complexity_fit: returns null without 2 distinct sizes', ({expect}) => {
+	expect(benchmark_complexity_fit([])).toBeNull();
+	expect(benchmark_complexity_fit([{size: 10, mean_ns: 100}])).toBeNull();
+	expect(
+		benchmark_complexity_fit([
+			{size: 10, mean_ns: 100},
+			{size: 10, mean_ns: 200},
+		]),
+	).toBeNull();
+});
+
+test('BenchmarkStats: memory samples', ({expect}) => {
+	const stats = new BenchmarkStats([1000, 1100, 1200], {
+		allocated_bytes_per_op: [100, 120, -5000, 110],
+		retained_bytes: 2048,
+	});
+
+	// Negative samples from mid-batch garbage collection are ignored
+	expect(stats.allocated_bytes_per_op).toBe(110);
+	expect(stats.retained_bytes).toBe(2048);
+});
+
+test('BenchmarkStats: memory stats are null without samples', ({expect}) => {
+	const without = new BenchmarkStats([1000, 1100, 1200]);
+	expect(without.allocated_bytes_per_op).toBeNull();
+	expect(without.retained_bytes).toBeNull();
+
+	const only_gc = new BenchmarkStats([1000], {allocated_bytes_per_op: [-1], retained_bytes: null});
+	expect(only_gc.allocated_bytes_per_op).toBeNull();
+	expect(only_gc.retained_bytes).toBeNull();
+});
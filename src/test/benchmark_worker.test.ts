@@ -0,0 +1,256 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+
+import {test, beforeAll, afterAll} from 'vitest';
+import {mkdir, rm, writeFile} from 'node:fs/promises';
+import {join} from 'node:path';
+import {tmpdir} from 'node:os';
+import {pathToFileURL} from 'node:url';
+
+import {BenchmarkWorker} from '$lib/benchmark_worker.js';
+import {Benchmark} from '$lib/benchmark.js';
+
+// Use a unique temp directory for the task modules imported by workers
+const test_dir = join(tmpdir(), `benchmark_worker_test_${Date.now()}`);
+const module_path = join(test_dir, 'tasks.mjs');
+
+const MODULE_SOURCE = `
+let items = null;
+let torn_down = false;
+
+export default () => 1 + 1;
+
+export const sum = () => [1, 2, 3].reduce((a, b) => a + b, 0);
+
+export const async_task = async () => {
+	await null;
+};
+
+export const with_setup = {
+	setup: () => {
+		items = [1, 2, 3];
+	},
+	fn: () => {
+		if (!items) throw new Error('setup did not run');
+		return items.length;
+	},
+	teardown: () => {
+		torn_down = true;
+	},
+};
+
+export const failing_setup = {
+	setup: () => {
+		throw new Error('setup failed');
+	},
+	fn: () => {},
+};
+
+export const throws = () => {
+	throw new Error('task failed');
+};
+
+export const not_a_task = 42;
+
+export const is_torn_down = () => torn_down;
+`;
+
+beforeAll(async () => {
+	await mkdir(test_dir, {recursive: true});
+	await writeFile(module_path, MODULE_SOURCE);
+});
+
+afterAll(async () => {
+	await rm(test_dir, {recursive: true, force: true});
+});
+
+test('BenchmarkWorker: warmup and measure the default export', async ({expect}) => {
+	const worker = await BenchmarkWorker.create({name: 'default', module: module_path});
+	try {
+		expect(await worker.warmup(3)).toBe(false);
+		const {timings_ns} = await worker.measure({iterations: 20, duration_ns: Infinity});
+		expect(timings_ns).toHaveLength(20);
+		for (const t of timings_ns) {
+			expect(t).toBeGreaterThanOrEqual(0);
+		}
+	} finally {
+		await worker.close();
+	}
+});
+
+test('BenchmarkWorker: measure stops after the duration', async ({expect}) => {
+	const worker = await BenchmarkWorker.create({name: 'sum', module: module_path, export: 'sum'});
+	try {
+		await worker.warmup(1);
+		const {timings_ns} = await worker.measure({iterations: 1_000_000, duration_ns: 0});
+		expect(timings_ns).toHaveLength(1);
+	} finally {
+		await worker.close();
+	}
+});
+
+test('BenchmarkWorker: detects async functions', async ({expect}) => {
+	const worker = await BenchmarkWorker.create({
+		name: 'async',
+		module: pathToFileURL(module_path),
+		export: 'async_task',
+	});
+	try {
+		expect(await worker.warmup(2)).toBe(true);
+		expect((await worker.measure({iterations: 5, duration_ns: Infinity})).timings_ns).toHaveLength(
+			5,
+		);
+	} finally {
+		await worker.close();
+	}
+});
+
+test('BenchmarkWorker: rejects invalid exports', async ({expect}) => {
+	await expect(
+		BenchmarkWorker.create({name: 'invalid', module: module_path, export: 'not_a_task'}),
+	).rejects.toThrow('Export "not_a_task"');
+});
+
+test('BenchmarkWorker: rejects missing modules', async ({expect}) => {
+	await expect(
+		BenchmarkWorker.create({name: 'missing', module: join(test_dir, 'missing.mjs')}),
+	).rejects.toThrow();
+});
+
+test('BenchmarkWorker: rejects when setup fails', async ({expect}) => {
+	await expect(
+		BenchmarkWorker.create({name: 'failing', module: module_path, export: 'failing_setup'}),
+	).rejects.toThrow('setup failed');
+});
+
+test('BenchmarkWorker: measure reports per-op timings of batched samples', async ({expect}) => {
+	const worker = await BenchmarkWorker.create({name: 'sum', module: module_path, export: 'sum'});
+	try {
+		await worker.warmup(1);
+		const {timings_ns} = await worker.measure({
+			iterations: 10,
+			duration_ns: Infinity,
+			batch_size: 1000,
+		});
+		expect(timings_ns).toHaveLength(10);
+		// A batch of 1000 sums takes far longer than 10μs but each op far less
+		const sorted = timings_ns.toSorted((a, b) => a - b);
+		expect(sorted[5]).toBeLessThan(10_000);
+	} finally {
+		await worker.close();
+	}
+});
+
+test('Benchmark: add_isolated runs tasks in workers', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 20,
+		min_iterations: 5,
+		warmup_iterations: 2,
+		cooldown_ms: 0,
+	});
+
+	bench
+		.add_isolated({name: 'sum', module: module_path, export: 'sum'})
+		.add_isolated({name: 'with setup', module: module_path, export: 'with_setup'})
+		.add('in process', () => 1 + 1);
+
+	const results = await bench.run();
+
+	expect(results.map((r) => r.name)).toEqual(['sum', 'with setup', 'in process']);
+	for (const r of results) {
+		expect(r.iterations).toBeGreaterThanOrEqual(5);
+		expect(r.timings_ns).toHaveLength(r.iterations);
+		expect(r.stats.raw_sample_size).toBe(r.iterations);
+	}
+});
+
+test('Benchmark: add_isolated respects max_iterations and abort', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 10_000,
+		min_iterations: 1,
+		max_iterations: 50,
+		warmup_iterations: 1,
+		cooldown_ms: 0,
+		on_iteration: (name, iteration, abort) => {
+			if (name === 'aborted' && iteration === 7) abort();
+		},
+	});
+
+	bench
+		.add_isolated({name: 'capped', module: module_path, export: 'sum'})
+		.add_isolated({name: 'aborted', module: module_path, export: 'sum'});
+
+	const results = await bench.run();
+
+	expect(results[0]!.iterations).toBe(50);
+	expect(results[1]!.iterations).toBe(7);
+});
+
+test('Benchmark: add_isolated throws on task error', async ({expect}) => {
+	const bench = new Benchmark({duration_ms: 10, warmup_iterations: 1});
+
+	bench.add_isolated({name: 'throws', module: module_path, export: 'throws'});
+
+	await expect(bench.run()).rejects.toThrow('task failed');
+});
+
+test('Benchmark: add_isolated throws on duplicate task name', ({expect}) => {
+	const bench = new Benchmark();
+
+	bench.add('task', () => {});
+
+	expect(() => bench.add_isolated({name: 'task', module: module_path})).toThrow(
+		'Task "task" already exists',
+	);
+});
+
+test('Benchmark: add_isolated measures memory in the worker', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 20,
+		min_iterations: 200,
+		warmup_iterations: 1,
+		cooldown_ms: 0,
+		memory: true,
+	});
+
+	bench.add_isolated({name: 'sum', module: module_path, export: 'sum'});
+
+	const results = await bench.run();
+
+	expect(results[0]!.stats.allocated_bytes_per_op).toBeTypeOf('number');
+	if (!globalThis.gc) {
+		expect(results[0]!.stats.retained_bytes).toBeNull();
+	}
+});
+
+test('Benchmark: add_isolated calibrates batch size in the worker', async ({expect}) => {
+	const bench = new Benchmark({
+		duration_ms: 20,
+		min_iterations: 5,
+		warmup_iterations: 2,
+		cooldown_ms: 0,
+		batch: 'auto',
+	});
+
+	bench.add_isolated({name: 'sum', module: module_path, export: 'sum'});
+
+	const results = await bench.run();
+
+	expect(results[0]!.batch_size).toBeGreaterThan(1);
+	expect(results[0]!.timings_ns).toHaveLength(results[0]!.iterations);
+});
+
+test('Benchmark: add_isolated stops on convergence', async ({expect}) => {
+	const bench = new Benchmark({
+		min_iterations: 5,
+		warmup_iterations: 2,
+		cooldown_ms: 0,
+		convergence: {target_relative_ci: 10, max_duration_ms: 5_000},
+	});
+
+	bench.add_isolated({name: 'sum', module: module_path, export: 'sum'});
+
+	const results = await bench.run();
+
+	expect(results[0]!.converged).toBe(true);
+	expect(results[0]!.iterations).toBeGreaterThanOrEqual(30);
+});
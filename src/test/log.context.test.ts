@@ -0,0 +1,152 @@
+import {describe, test, assert} from 'vitest';
+
+import {Logger, type LogRecord} from '$lib/log.ts';
+import {create_log_sink_memory} from '$lib/log_sinks.ts';
+import {create_test_context} from './log_test_helpers.ts';
+
+describe('Logger > Context', () => {
+	test('defaults to an empty context', () => {
+		const log = new Logger('app');
+
+		assert.deepEqual(log.context, {});
+		assert.deepEqual(log.child('db').context, {});
+	});
+
+	test('context set at construction is shown after the label', () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {
+			console: ctx.console,
+			level: 'debug',
+			colors: false,
+			context: {request_id: 'abc', attempt: 2},
+		});
+
+		log.info('handled');
+		assert.deepEqual(ctx.logged_args, ['[app] request_id=abc attempt=2', 'handled']);
+
+		log.error('failed');
+		assert.deepEqual(ctx.error_args, ['🞩error🞩 [app] request_id=abc attempt=2', 'failed']);
+	});
+
+	test('context without a label', () => {
+		const ctx = create_test_context();
+		const log = new Logger(undefined, {
+			console: ctx.console,
+			level: 'info',
+			colors: false,
+			context: {id: 1},
+		});
+
+		log.info('message');
+
+		assert.deepEqual(ctx.logged_args, ['id=1', 'message']);
+	});
+
+	test('formats values that need quoting as JSON', () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {
+			console: ctx.console,
+			level: 'info',
+			colors: false,
+			context: {name: 'two words', empty: '', quote: 'a"b', data: {a: [1]}, none: undefined},
+		});
+
+		log.info('message');
+
+		assert.equal(
+			ctx.logged_args![0],
+			'[app] name="two words" empty="" quote="a\\"b" data={"a":[1]} none=null',
+		);
+	});
+
+	test('children merge their context over the parent context', () => {
+		const ctx = create_test_context();
+		const root = new Logger('app', {
+			console: ctx.console,
+			level: 'info',
+			colors: false,
+			context: {service: 'api', region: 'us'},
+		});
+		const child = root.child('db', {context: {region: 'eu', pool: 1}});
+
+		assert.deepEqual(child.context, {service: 'api', region: 'eu', pool: 1});
+		assert.deepEqual(root.context, {service: 'api', region: 'us'});
+
+		child.child('query').info('ran');
+		assert.deepEqual(ctx.logged_args, ['[app:db:query] service=api region=eu pool=1', 'ran']);
+	});
+});
+
+describe('Logger > with()', () => {
+	test('binds context while keeping the label', () => {
+		const ctx = create_test_context();
+		const log = new Logger('api', {console: ctx.console, level: 'info', colors: false});
+		const request_log = log.with({request_id: 'abc'});
+
+		assert.equal(request_log.label, 'api');
+		assert.deepEqual(request_log.labels, ['api']);
+		assert.equal(request_log.parent, log);
+
+		request_log.info('handled');
+		assert.deepEqual(ctx.logged_args, ['[api] request_id=abc', 'handled']);
+
+		log.info('unchanged');
+		assert.deepEqual(ctx.logged_args, ['[api]', 'unchanged']);
+	});
+
+	test('chains with children and overrides fields', () => {
+		const ctx = create_test_context();
+		const log = new Logger('api', {console: ctx.console, level: 'info', colors: false});
+
+		const query_log = log.with({request_id: 'abc', user_id: 1}).child('db').with({user_id: 2});
+
+		assert.deepEqual(query_log.labels, ['api', 'db']);
+		query_log.info('query');
+		assert.deepEqual(ctx.logged_args, ['[api:db] request_id=abc user_id=2', 'query']);
+	});
+
+	test('inherits configuration dynamically', () => {
+		const ctx = create_test_context();
+		const log = new Logger('api', {console: ctx.console, level: 'warn', colors: false});
+		const request_log = log.with({request_id: 'abc'});
+
+		request_log.info('hidden');
+		assert.equal(ctx.logged_args, undefined);
+
+		log.level = 'info';
+		request_log.info('shown');
+		assert.ok(ctx.logged_args);
+	});
+});
+
+describe('Logger > Context in Structured Output', () => {
+	test('JSON records include the merged context', () => {
+		const ctx = create_test_context();
+		const log = new Logger('api', {console: ctx.console, level: 'info', format: 'json'});
+
+		log
+			.child('db', {context: {pool: 1}})
+			.with({request_id: 'abc', error: new Error('boom')})
+			.info('query');
+		const record: LogRecord = JSON.parse(ctx.logged_args![0] as string);
+
+		assert.equal(record.label, 'api:db');
+		assert.equal(record.context.pool, 1);
+		assert.equal(record.context.request_id, 'abc');
+		assert.include((record.context.error as {stack: string}).stack, 'boom');
+		assert.equal(record.message, 'query');
+	});
+
+	test('records without context have an empty object', () => {
+		const memory = create_log_sink_memory();
+		const log = new Logger('api', {level: 'info', sinks: [memory]});
+
+		log.info('no context');
+		log.with({id: 1}).info('with context');
+
+		assert.deepEqual(
+			memory.records.map((r) => r.context),
+			[{}, {id: 1}],
+		);
+	});
+});
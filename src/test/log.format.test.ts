@@ -0,0 +1,230 @@
+import {describe, test, assert} from 'vitest';
+
+import {Logger, log_format_parse, type LogRecord} from '$lib/log.ts';
+import {create_test_context} from './log_test_helpers.ts';
+
+const parse_record = (args: Array<unknown> | undefined): LogRecord => {
+	assert.ok(args);
+	assert.equal(args.length, 1);
+	assert.equal(typeof args[0], 'string');
+	return JSON.parse(args[0] as string);
+};
+
+describe('Logger > JSON Format', () => {
+	test('writes one JSON line per message', () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {console: ctx.console, level: 'info', format: 'json'});
+
+		const before = Date.now();
+		log.info('started', {port: 3000});
+		const record = parse_record(ctx.logged_args);
+
+		assert.equal(record.level, 'info');
+		assert.equal(record.label, 'app');
+		assert.deepEqual(record.labels, ['app']);
+		assert.equal(record.message, 'started');
+		assert.deepEqual(record.args, [{port: 3000}]);
+		assert.ok(Date.parse(record.timestamp) >= before - 1);
+	});
+
+	test('uses the console method of each level', () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {console: ctx.console, level: 'debug', format: 'json'});
+
+		log.error('e');
+		assert.equal(parse_record(ctx.error_args).level, 'error');
+
+		log.warn('w');
+		assert.equal(parse_record(ctx.warn_args).level, 'warn');
+
+		log.info('i');
+		assert.equal(parse_record(ctx.logged_args).level, 'info');
+
+		log.debug('d');
+		assert.equal(parse_record(ctx.logged_args).level, 'debug');
+	});
+
+	test('respects the level', () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {console: ctx.console, level: 'warn', format: 'json'});
+
+		log.info('hidden');
+		assert.equal(ctx.logged_args, undefined);
+	});
+
+	test('includes the full label chain of children', () => {
+		const ctx = create_test_context();
+		const root = new Logger('app', {console: ctx.console, level: 'info', format: 'json'});
+		const child = root.child('db').child('query');
+
+		child.info('ran');
+		const record = parse_record(ctx.logged_args);
+
+		assert.equal(record.label, 'app:db:query');
+		assert.deepEqual(record.labels, ['app', 'db', 'query']);
+	});
+
+	test('labels of loggers without a root label', () => {
+		const ctx = create_test_context();
+		const root = new Logger(undefined, {console: ctx.console, level: 'info', format: 'json'});
+
+		root.info('root');
+		const root_record = parse_record(ctx.logged_args);
+		assert.equal(root_record.label, null);
+		assert.deepEqual(root_record.labels, []);
+
+		root.child('a:b').info('child');
+		assert.deepEqual(parse_record(ctx.logged_args).labels, ['a:b']);
+	});
+
+	test('messages without a leading string', () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {console: ctx.console, level: 'info', format: 'json'});
+
+		log.info(1, 'two');
+		const record = parse_record(ctx.logged_args);
+
+		assert.equal(record.message, '');
+		assert.deepEqual(record.args, [1, 'two']);
+	});
+
+	test('serializes errors with stacks and causes', () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {console: ctx.console, level: 'info', format: 'json'});
+		const cause = new Error('root cause');
+		const error = new TypeError('failed', {cause});
+		(error as TypeError & {code: string}).code = 'E_FAILED';
+
+		log.error('request failed', error);
+		const serialized = parse_record(ctx.error_args).args[0] as Record<string, any>;
+
+		assert.equal(serialized.name, 'TypeError');
+		assert.equal(serialized.message, 'failed');
+		assert.include(serialized.stack, 'TypeError: failed');
+		assert.equal(serialized.code, 'E_FAILED');
+		assert.equal(serialized.cause.message, 'root cause');
+		assert.include(serialized.cause.stack, 'root cause');
+	});
+
+	test('serializes values JSON does not support', () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {console: ctx.console, level: 'info', format: 'json'});
+		const circular: Record<string, unknown> = {name: 'circular'};
+		circular.self = circular;
+		const shared = {shared: true};
+		const named = () => undefined;
+
+		log.info(
+			'values',
+			undefined,
+			10n,
+			Symbol('s'),
+			named,
+			new Map([['a', 1]]),
+			new Set([1, 2]),
+			new Date(0),
+			circular,
+			[shared, shared],
+		);
+		const {args} = parse_record(ctx.logged_args);
+
+		assert.deepEqual(args, [
+			null,
+			'10',
+			'Symbol(s)',
+			'[Function named]',
+			{a: 1},
+			[1, 2],
+			'1970-01-01T00:00:00.000Z',
+			{name: 'circular', self: '[Circular]'},
+			[{shared: true}, {shared: true}],
+		]);
+	});
+
+	test('ignores colors', () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {
+			console: ctx.console,
+			level: 'info',
+			format: 'json',
+			colors: true,
+		});
+
+		log.info('plain');
+
+		assert.notInclude(ctx.logged_args![0] as string, '\x1b[');
+	});
+
+	test('raw output is unaffected', () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {console: ctx.console, level: 'info', format: 'json'});
+
+		log.raw('raw', 1);
+
+		assert.deepEqual(ctx.logged_args, ['raw', 1]);
+	});
+});
+
+describe('Logger > Format Inheritance', () => {
+	test('defaults to text', () => {
+		assert.equal(new Logger().format, 'text');
+	});
+
+	test('children inherit the format', () => {
+		const ctx = create_test_context();
+		const root = new Logger('app', {console: ctx.console, level: 'info', format: 'json'});
+		const child = root.child('db');
+
+		assert.equal(child.format, 'json');
+		child.info('inherited');
+		assert.equal(parse_record(ctx.logged_args).label, 'app:db');
+	});
+
+	test('children can override the format', () => {
+		const ctx = create_test_context();
+		const root = new Logger('app', {console: ctx.console, level: 'info', format: 'json'});
+		const child = root.child('db', {format: 'text', colors: false});
+
+		child.info('text');
+
+		assert.deepEqual(ctx.logged_args, ['[app:db]', 'text']);
+	});
+
+	test('format changes propagate to children dynamically', () => {
+		const ctx = create_test_context();
+		const root = new Logger('app', {console: ctx.console, level: 'info', colors: false});
+		const child = root.child('db');
+
+		root.format = 'json';
+		child.info('now json');
+		assert.equal(parse_record(ctx.logged_args).message, 'now json');
+
+		child.format = 'text';
+		root.format = 'json';
+		child.info('still text');
+		assert.deepEqual(ctx.logged_args, ['[app:db]', 'still text']);
+
+		child.clear_format_override();
+		child.info('json again');
+		assert.equal(parse_record(ctx.logged_args).message, 'json again');
+	});
+
+	test('invalid formats throw', () => {
+		assert.throws(() => new Logger('app', {format: 'xml' as any}), /Invalid log format: 'xml'/);
+		const log = new Logger('app');
+		assert.throws(() => (log.format = 'xml' as any), /Invalid log format/);
+	});
+});
+
+describe('log_format_parse', () => {
+	test('parses valid formats', () => {
+		assert.equal(log_format_parse('text'), 'text');
+		assert.equal(log_format_parse('json'), 'json');
+		assert.equal(log_format_parse(undefined), undefined);
+		assert.equal(log_format_parse(''), undefined);
+	});
+
+	test('throws for invalid formats', () => {
+		assert.throws(() => log_format_parse('JSON'), /Invalid log format: 'JSON'/);
+	});
+});
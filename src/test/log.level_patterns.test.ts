@@ -0,0 +1,229 @@
+import {describe, test, assert} from 'vitest';
+
+import {
+	Logger,
+	log_level_patterns_match,
+	log_level_patterns_parse,
+	type LogLevelPattern,
+} from '$lib/log.ts';
+import {create_test_context} from './log_test_helpers.ts';
+
+describe('log_level_patterns_parse', () => {
+	test('parses comma-separated patterns in order', () => {
+		assert.deepEqual(log_level_patterns_parse('app:db=debug,app:*=warn,*=info'), [
+			{pattern: 'app:db', level: 'debug'},
+			{pattern: 'app:*', level: 'warn'},
+			{pattern: '*', level: 'info'},
+		]);
+	});
+
+	test('trims whitespace and skips empty entries', () => {
+		assert.deepEqual(log_level_patterns_parse(' app = debug ,, *=off,'), [
+			{pattern: 'app', level: 'debug'},
+			{pattern: '*', level: 'off'},
+		]);
+	});
+
+	test('a bare level applies to every label', () => {
+		assert.deepEqual(log_level_patterns_parse('warn,app=debug'), [
+			{pattern: '*', level: 'warn'},
+			{pattern: 'app', level: 'debug'},
+		]);
+	});
+
+	test('a bare pattern enables debug logging like DEBUG', () => {
+		assert.deepEqual(log_level_patterns_parse('app:db, app:http:* ,info'), [
+			{pattern: 'app:db', level: 'debug'},
+			{pattern: 'app:http:*', level: 'debug'},
+			{pattern: '*', level: 'info'},
+		]);
+	});
+
+	test('returns undefined for empty values', () => {
+		assert.equal(log_level_patterns_parse(undefined), undefined);
+		assert.equal(log_level_patterns_parse(''), undefined);
+		assert.equal(log_level_patterns_parse(' , '), undefined);
+	});
+
+	test('throws for invalid entries', () => {
+		assert.throws(() => log_level_patterns_parse('app=verbose'), /Invalid log level: 'verbose'/);
+		assert.throws(() => log_level_patterns_parse('app='), /Invalid log level pattern: 'app='/);
+		assert.throws(() => log_level_patterns_parse('=debug'), /Invalid log level pattern: '=debug'/);
+	});
+});
+
+describe('log_level_patterns_match', () => {
+	const patterns = log_level_patterns_parse('app:db=debug,app:*=warn,*=info')!;
+
+	test('matches full labels', () => {
+		assert.equal(log_level_patterns_match(patterns, 'app:db'), 'debug');
+		assert.equal(log_level_patterns_match(patterns, 'app:http'), 'warn');
+		assert.equal(log_level_patterns_match(patterns, 'app'), 'info');
+		assert.equal(log_level_patterns_match(patterns, ''), 'info');
+	});
+
+	test('wildcards match across segments', () => {
+		assert.equal(log_level_patterns_match(patterns, 'app:db:query'), 'warn');
+		const middle: Array<LogLevelPattern> = [{pattern: 'app:*:query', level: 'debug'}];
+		assert.equal(log_level_patterns_match(middle, 'app:db:query'), 'debug');
+		assert.equal(log_level_patterns_match(middle, 'app:db'), null);
+	});
+
+	test('the most specific pattern wins regardless of order', () => {
+		const reversed = log_level_patterns_parse('*=info,app:*=warn,app:db=debug')!;
+		assert.equal(log_level_patterns_match(reversed, 'app:db'), 'debug');
+		assert.equal(log_level_patterns_match(reversed, 'app:http'), 'warn');
+		assert.equal(log_level_patterns_match(reversed, 'other'), 'info');
+	});
+
+	test('ties go to the later pattern', () => {
+		const patterns = log_level_patterns_parse('app=debug,*=warn,*=error')!;
+		assert.equal(log_level_patterns_match(patterns, 'other'), 'error');
+	});
+
+	test('escapes regexp characters', () => {
+		const patterns = log_level_patterns_parse('a.b*=debug')!;
+		assert.equal(log_level_patterns_match(patterns, 'a.b:c'), 'debug');
+		assert.equal(log_level_patterns_match(patterns, 'axb:c'), null);
+	});
+
+	test('returns null without a match', () => {
+		assert.equal(log_level_patterns_match([], 'app'), null);
+		assert.equal(log_level_patterns_match([{pattern: 'app', level: 'debug'}], 'app:db'), null);
+	});
+});
+
+describe('Logger > Level Patterns', () => {
+	const create_root = () => {
+		const ctx = create_test_context();
+		const root = new Logger('app', {
+			console: ctx.console,
+			colors: false,
+			level: 'error',
+			level_patterns: 'app:db=debug,app:*=warn',
+		});
+		return {ctx, root};
+	};
+
+	test('sets the levels of children by label', () => {
+		const {ctx, root} = create_root();
+		const db = root.child('db');
+		const http = root.child('http');
+
+		assert.equal(db.level, 'debug');
+		assert.equal(http.level, 'warn');
+		assert.equal(root.level, 'error');
+
+		db.debug('query');
+		assert.deepEqual(ctx.logged_args, ['┆debug┆ [app:db]', 'query']);
+
+		http.info('hidden');
+		http.warn('shown');
+		assert.deepEqual(ctx.warn_args, ['⚑warn⚑ [app:http]', 'shown']);
+	});
+
+	test('children without a match inherit the level of their parent', () => {
+		const root = new Logger('app', {level: 'info', level_patterns: 'app:db=debug'});
+		const http = root.child('http');
+
+		assert.equal(http.level, 'info');
+		assert.equal(http.child('route').level, 'info');
+		root.level = 'warn';
+		assert.equal(http.level, 'warn');
+		// Descendants of a match inherit its level
+		assert.equal(root.child('db').child('query').level, 'debug');
+	});
+
+	test("an ancestor's own level takes precedence over wildcards set above it", () => {
+		const root = new Logger(undefined, {level_patterns: '*=info,app:db=debug'});
+		const app = root.child('app', {level: 'warn'});
+
+		assert.equal(root.level, 'info');
+		assert.equal(app.child('http').level, 'warn');
+		assert.equal(app.child('http').child('route').level, 'warn');
+		// Patterns naming the full label still apply
+		assert.equal(app.child('db').level, 'debug');
+		// Patterns set at or below the ancestor apply to its descendants
+		app.level_patterns = 'app:*=error';
+		assert.equal(app.child('http').level, 'error');
+	});
+
+	test("a logger's own level takes precedence", () => {
+		const {root} = create_root();
+
+		assert.equal(root.child('db', {level: 'off'}).level, 'off');
+
+		const db = root.child('db');
+		db.level = 'info';
+		assert.equal(db.level, 'info');
+		db.clear_level_override();
+		assert.equal(db.level, 'debug');
+	});
+
+	test('accepts arrays of patterns', () => {
+		const log = new Logger('app', {
+			level: 'off',
+			level_patterns: [{pattern: 'app:db', level: 'debug'}],
+		});
+
+		assert.equal(log.child('db').level, 'debug');
+		assert.throws(
+			() => new Logger('app', {level_patterns: [{pattern: 'app', level: 'verbose' as any}]}),
+			/Invalid log level: 'verbose'/,
+		);
+	});
+
+	test('changes apply to existing children', () => {
+		const {root} = create_root();
+		const db = root.child('db');
+		assert.equal(db.level, 'debug');
+
+		root.level_patterns = 'app:db=off';
+		assert.equal(db.level, 'off');
+
+		root.level_patterns = null;
+		assert.equal(db.level, 'error');
+
+		root.clear_level_patterns_override();
+		assert.equal(root.level_patterns, null);
+	});
+
+	test('the cached level updates when patterns change', () => {
+		const {ctx, root} = create_root();
+		const db = root.child('db');
+
+		db.debug('shown');
+		assert.ok(ctx.logged_args);
+		ctx.logged_args = undefined;
+
+		root.level_patterns = 'app:db=info';
+		db.debug('hidden');
+		assert.equal(ctx.logged_args, undefined);
+		db.info('shown');
+		assert.ok(ctx.logged_args);
+	});
+
+	test('children can override the patterns', () => {
+		const {root} = create_root();
+		const db = root.child('db', {level_patterns: 'app:db:query=off'});
+
+		assert.equal(db.level, 'error');
+		assert.equal(db.child('query').level, 'off');
+		assert.deepEqual(db.child('pool').level_patterns, [{pattern: 'app:db:query', level: 'off'}]);
+	});
+
+	test('loggers bound with context match their label', () => {
+		const {root} = create_root();
+
+		assert.equal(root.child('db').with({id: 1}).level, 'debug');
+	});
+
+	test('invalid patterns throw', () => {
+		assert.throws(
+			() => new Logger('app', {level_patterns: 'app=verbose'}),
+			/Invalid log level: 'verbose'/,
+		);
+		const log = new Logger('app');
+		assert.throws(() => (log.level_patterns = '=debug'), /Invalid log level pattern/);
+	});
+});
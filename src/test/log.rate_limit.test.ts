@@ -0,0 +1,228 @@
+import {describe, test, assert, vi, beforeEach, afterEach} from 'vitest';
+
+import {Logger, LogRateLimiter, type LogRecord} from '$lib/log.ts';
+import {create_log_sink_memory} from '$lib/log_sinks.ts';
+import {create_test_context} from './log_test_helpers.ts';
+
+beforeEach(() => {
+	vi.useFakeTimers();
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+const create_logger = (rate_limit: LogRateLimiter) => {
+	const memory = create_log_sink_memory();
+	const log = new Logger('app', {level: 'debug', sinks: [memory], rate_limit});
+	const messages = () => memory.records.map((r: LogRecord) => r.message);
+	return {log, memory, messages};
+};
+
+describe('Logger > Rate Limiting', () => {
+	test('writes up to max messages per key in each interval', () => {
+		const {log, messages} = create_logger(new LogRateLimiter({max: 3, interval_ms: 1000}));
+
+		for (let i = 0; i < 10; i++) log.warn('retrying');
+		log.warn('other');
+
+		assert.deepEqual(messages(), ['retrying', 'retrying', 'retrying', 'other']);
+	});
+
+	test('writes a summary when the interval ends', () => {
+		const {log, memory, messages} = create_logger(new LogRateLimiter({max: 2, interval_ms: 1000}));
+
+		for (let i = 0; i < 5; i++) log.warn('retrying', i);
+		assert.equal(memory.records.length, 2);
+
+		vi.advanceTimersByTime(1000);
+
+		assert.deepEqual(messages(), [
+			'retrying',
+			'retrying',
+			'Suppressed 3 messages like "retrying" (limit 2 per 1000ms)',
+		]);
+		const summary = memory.records[2]!;
+		assert.equal(summary.level, 'warn');
+		assert.equal(summary.label, 'app');
+	});
+
+	test('a new interval starts after the previous one ends', () => {
+		const {log, messages} = create_logger(new LogRateLimiter({max: 1, interval_ms: 1000}));
+
+		log.info('tick');
+		log.info('tick');
+		vi.advanceTimersByTime(1000);
+		log.info('tick');
+		log.info('tick');
+
+		assert.deepEqual(messages(), [
+			'tick',
+			'Suppressed 1 message like "tick" (limit 1 per 1000ms)',
+			'tick',
+		]);
+	});
+
+	test('writes no summary without suppressed messages', () => {
+		const {log, messages} = create_logger(new LogRateLimiter({max: 2}));
+
+		log.info('once');
+		vi.advanceTimersByTime(5000);
+
+		assert.deepEqual(messages(), ['once']);
+	});
+
+	test('levels and labels have separate limits', () => {
+		const rate_limit = new LogRateLimiter({max: 1});
+		const {log, messages} = create_logger(rate_limit);
+
+		log.info('message');
+		log.warn('message');
+		log.child('db').info('message');
+		log.info('message');
+
+		assert.deepEqual(messages(), ['message', 'message', 'message']);
+	});
+
+	test('flush writes summaries immediately and resets the limits', () => {
+		const rate_limit = new LogRateLimiter({max: 1, interval_ms: 60_000});
+		const {log, messages} = create_logger(rate_limit);
+
+		log.error('failed');
+		log.error('failed');
+		rate_limit.flush();
+		log.error('failed');
+
+		assert.deepEqual(messages(), [
+			'failed',
+			'Suppressed 1 message like "failed" (limit 1 per 60000ms)',
+			'failed',
+		]);
+
+		// The cleared timer writes nothing
+		vi.advanceTimersByTime(60_000);
+		assert.equal(messages().length, 3);
+	});
+
+	test('keys messages by call site', () => {
+		const {log, messages} = create_logger(new LogRateLimiter({max: 2, key: 'call_site'}));
+
+		for (let i = 0; i < 5; i++) log.info(`item ${i}`);
+		for (let i = 0; i < 5; i++) log.info(`other ${i}`);
+
+		assert.deepEqual(messages(), ['item 0', 'item 1', 'other 0', 'other 1']);
+
+		vi.advanceTimersByTime(1000);
+		assert.deepEqual(messages().slice(4), [
+			'Suppressed 3 messages like "item 4" (limit 2 per 1000ms)',
+			'Suppressed 3 messages like "other 4" (limit 2 per 1000ms)',
+		]);
+	});
+
+	test('keys messages with a function', () => {
+		const {log, messages} = create_logger(
+			new LogRateLimiter({max: 1, key: (entry) => String(entry.args[1])}),
+		);
+
+		log.info('a', 'x');
+		log.info('b', 'x');
+		log.info('c', 'y');
+
+		assert.deepEqual(messages(), ['a', 'c']);
+	});
+
+	test('samples messages', () => {
+		const values = [0.1, 0.9, 0.4, 0.6];
+		let index = 0;
+		const {log, messages} = create_logger(
+			new LogRateLimiter({max: 100, sample_rate: 0.5, random: () => values[index++]!}),
+		);
+
+		for (let i = 0; i < 4; i++) log.debug(`sample ${i}`);
+
+		assert.deepEqual(messages(), ['sample 0', 'sample 2']);
+		vi.advanceTimersByTime(1000);
+		assert.equal(messages().length, 4);
+	});
+
+	test('summarizes messages without a leading string', () => {
+		const {log, messages} = create_logger(new LogRateLimiter({max: 1}));
+
+		log.info(1);
+		log.info(2);
+		vi.advanceTimersByTime(1000);
+
+		assert.equal(messages()[1], 'Suppressed 1 message (limit 1 per 1000ms)');
+	});
+
+	test('filters by level before rate limiting', () => {
+		const rate_limit = new LogRateLimiter({max: 1});
+		const {log, messages} = create_logger(rate_limit);
+		log.level = 'info';
+
+		log.debug('hidden');
+		log.info('shown');
+
+		assert.deepEqual(messages(), ['shown']);
+	});
+
+	test('raw output is not rate limited', () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {console: ctx.console, rate_limit: new LogRateLimiter({max: 1})});
+
+		log.raw('a');
+		log.raw('b');
+
+		assert.deepEqual(ctx.logged_args, ['b']);
+	});
+});
+
+describe('Logger > Rate Limit Inheritance', () => {
+	test('children inherit and share the rate limit', () => {
+		const rate_limit = new LogRateLimiter({max: 1, key: () => 'shared'});
+		const {log, messages} = create_logger(rate_limit);
+		const child = log.child('db');
+
+		assert.equal(child.rate_limit, rate_limit);
+		log.info('parent');
+		child.info('child');
+
+		assert.deepEqual(messages(), ['parent']);
+	});
+
+	test('children can disable the rate limit', () => {
+		const {log, messages} = create_logger(new LogRateLimiter({max: 1}));
+		const child = log.child('db', {rate_limit: null});
+
+		child.info('a');
+		child.info('a');
+		assert.deepEqual(messages(), ['a', 'a']);
+
+		child.clear_rate_limit_override();
+		child.info('a');
+		assert.equal(messages().length, 3);
+		child.info('a');
+		assert.equal(messages().length, 3);
+	});
+
+	test('defaults to no rate limit', () => {
+		assert.equal(new Logger('app').rate_limit, null);
+	});
+});
+
+describe('LogRateLimiter', () => {
+	test('validates options', () => {
+		assert.throws(() => new LogRateLimiter({max: 0}), /max must be at least 1: 0/);
+		assert.throws(() => new LogRateLimiter({interval_ms: 0}), /interval must be positive: 0/);
+		assert.throws(() => new LogRateLimiter({sample_rate: 2}), /between 0 and 1: 2/);
+		assert.throws(() => new LogRateLimiter({max: NaN}), /max must be at least 1/);
+	});
+
+	test('defaults', () => {
+		const rate_limit = new LogRateLimiter();
+
+		assert.equal(rate_limit.max, 10);
+		assert.equal(rate_limit.interval_ms, 1000);
+		assert.equal(rate_limit.sample_rate, 1);
+	});
+});
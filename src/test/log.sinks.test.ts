@@ -0,0 +1,335 @@
+import {describe, test, assert, beforeEach, afterEach} from 'vitest';
+import {mkdtempSync, readFileSync, rmSync, existsSync} from 'node:fs';
+import {join} from 'node:path';
+import {tmpdir} from 'node:os';
+
+import {Logger, type LogEntry, type LogSink} from '$lib/log.ts';
+import {
+	create_log_sink_console,
+	create_log_sink_file,
+	create_log_sink_memory,
+} from '$lib/log_sinks.ts';
+import {create_test_context} from './log_test_helpers.ts';
+
+const create_collecting_sink = (level?: LogSink['level']): LogSink & {entries: Array<LogEntry>} => {
+	const entries: Array<LogEntry> = [];
+	return {level, entries, write: (entry) => entries.push(entry)};
+};
+
+describe('Logger > Sinks', () => {
+	test('sinks replace the console output', () => {
+		const ctx = create_test_context();
+		const sink = create_collecting_sink();
+		const log = new Logger('app', {console: ctx.console, level: 'info', sinks: [sink]});
+
+		log.info('hello', 1);
+
+		assert.equal(ctx.logged_args, undefined);
+		assert.equal(sink.entries.length, 1);
+		assert.equal(sink.entries[0]!.level, 'info');
+		assert.deepEqual(sink.entries[0]!.args, ['hello', 1]);
+		assert.equal(sink.entries[0]!.logger, log);
+	});
+
+	test('each sink filters by its own level', () => {
+		const all = create_collecting_sink();
+		const warnings = create_collecting_sink('warn');
+		const off = create_collecting_sink('off');
+		const log = new Logger('app', {level: 'debug', sinks: [all, warnings, off]});
+
+		log.error('e');
+		log.warn('w');
+		log.info('i');
+		log.debug('d');
+
+		assert.deepEqual(
+			all.entries.map((e) => e.level),
+			['error', 'warn', 'info', 'debug'],
+		);
+		assert.deepEqual(
+			warnings.entries.map((e) => e.level),
+			['error', 'warn'],
+		);
+		assert.equal(off.entries.length, 0);
+	});
+
+	test("the logger's level applies before the sinks' levels", () => {
+		const sink = create_collecting_sink('debug');
+		const log = new Logger('app', {level: 'warn', sinks: [sink]});
+
+		log.info('hidden');
+		log.debug('hidden');
+		log.warn('shown');
+
+		assert.deepEqual(
+			sink.entries.map((e) => e.level),
+			['warn'],
+		);
+	});
+
+	test('raw output bypasses sinks', () => {
+		const ctx = create_test_context();
+		const sink = create_collecting_sink();
+		const log = new Logger('app', {console: ctx.console, sinks: [sink]});
+
+		log.raw('raw');
+
+		assert.deepEqual(ctx.logged_args, ['raw']);
+		assert.equal(sink.entries.length, 0);
+	});
+
+	test('prefix() returns the text prefix of each level', () => {
+		const log = new Logger('app', {colors: false});
+
+		assert.equal(log.prefix('error'), '🞩error🞩 [app]');
+		assert.equal(log.prefix('warn'), '⚑warn⚑ [app]');
+		assert.equal(log.prefix('info'), '[app]');
+		assert.equal(log.prefix('debug'), '┆debug┆ [app]');
+		assert.equal(new Logger(undefined, {colors: false}).prefix('info'), '');
+	});
+});
+
+describe('Logger > Sinks Inheritance', () => {
+	test('children inherit sinks and pass themselves as the logger', () => {
+		const sink = create_collecting_sink();
+		const root = new Logger('app', {level: 'info', sinks: [sink]});
+		const child = root.child('db');
+
+		assert.equal(child.sinks, root.sinks);
+		child.info('query');
+
+		assert.equal(sink.entries[0]!.logger, child);
+	});
+
+	test('children can override sinks', () => {
+		const root_sink = create_collecting_sink();
+		const child_sink = create_collecting_sink();
+		const root = new Logger('app', {level: 'info', sinks: [root_sink]});
+		const child = root.child('db', {sinks: [child_sink]});
+
+		child.info('child');
+
+		assert.equal(root_sink.entries.length, 0);
+		assert.equal(child_sink.entries.length, 1);
+	});
+
+	test('null sinks write to the console even with a parent sink', () => {
+		const ctx = create_test_context();
+		const sink = create_collecting_sink();
+		const root = new Logger('app', {console: ctx.console, level: 'info', sinks: [sink]});
+		const child = root.child('db', {sinks: null, colors: false});
+
+		child.info('console');
+
+		assert.deepEqual(ctx.logged_args, ['[app:db]', 'console']);
+		assert.equal(sink.entries.length, 0);
+	});
+
+	test('sink changes propagate dynamically and can be cleared', () => {
+		const ctx = create_test_context();
+		const sink = create_collecting_sink();
+		const root = new Logger('app', {console: ctx.console, level: 'info', colors: false});
+		const child = root.child('db');
+
+		assert.equal(child.sinks, null);
+		root.sinks = [sink];
+		child.info('to sink');
+		assert.equal(sink.entries.length, 1);
+
+		child.sinks = null;
+		child.info('to console');
+		assert.deepEqual(ctx.logged_args, ['[app:db]', 'to console']);
+
+		child.clear_sinks_override();
+		child.info('to sink again');
+		assert.equal(sink.entries.length, 2);
+
+		root.clear_sinks_override();
+		assert.equal(child.sinks, null);
+	});
+});
+
+describe('create_log_sink_console', () => {
+	test("writes with the logger's console and format by default", () => {
+		const ctx = create_test_context();
+		const log = new Logger('app', {
+			console: ctx.console,
+			level: 'info',
+			colors: false,
+			sinks: [create_log_sink_console()],
+		});
+
+		log.warn('careful');
+		assert.deepEqual(ctx.warn_args, ['⚑warn⚑ [app]', 'careful']);
+
+		log.format = 'json';
+		log.error('failed');
+		assert.equal(JSON.parse(ctx.error_args![0] as string).message, 'failed');
+	});
+
+	test('overrides the console, format, and level', () => {
+		const logger_ctx = create_test_context();
+		const sink_ctx = create_test_context();
+		const log = new Logger('app', {
+			console: logger_ctx.console,
+			level: 'debug',
+			sinks: [create_log_sink_console({console: sink_ctx.console, format: 'json', level: 'info'})],
+		});
+
+		log.debug('hidden');
+		assert.equal(sink_ctx.logged_args, undefined);
+
+		log.info('shown');
+		assert.equal(logger_ctx.logged_args, undefined);
+		assert.equal(JSON.parse(sink_ctx.logged_args![0] as string).message, 'shown');
+	});
+});
+
+describe('create_log_sink_file', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'log_sinks_test_'));
+	});
+
+	afterEach(() => {
+		rmSync(dir, {recursive: true, force: true});
+	});
+
+	const read_lines = (path: string): Array<string> =>
+		readFileSync(path, 'utf8').split('\n').filter(Boolean);
+
+	test('appends JSON lines and creates the directory', () => {
+		const path = join(dir, 'nested', 'app.log');
+		const log = new Logger('app', {level: 'info', sinks: [create_log_sink_file({path})]});
+
+		log.info('first', {n: 1});
+		log.error('second', new Error('boom'));
+
+		const lines = read_lines(path).map((line) => JSON.parse(line));
+		assert.equal(lines.length, 2);
+		assert.equal(lines[0].message, 'first');
+		assert.deepEqual(lines[0].args, [{n: 1}]);
+		assert.equal(lines[1].level, 'error');
+		assert.include(lines[1].args[0].stack, 'boom');
+	});
+
+	test('writes text without colors', () => {
+		const path = join(dir, 'app.log');
+		const log = new Logger('app', {
+			level: 'info',
+			colors: true,
+			sinks: [create_log_sink_file({path, format: 'text'})],
+		});
+
+		log.warn('careful', {n: 1});
+		log.child('db').info('connected');
+
+		assert.deepEqual(read_lines(path), ['⚑warn⚑ [app] careful { n: 1 }', '[app:db] connected']);
+	});
+
+	test('rotates files past max_bytes and keeps max_files', () => {
+		const path = join(dir, 'app.log');
+		const log = new Logger(undefined, {
+			level: 'info',
+			sinks: [create_log_sink_file({path, format: 'text', max_bytes: 10, max_files: 2})],
+		});
+
+		// Each line is 7 bytes, so every write after the first rotates
+		for (const n of [1, 2, 3, 4]) log.info(`line ${n}`);
+
+		assert.deepEqual(read_lines(path), ['line 4']);
+		assert.deepEqual(read_lines(`${path}.1`), ['line 3']);
+		assert.deepEqual(read_lines(`${path}.2`), ['line 2']);
+		assert.ok(!existsSync(`${path}.3`));
+	});
+
+	test('continues the size of an existing file', () => {
+		const path = join(dir, 'app.log');
+		const options = {path, format: 'text' as const, max_bytes: 15, max_files: 1};
+		new Logger(undefined, {level: 'info', sinks: [create_log_sink_file(options)]}).info('line 1');
+
+		const log = new Logger(undefined, {level: 'info', sinks: [create_log_sink_file(options)]});
+		log.info('line 2');
+		log.info('line 3');
+
+		assert.deepEqual(read_lines(`${path}.1`), ['line 1', 'line 2']);
+		assert.deepEqual(read_lines(path), ['line 3']);
+	});
+
+	test('truncates without rotated files when max_files is 0', () => {
+		const path = join(dir, 'app.log');
+		const log = new Logger(undefined, {
+			level: 'info',
+			sinks: [create_log_sink_file({path, format: 'text', max_bytes: 10, max_files: 0})],
+		});
+
+		log.info('line 1');
+		log.info('line 2');
+
+		assert.deepEqual(read_lines(path), ['line 2']);
+		assert.ok(!existsSync(`${path}.1`));
+	});
+});
+
+describe('create_log_sink_memory', () => {
+	test('keeps records in order', () => {
+		const memory = create_log_sink_memory();
+		const log = new Logger('app', {level: 'info', sinks: [memory]});
+
+		log.info('first');
+		log.child('db').warn('second', 2);
+
+		assert.deepEqual(
+			memory.records.map((r) => [r.label, r.level, r.message, r.args]),
+			[
+				['app', 'info', 'first', []],
+				['app:db', 'warn', 'second', [2]],
+			],
+		);
+	});
+
+	test('drops the oldest records past capacity', () => {
+		const memory = create_log_sink_memory({capacity: 3});
+		const log = new Logger('app', {level: 'info', sinks: [memory]});
+
+		for (let i = 1; i <= 7; i++) log.info(`message ${i}`);
+
+		assert.deepEqual(
+			memory.records.map((r) => r.message),
+			['message 5', 'message 6', 'message 7'],
+		);
+	});
+
+	test('filters by level and clears', () => {
+		const memory = create_log_sink_memory({level: 'error'});
+		const log = new Logger('app', {level: 'info', sinks: [memory]});
+
+		log.info('hidden');
+		log.error('kept');
+		assert.deepEqual(
+			memory.records.map((r) => r.message),
+			['kept'],
+		);
+
+		memory.clear();
+		assert.deepEqual(memory.records, []);
+		log.error('after clear');
+		assert.equal(memory.records.length, 1);
+	});
+
+	test('snapshots args when written', () => {
+		const memory = create_log_sink_memory();
+		const log = new Logger('app', {level: 'info', sinks: [memory]});
+		const data = {count: 1};
+
+		log.info('data', data);
+		data.count = 2;
+
+		assert.deepEqual(memory.records[0]!.args, [{count: 1}]);
+	});
+
+	test('throws for invalid capacity', () => {
+		assert.throws(() => create_log_sink_memory({capacity: 0}), /capacity must be positive/);
+	});
+});
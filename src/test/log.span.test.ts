@@ -0,0 +1,172 @@
+import {describe, test, assert, vi, beforeEach, afterEach} from 'vitest';
+
+import {Logger, LogSpan} from '$lib/log.ts';
+import {Timings} from '$lib/timings.ts';
+import {create_test_context} from './log_test_helpers.ts';
+
+beforeEach(() => {
+	vi.useFakeTimers({toFake: ['performance']});
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+const create_logger = (level: 'info' | 'debug' = 'debug') => {
+	const ctx = create_test_context();
+	const log = new Logger('app', {console: ctx.console, level, colors: false});
+	return {ctx, log};
+};
+
+describe('Logger > Spans', () => {
+	test('logs the duration when a span ends', () => {
+		const {ctx, log} = create_logger();
+
+		const span = log.span('build');
+		assert.ok(span instanceof LogSpan);
+		assert.equal(span.duration, null);
+		vi.advanceTimersByTime(1500);
+		const duration = span.end();
+
+		assert.equal(duration, 1500);
+		assert.equal(span.duration, 1500);
+		assert.deepEqual(ctx.logged_args, ['┆debug┆ [app]', 'build 1.50s']);
+	});
+
+	test('logs a tree of nested spans', () => {
+		const {ctx, log} = create_logger();
+
+		const build = log.span('build');
+		const compile = build.span('compile');
+		const typecheck = compile.span('typecheck');
+		vi.advanceTimersByTime(60);
+		typecheck.end();
+		const emit = compile.span('emit');
+		vi.advanceTimersByTime(40);
+		emit.end();
+		compile.end();
+		const bundle = build.span('bundle');
+		vi.advanceTimersByTime(20);
+		bundle.end();
+		build.end();
+
+		assert.equal(
+			ctx.logged_args![1],
+			'build 120.00ms\n├─ compile 100.00ms\n│  ├─ typecheck 60.00ms\n│  └─ emit 40.00ms\n└─ bundle 20.00ms',
+		);
+	});
+
+	test('child spans log nothing when they end', () => {
+		const {ctx, log} = create_logger();
+
+		const build = log.span('build');
+		build.span('compile').end();
+
+		assert.equal(ctx.logged_args, undefined);
+		build.end();
+		assert.ok(ctx.logged_args);
+	});
+
+	test('ending a span ends its running children', () => {
+		const {log} = create_logger();
+
+		const build = log.span('build');
+		const compile = build.span('compile');
+		const typecheck = compile.span('typecheck');
+		vi.advanceTimersByTime(10);
+		build.end();
+
+		assert.equal(compile.duration, 10);
+		assert.equal(typecheck.duration, 10);
+	});
+
+	test('ending a span again does nothing', () => {
+		const {ctx, log} = create_logger();
+
+		const span = log.span('build');
+		vi.advanceTimersByTime(10);
+		span.end();
+		ctx.logged_args = undefined;
+		vi.advanceTimersByTime(10);
+
+		assert.equal(span.end(), 10);
+		assert.equal(ctx.logged_args, undefined);
+	});
+
+	test('formats running spans', () => {
+		const {log} = create_logger();
+
+		const build = log.span('build');
+		build.span('compile').end();
+		build.span('bundle');
+
+		assert.equal(build.format(), 'build ...\n├─ compile 0.00ns\n└─ bundle ...');
+	});
+
+	test('records durations in timings', () => {
+		const {log} = create_logger();
+		const timings = new Timings();
+
+		const build = log.span('build', {timings});
+		const compile = build.span('compile');
+		vi.advanceTimersByTime(5);
+		compile.end();
+		vi.advanceTimersByTime(5);
+		build.end();
+
+		assert.equal(compile.timings, timings);
+		assert.equal(compile.key, 'build/compile');
+		assert.deepEqual(Array.from(timings.entries()), [
+			['build', 10],
+			['build/compile', 5],
+		]);
+	});
+
+	test('spans with the same name have their own keys', () => {
+		const {log} = create_logger();
+		const timings = new Timings();
+
+		const first = log.span('build', {timings});
+		const concurrent = log.span('build', {timings});
+		vi.advanceTimersByTime(5);
+		first.end();
+		vi.advanceTimersByTime(5);
+		concurrent.end();
+		const sequential = log.span('build', {timings});
+		const child = sequential.span('compile');
+		vi.advanceTimersByTime(5);
+		sequential.end();
+
+		assert.equal(first.key, 'build');
+		assert.equal(concurrent.key, 'build_2');
+		assert.equal(sequential.key, 'build_3');
+		assert.equal(child.key, 'build_3/compile');
+		assert.deepEqual(Array.from(timings.entries()), [
+			['build', 5],
+			['build_2', 10],
+			['build_3', 5],
+			['build_3/compile', 5],
+		]);
+	});
+
+	test('logs at the configured level', () => {
+		const {ctx, log} = create_logger('info');
+
+		const hidden = log.span('hidden');
+		hidden.end();
+		assert.equal(ctx.logged_args, undefined);
+
+		const shown = log.span('shown', {level: 'info'});
+		assert.equal(shown.span('child').level, 'info');
+		shown.end();
+		assert.deepEqual(ctx.logged_args, ['[app]', 'shown 0.00ns\n└─ child 0.00ns']);
+	});
+
+	test('spans of child loggers log with their labels', () => {
+		const {ctx, log} = create_logger();
+
+		log.child('db').span('migrate').end();
+
+		assert.deepEqual(ctx.logged_args, ['┆debug┆ [app:db]', 'migrate 0.00ns']);
+	});
+});
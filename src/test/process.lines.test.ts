@@ -0,0 +1,145 @@
+import {test, describe, assert} from 'vitest';
+
+import {
+	ProcessRegistry,
+	print_spawn_line,
+	type SpawnLine,
+	type SpawnLinesOptions,
+} from '$lib/process.js';
+import {Logger, type LogConsole} from '$lib/log.js';
+
+const spawn_node = (script: string, options?: SpawnLinesOptions) =>
+	new ProcessRegistry().spawn_lines('node', ['-e', script], options);
+
+const collect = async (lines: AsyncIterable<SpawnLine>): Promise<Array<SpawnLine>> => {
+	const collected: Array<SpawnLine> = [];
+	for await (const line of lines) collected.push(line);
+	return collected;
+};
+
+describe('spawn_lines', () => {
+	test('yields tagged lines as the process runs', async () => {
+		const spawned = spawn_node(
+			`console.log('a'); console.error('b'); setTimeout(() => console.log('c'), 30);`,
+		);
+
+		const iterator = spawned[Symbol.asyncIterator]();
+		const first = await iterator.next();
+		assert.ok(!first.done);
+		// The process is still running when the first line arrives
+		assert.strictEqual(spawned.child.exitCode, null);
+
+		const rest = await collect({[Symbol.asyncIterator]: () => iterator});
+		const lines = [first.value, ...rest];
+		const to_texts = (stream: SpawnLine['stream']) =>
+			lines.filter((l) => l.stream === stream).map((l) => l.text);
+		assert.deepEqual(to_texts('stdout'), ['a', 'c']);
+		assert.deepEqual(to_texts('stderr'), ['b']);
+		assert.strictEqual(lines.at(-1)!.text, 'c');
+		for (const line of lines) {
+			assert.strictEqual(typeof line.time, 'number');
+			assert.strictEqual(line.label, null);
+		}
+
+		const result = await spawned.closed;
+		assert.ok(result.ok);
+	});
+
+	test('splits chunks into lines and flushes the last line', async () => {
+		const spawned = spawn_node(
+			`process.stdout.write('one\\r\\ntw'); setTimeout(() => process.stdout.write('o\\n\\nthree'), 10);`,
+		);
+
+		const lines = await collect(spawned);
+
+		assert.deepEqual(
+			lines.map((l) => l.text),
+			['one', 'two', '', 'three'],
+		);
+	});
+
+	test('resolves the final result for failed processes', async () => {
+		const spawned = spawn_node(`console.error('failed'); process.exit(2);`);
+
+		const lines = await collect(spawned);
+		const result = await spawned.closed;
+
+		assert.deepEqual(
+			lines.map((l) => l.text),
+			['failed'],
+		);
+		assert.ok(!result.ok);
+		assert.strictEqual(result.code, 2);
+	});
+
+	test('ends for commands that fail to spawn', async () => {
+		const spawned = new ProcessRegistry().spawn_lines('nonexistent_command_xyz_12345');
+
+		assert.deepEqual(await collect(spawned), []);
+		assert.ok((await spawned.closed).error);
+	});
+
+	test('buffers lines until iterated, dropping the oldest', async () => {
+		const spawned = spawn_node(`for (let i = 0; i < 5; i++) console.log(i);`, {
+			max_buffered_lines: 2,
+		});
+		await spawned.closed;
+
+		const lines = await collect(spawned);
+
+		assert.deepEqual(
+			lines.map((l) => l.text),
+			['3', '4'],
+		);
+	});
+
+	test('stopping iteration leaves the process running', async () => {
+		const registry = new ProcessRegistry();
+		const spawned = registry.spawn_lines('node', [
+			'-e',
+			`console.log('ready'); setTimeout(() => {}, 10000);`,
+		]);
+
+		const iterator = spawned[Symbol.asyncIterator]();
+		assert.strictEqual((await iterator.next()).value?.text, 'ready');
+		await iterator.return!();
+
+		assert.strictEqual(spawned.child.exitCode, null);
+		assert.deepEqual(await collect(spawned), []);
+		await registry.despawn_all();
+	});
+
+	test('labels lines and forwards them to a logger', async () => {
+		const logged: Array<[string, Array<unknown>]> = [];
+		const console: LogConsole = {
+			log: (...args) => logged.push(['log', args]),
+			warn: (...args) => logged.push(['warn', args]),
+			error: (...args) => logged.push(['error', args]),
+		};
+		const log = new Logger('dev', {console, level: 'info', colors: false});
+
+		const spawned = spawn_node(`console.log('out'); console.error('err');`, {label: 'server', log});
+		const lines = await collect(spawned);
+
+		assert.deepEqual(lines.map((l) => print_spawn_line(l)).sort(), [
+			'[server] err',
+			'[server] out',
+		]);
+		assert.sameDeepMembers(
+			logged.map(([method, args]) => [method, args.at(-1)]),
+			[
+				['log', '[server] out'],
+				['warn', '[server] err'],
+			],
+		);
+	});
+});
+
+describe('print_spawn_line', () => {
+	test('prefixes the label', () => {
+		const line: SpawnLine = {stream: 'stdout', text: 'done', time: 0, label: null};
+
+		assert.strictEqual(print_spawn_line(line), 'done');
+		assert.strictEqual(print_spawn_line({...line, label: 'build'}), '[build] done');
+	});
+});
@@ -0,0 +1,156 @@
+import {test, describe, assert} from 'vitest';
+
+import {
+	ProcessRegistry,
+	spawn_result_is_error,
+	spawn_result_is_signaled,
+	type SpawnPipelineStage,
+	type SpawnPipelineOptions,
+} from '$lib/process.js';
+
+const pipeline = (stages: Array<SpawnPipelineStage>, options?: SpawnPipelineOptions) => {
+	const registry = new ProcessRegistry();
+	return {registry, promise: registry.spawn_pipeline(stages, options)};
+};
+
+describe('spawn_pipeline', () => {
+	test('connects the stdout of each stage to the stdin of the next', async () => {
+		const {registry, promise} = pipeline([
+			{command: 'node', args: ['-e', `console.log('a\\nfoo 1\\nb\\nfoo 2')`]},
+			{command: 'grep', args: ['foo']},
+			{command: 'wc', args: ['-l']},
+		]);
+
+		const {ok, results, stdout, stderr} = await promise;
+
+		assert.ok(ok);
+		assert.strictEqual(results.length, 3);
+		assert.ok(results.every((r) => r.ok));
+		assert.strictEqual(stdout?.trim(), '2');
+		assert.deepEqual(stderr, ['', '', '']);
+		assert.strictEqual(registry.processes.size, 0);
+	});
+
+	test('writes input to the first stage', async () => {
+		const {promise} = pipeline([{command: 'cat'}, {command: 'tr', args: ['a-z', 'A-Z']}], {
+			input: 'hello',
+		});
+
+		assert.strictEqual((await promise).stdout, 'HELLO');
+	});
+
+	test('a single stage works like spawn_out', async () => {
+		const {promise} = pipeline([{command: 'echo', args: ['hello']}]);
+
+		const {ok, stdout} = await promise;
+
+		assert.ok(ok);
+		assert.strictEqual(stdout, 'hello\n');
+	});
+
+	test('reports failed stages with their stderr', async () => {
+		const {promise} = pipeline([
+			{command: 'node', args: ['-e', `console.error('bad'); process.exit(3)`]},
+			{command: 'cat'},
+		]);
+
+		const {ok, results, stdout, stderr} = await promise;
+
+		assert.ok(!ok);
+		assert.strictEqual(results[0]!.code, 3);
+		assert.ok(results[1]!.ok);
+		assert.strictEqual(stdout, '');
+		assert.deepEqual(stderr, ['bad\n', '']);
+	});
+
+	test('stages that fail to spawn have null output', async () => {
+		const {promise} = pipeline([
+			{command: 'echo', args: ['hello']},
+			{command: 'nonexistent_command_xyz_12345'},
+		]);
+
+		const {ok, results, stdout, stderr} = await promise;
+
+		assert.ok(!ok);
+		assert.ok(spawn_result_is_error(results[1]!));
+		assert.strictEqual(stdout, null);
+		assert.deepEqual(stderr, ['', null]);
+	});
+
+	test('stages that exit early end the stages before them', async () => {
+		const {promise} = pipeline([
+			{command: 'node', args: ['-e', `setInterval(() => console.log('y'), 1)`]},
+			{command: 'head', args: ['-n', '1']},
+		]);
+
+		const {results, stdout} = await promise;
+
+		assert.strictEqual(stdout, 'y\n');
+		assert.ok(results[1]!.ok);
+		assert.ok(!results[0]!.ok);
+	});
+
+	test('applies stage options over the pipeline options', async () => {
+		const {promise} = pipeline(
+			[
+				{command: 'node', args: ['-e', 'console.log(process.env.NAME)']},
+				{
+					command: 'node',
+					args: ['-e', `process.stdin.pipe(process.stdout); console.log(process.env.NAME)`],
+					options: {env: {...process.env, NAME: 'stage'}},
+				},
+			],
+			{env: {...process.env, NAME: 'pipeline'}},
+		);
+
+		const {stdout} = await promise;
+
+		assert.include(stdout, 'pipeline\n');
+		assert.include(stdout, 'stage\n');
+	});
+
+	test('timeout_ms kills all stages', async () => {
+		const {promise} = pipeline(
+			[
+				{command: 'sleep', args: ['10']},
+				{command: 'sleep', args: ['10']},
+			],
+			{timeout_ms: 50},
+		);
+
+		const {ok, results} = await promise;
+
+		assert.ok(!ok);
+		assert.ok(results.every((r) => spawn_result_is_signaled(r) && r.signal === 'SIGTERM'));
+	});
+
+	test('aborting the signal kills all stages', async () => {
+		const controller = new AbortController();
+		const {promise} = pipeline([{command: 'sleep', args: ['10']}, {command: 'cat'}], {
+			signal: controller.signal,
+		});
+		setTimeout(() => controller.abort(), 20);
+
+		const {results} = await promise;
+
+		assert.ok(results.every((r) => spawn_result_is_signaled(r)));
+	});
+
+	test('throws without stages and for negative timeout_ms', async () => {
+		const registry = new ProcessRegistry();
+
+		try {
+			await registry.spawn_pipeline([]);
+			assert.fail('Expected error');
+		} catch (err) {
+			assert.include((err as Error).message, 'at least one stage');
+		}
+		try {
+			await registry.spawn_pipeline([{command: 'echo'}], {timeout_ms: -1});
+			assert.fail('Expected error');
+		} catch (err) {
+			assert.include((err as Error).message, 'timeout_ms must be non-negative');
+		}
+		assert.strictEqual(registry.processes.size, 0);
+	});
+});
@@ -0,0 +1,196 @@
+import {test, describe, assert} from 'vitest';
+import {createServer} from 'node:net';
+import {mkdtemp, rm} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+
+import {ProcessRegistry, spawn_restartable_process, type SpawnReadyProbe} from '$lib/process.js';
+
+const LONG_RUNNING = 'setTimeout(() => {}, 10000);';
+
+const spawn_node = (script: string, ready?: SpawnReadyProbe, stdio?: 'pipe' | 'inherit') => {
+	const registry = new ProcessRegistry();
+	const spawned = registry.spawn('node', ['-e', script], stdio ? {ready, stdio} : {ready});
+	return {registry, ...spawned};
+};
+
+const get_free_port = (): Promise<number> =>
+	new Promise((resolve) => {
+		const server = createServer();
+		server.listen(0, () => {
+			const address = server.address();
+			server.close(() => resolve(typeof address === 'object' ? address!.port : 0));
+		});
+	});
+
+describe('spawn ready', () => {
+	test('resolves immediately without a probe', async () => {
+		const {registry, ready} = spawn_node(LONG_RUNNING);
+
+		const result = await ready;
+
+		assert.ok(result.ok);
+		assert.strictEqual(result.error, null);
+		await registry.despawn_all();
+	});
+
+	test('output probe matches lines', async () => {
+		const {registry, child, ready} = spawn_node(
+			`console.log('starting'); setTimeout(() => console.log('listening on 3000'), 20); ${LONG_RUNNING}`,
+			{type: 'output', pattern: /listening on \d+/},
+			'pipe',
+		);
+
+		const result = await ready;
+
+		assert.ok(result.ok);
+		assert.strictEqual(result.child, child);
+		await registry.despawn_all();
+	});
+
+	test('output probe leaves piped output to the caller', async () => {
+		const {registry, child, ready} = spawn_node(
+			`console.log('starting'); console.log('ready'); setTimeout(() => console.log('after'), 50); ${LONG_RUNNING}`,
+			{type: 'output', pattern: /^ready$/, stream: 'stdout'},
+			'pipe',
+		);
+
+		assert.ok((await ready).ok);
+		await new Promise((r) => setTimeout(r, 100));
+		let output = '';
+		child.stdout!.on('data', (data: Buffer) => (output += data.toString()));
+		await new Promise((r) => setTimeout(r, 100));
+
+		assert.strictEqual(output, 'starting\nready\nafter\n');
+		await registry.despawn_all();
+	});
+
+	test('output probe matches incomplete lines and stderr', async () => {
+		const {registry, ready} = spawn_node(
+			`process.stderr.write('ready> '); ${LONG_RUNNING}`,
+			{type: 'output', pattern: /^ready>/, stream: 'stderr'},
+			'pipe',
+		);
+
+		assert.ok((await ready).ok);
+		await registry.despawn_all();
+	});
+
+	test('output probe pipes output when stdio is not set', async () => {
+		const {registry, child, ready} = spawn_node(`console.log(''); ${LONG_RUNNING}`, {
+			type: 'output',
+			pattern: /^$/,
+			stream: 'stdout',
+		});
+
+		assert.ok(child.stdout);
+		assert.ok((await ready).ok);
+		await registry.despawn_all();
+	});
+
+	test('output probe fails when output is not piped', async () => {
+		const {registry, ready} = spawn_node(
+			LONG_RUNNING,
+			{type: 'output', pattern: /ready/},
+			'inherit',
+		);
+
+		const result = await ready;
+
+		assert.ok(!result.ok);
+		assert.strictEqual(result.reason, 'unavailable');
+		assert.strictEqual(
+			result.error.message,
+			`Cannot wait for output because stdout/stderr is not piped; spawn with \`stdio: 'pipe'\`: node -e ${LONG_RUNNING}`,
+		);
+		await registry.despawn_all();
+	});
+
+	test('fails with a descriptive error on timeout', async () => {
+		const {registry, child, ready} = spawn_node(
+			LONG_RUNNING,
+			{type: 'output', pattern: /never/, timeout_ms: 50},
+			'pipe',
+		);
+
+		const result = await ready;
+
+		assert.ok(!result.ok);
+		assert.strictEqual(result.reason, 'timeout');
+		assert.strictEqual(result.result, null);
+		assert.strictEqual(
+			result.error.message,
+			`Process not ready after 50ms waiting for stdout or stderr to match /never/: node -e ${LONG_RUNNING}`,
+		);
+		// The process keeps running
+		assert.strictEqual(child.exitCode, null);
+		await registry.despawn_all();
+	});
+
+	test('fails when the process exits before ready', async () => {
+		const {ready, closed} = spawn_node('process.exit(3)', {type: 'file', path: '/nonexistent/x'});
+
+		const result = await ready;
+
+		assert.ok(!result.ok);
+		assert.strictEqual(result.reason, 'exited');
+		assert.strictEqual(result.result, await closed);
+		assert.ok(
+			result.error.message.startsWith('Process exited with code 3 before ready waiting for file'),
+		);
+	});
+
+	test('port probe waits for connections', async () => {
+		const port = await get_free_port();
+		const {registry, ready} = spawn_node(
+			`setTimeout(() => require('node:net').createServer().listen(${port}, '127.0.0.1'), 50); ${LONG_RUNNING}`,
+			{type: 'port', port, host: '127.0.0.1', interval_ms: 10},
+		);
+
+		assert.ok((await ready).ok);
+		await registry.despawn_all();
+	});
+
+	test('file probe waits for the file', async () => {
+		const dir = await mkdtemp(join(tmpdir(), 'process_ready_'));
+		try {
+			const path = join(dir, 'ready');
+			const {registry, ready} = spawn_node(
+				`setTimeout(() => require('node:fs').writeFileSync(${JSON.stringify(path)}, ''), 30); ${LONG_RUNNING}`,
+				{type: 'file', path, interval_ms: 10},
+			);
+
+			assert.ok((await ready).ok);
+			await registry.despawn_all();
+		} finally {
+			await rm(dir, {recursive: true, force: true});
+		}
+	});
+
+	test('throws for negative timeout_ms', () => {
+		assert.throws(
+			() => spawn_node(LONG_RUNNING, {type: 'file', path: 'x', timeout_ms: -1}),
+			/timeout_ms must be non-negative/,
+		);
+	});
+});
+
+describe('spawn_restartable_process ready', () => {
+	test('resolves for each restarted process', async () => {
+		const rp = spawn_restartable_process('node', ['-e', `console.log('ready'); ${LONG_RUNNING}`], {
+			stdio: 'pipe',
+			ready: {type: 'output', pattern: /ready/},
+		});
+
+		const first = await rp.ready;
+		assert.ok(first.ok);
+		assert.strictEqual(first.child, rp.child);
+
+		await rp.restart();
+		const second = await rp.ready;
+		assert.ok(second.ok);
+		assert.notStrictEqual(second.child, first.child);
+
+		await rp.kill();
+	});
+});
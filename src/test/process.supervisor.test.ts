@@ -0,0 +1,174 @@
+import {test, describe, assert} from 'vitest';
+
+import {
+	ProcessRegistry,
+	ProcessSupervisor,
+	spawn_result_is_signaled,
+	type ProcessSupervisorEvent,
+	type ProcessSupervisorOptions,
+} from '$lib/process.js';
+
+const FAIL = ['-e', 'process.exit(1)'];
+const SUCCEED = ['-e', 'process.exit(0)'];
+
+const supervise = (args: Array<string>, options?: ProcessSupervisorOptions) => {
+	const registry = new ProcessRegistry();
+	const events: Array<ProcessSupervisorEvent> = [];
+	const supervisor = registry.supervise('node', args, {
+		backoff_initial_ms: 1,
+		jitter: 0,
+		on_event: (event) => events.push(event),
+		...options,
+	});
+	return {registry, supervisor, events};
+};
+
+describe('ProcessSupervisor', () => {
+	test('restarts failed processes until max_restarts', async () => {
+		const {supervisor, events} = supervise(FAIL, {max_restarts: 2});
+
+		const result = await supervisor.closed;
+
+		assert.ok(result && !result.ok);
+		assert.strictEqual(supervisor.state, 'failed');
+		assert.deepEqual(
+			events.map((e) => e.type),
+			['spawn', 'exit', 'restart', 'spawn', 'exit', 'restart', 'spawn', 'exit', 'give_up'],
+		);
+		const health = supervisor.health;
+		assert.strictEqual(health.restart_count, 2);
+		assert.strictEqual(health.recent_restart_count, 2);
+		assert.strictEqual(health.healthy, false);
+		assert.strictEqual(health.last_result, result);
+		assert.strictEqual(health.uptime_ms, null);
+	});
+
+	test('backs off exponentially with jitter', async () => {
+		const {supervisor, events} = supervise(FAIL, {
+			max_restarts: 3,
+			backoff_initial_ms: 4,
+			backoff_max_ms: 12,
+			jitter: 0.5,
+			random: () => 1,
+		});
+
+		await supervisor.closed;
+
+		const delays = events.flatMap((e) => (e.type === 'restart' ? [e.delay_ms] : []));
+		assert.deepEqual(delays, [6, 12, 18]);
+	});
+
+	test('on-failure stops after a clean exit', async () => {
+		const {supervisor, events} = supervise(SUCCEED);
+
+		const result = await supervisor.closed;
+
+		assert.ok(result?.ok);
+		assert.strictEqual(supervisor.state, 'stopped');
+		assert.deepEqual(
+			events.map((e) => e.type),
+			['spawn', 'exit', 'stop'],
+		);
+	});
+
+	test('always restarts after clean exits', async () => {
+		const {supervisor, events} = supervise(SUCCEED, {restart: 'always', max_restarts: 1});
+
+		await supervisor.closed;
+
+		assert.strictEqual(supervisor.state, 'failed');
+		assert.strictEqual(events.filter((e) => e.type === 'spawn').length, 2);
+	});
+
+	test('never restarts', async () => {
+		const {supervisor, events} = supervise(FAIL, {restart: 'never'});
+
+		await supervisor.closed;
+
+		assert.strictEqual(supervisor.state, 'failed');
+		assert.strictEqual(events.filter((e) => e.type === 'spawn').length, 1);
+	});
+
+	test('restarts outside the window are not counted', async () => {
+		const {supervisor} = supervise(FAIL, {max_restarts: 1, restart_window_ms: 0});
+
+		// Stop after a few restarts because the window never fills
+		while (supervisor.health.restart_count < 3) {
+			await new Promise((r) => setTimeout(r, 5)); // eslint-disable-line no-await-in-loop
+		}
+		await supervisor.stop();
+
+		assert.strictEqual(supervisor.state, 'stopped');
+		assert.strictEqual(supervisor.health.recent_restart_count, 0);
+	});
+
+	test('stop kills the running process without restarting', async () => {
+		const {registry, supervisor, events} = supervise(['-e', 'setTimeout(() => {}, 10000)']);
+		await new Promise((r) => setTimeout(r, 20));
+		assert.strictEqual(supervisor.state, 'running');
+		assert.ok(supervisor.health.healthy);
+		assert.ok(supervisor.child);
+		assert.ok(supervisor.health.uptime_ms! >= 0);
+
+		await supervisor.stop();
+
+		assert.strictEqual(supervisor.state, 'stopped');
+		assert.strictEqual(supervisor.child, null);
+		assert.strictEqual(registry.processes.size, 0);
+		const result = await supervisor.closed;
+		assert.ok(result && spawn_result_is_signaled(result));
+		assert.deepEqual(
+			events.map((e) => e.type),
+			['spawn', 'exit', 'stop'],
+		);
+	});
+
+	test('stop cancels the backoff', async () => {
+		const {supervisor, events} = supervise(FAIL, {backoff_initial_ms: 10_000});
+		while (supervisor.state !== 'backoff') {
+			await new Promise((r) => setTimeout(r, 5)); // eslint-disable-line no-await-in-loop
+		}
+
+		await supervisor.stop();
+
+		assert.strictEqual(supervisor.state, 'stopped');
+		assert.strictEqual(events.filter((e) => e.type === 'spawn').length, 1);
+	});
+
+	test('aborting the signal stops the supervisor', async () => {
+		const controller = new AbortController();
+		const {supervisor} = supervise(['-e', 'setTimeout(() => {}, 10000)'], {
+			signal: controller.signal,
+		});
+		await new Promise((r) => setTimeout(r, 20));
+
+		controller.abort();
+		await supervisor.closed;
+
+		assert.strictEqual(supervisor.state, 'stopped');
+		assert.strictEqual(supervisor.health.restart_count, 0);
+	});
+
+	test('does not start with an aborted signal', async () => {
+		const controller = new AbortController();
+		controller.abort();
+		const {supervisor, events} = supervise(SUCCEED, {signal: controller.signal});
+
+		assert.strictEqual(await supervisor.closed, null);
+		assert.strictEqual(supervisor.state, 'stopped');
+		assert.deepEqual(
+			events.map((e) => e.type),
+			['stop'],
+		);
+	});
+
+	test('is idle until started', async () => {
+		const supervisor = new ProcessSupervisor('node', SUCCEED, {}, new ProcessRegistry());
+		assert.strictEqual(supervisor.state, 'idle');
+
+		supervisor.start();
+		supervisor.start();
+
+		assert.ok((await supervisor.closed)?.ok);
+	});
+});
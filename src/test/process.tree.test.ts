@@ -0,0 +1,131 @@
+import {test, describe, assert, afterEach} from 'vitest';
+import {readFileSync} from 'node:fs';
+
+import {
+	ProcessRegistry,
+	process_get_descendants,
+	process_is_pid_running,
+	type SpawnProcessOptions,
+} from '$lib/process.js';
+
+// Prints the pid of a grandchild that runs until killed,
+// redirecting its output so the pipe closes when the shell exits
+const SHELL_WITH_GRANDCHILD = 'sleep 10 > /dev/null & echo $!; wait';
+// Like `SHELL_WITH_GRANDCHILD` but the grandchild ignores SIGTERM
+const SHELL_WITH_STUBBORN_GRANDCHILD = `node -e "process.on('SIGTERM', () => {}); console.log(process.pid); setTimeout(() => {}, 10000)" & wait`;
+
+const grandchild_pids: Array<number> = [];
+
+afterEach(() => {
+	for (const pid of grandchild_pids.splice(0)) {
+		try {
+			process.kill(pid, 'SIGKILL');
+		} catch {
+			// Already exited
+		}
+	}
+});
+
+const spawn_shell = async (script: string, options?: SpawnProcessOptions) => {
+	const registry = new ProcessRegistry();
+	const spawned = registry.spawn('sh', ['-c', script], {
+		stdio: ['ignore', 'pipe', 'inherit'],
+		...options,
+	});
+	const grandchild_pid = await new Promise<number>((resolve, reject) => {
+		spawned.child.stdout!.once('data', (data: Buffer) => resolve(Number(data.toString().trim())));
+		spawned.child.once('close', () => reject(new Error('exited before printing a pid')));
+	});
+	grandchild_pids.push(grandchild_pid);
+	return {registry, grandchild_pid, ...spawned};
+};
+
+// Zombies are not reaped in some containers, so `process_is_pid_running` is not enough
+const is_alive = (pid: number): boolean => {
+	try {
+		const stat = readFileSync(`/proc/${pid}/stat`, 'utf8');
+		return stat.slice(stat.lastIndexOf(')') + 2, stat.lastIndexOf(')') + 3) !== 'Z';
+	} catch {
+		return false;
+	}
+};
+
+describe.skipIf(process.platform !== 'linux')('process trees', () => {
+	test('process_get_descendants finds grandchildren', async () => {
+		const {registry, child, grandchild_pid} = await spawn_shell(SHELL_WITH_GRANDCHILD);
+
+		assert.include(process_get_descendants(child.pid!), grandchild_pid);
+		assert.include(process_get_descendants(process.pid), grandchild_pid);
+		assert.deepEqual(process_get_descendants(grandchild_pid), []);
+
+		await registry.despawn_all();
+	});
+
+	test('despawn without a group or tree leaves grandchildren running', async () => {
+		const {registry, child, grandchild_pid} = await spawn_shell(SHELL_WITH_GRANDCHILD);
+
+		await registry.despawn(child);
+
+		assert.ok(process_is_pid_running(grandchild_pid));
+	});
+
+	test('despawn signals the whole process group', async () => {
+		const {registry, child, grandchild_pid} = await spawn_shell(SHELL_WITH_GRANDCHILD, {
+			process_group: true,
+		});
+
+		const result = await registry.despawn(child, {timeout_ms: 1000});
+
+		assert.strictEqual(result.signal, 'SIGTERM');
+		assert.ok(!is_alive(grandchild_pid));
+	});
+
+	test('despawn with tree signals descendants', async () => {
+		const {registry, child, grandchild_pid} = await spawn_shell(SHELL_WITH_GRANDCHILD);
+
+		await registry.despawn(child, {tree: true, timeout_ms: 1000});
+
+		assert.ok(!is_alive(grandchild_pid));
+	});
+
+	test('despawn_all cleans up whole trees', async () => {
+		const {registry, grandchild_pid} = await spawn_shell(SHELL_WITH_GRANDCHILD);
+
+		await registry.despawn_all({timeout_ms: 1000});
+
+		assert.strictEqual(registry.processes.size, 0);
+		assert.ok(!is_alive(grandchild_pid));
+	});
+
+	test('escalates to SIGKILL for groups that ignore SIGTERM', async () => {
+		const {registry, child, grandchild_pid} = await spawn_shell(SHELL_WITH_STUBBORN_GRANDCHILD, {
+			process_group: true,
+		});
+
+		await registry.despawn(child, {timeout_ms: 100});
+
+		assert.ok(!is_alive(grandchild_pid));
+	});
+
+	test('escalates to SIGKILL for trees that ignore SIGTERM', async () => {
+		const {registry, grandchild_pid} = await spawn_shell(SHELL_WITH_STUBBORN_GRANDCHILD);
+
+		await registry.despawn_all({timeout_ms: 100});
+
+		assert.ok(!is_alive(grandchild_pid));
+	});
+
+	test('timeout_ms kills the process group', async () => {
+		const {closed, grandchild_pid} = await spawn_shell(SHELL_WITH_GRANDCHILD, {
+			process_group: true,
+			timeout_ms: 50,
+		});
+
+		const result = await closed;
+
+		assert.strictEqual(result.signal, 'SIGTERM');
+		// `sh` may exit before its child receives the signal
+		await new Promise((r) => setTimeout(r, 50));
+		assert.ok(!is_alive(grandchild_pid));
+	});
+});
@@ -19,7 +19,12 @@ import {
 	stats_ln_gamma,
 	stats_incomplete_beta,
 	stats_t_distribution_p_value,
+	stats_linear_regression,
+	stats_mann_whitney_u,
+	stats_bootstrap_median_difference,
+	stats_p_adjust,
 } from '$lib/stats.js';
+import {create_random_alea} from '$lib/random_alea.js';
 
 test('stats_mean', ({expect}) => {
 	expect(stats_mean([1, 2, 3, 4, 5])).toBe(3);
@@ -418,3 +423,163 @@ test('stats_t_distribution_p_value: small df', ({expect}) => {
 	const p_large_df = stats_t_distribution_p_value(2, 100);
 	expect(p_small_df).toBeGreaterThan(p_large_df);
 });
+
+test('stats_linear_regression: fits a line', ({expect}) => {
+	const result = stats_linear_regression([1, 2, 3, 4], [3, 5, 7, 9]);
+	expect(result.slope).toBeCloseTo(2);
+	expect(result.intercept).toBeCloseTo(1);
+	expect(result.r_squared).toBeCloseTo(1);
+});
+
+test('stats_linear_regression: noisy data has r_squared below 1', ({expect}) => {
+	const result = stats_linear_regression([1, 2, 3, 4, 5], [1, 3, 2, 5, 4]);
+	expect(result.slope).toBeCloseTo(0.8);
+	expect(result.r_squared).toBeGreaterThan(0);
+	expect(result.r_squared).toBeLessThan(1);
+});
+
+test('stats_linear_regression: flat data', ({expect}) => {
+	const result = stats_linear_regression([1, 2, 3], [5, 5, 5]);
+	expect(result.slope).toBe(0);
+	expect(result.intercept).toBe(5);
+	expect(result.r_squared).toBe(1);
+});
+
+test('stats_linear_regression: degenerate input', ({expect}) => {
+	expect(stats_linear_regression([], []).slope).toBeNaN();
+	expect(stats_linear_regression([1], [1]).slope).toBeNaN();
+	expect(stats_linear_regression([2, 2, 2], [1, 2, 3]).slope).toBeNaN();
+});
+
+test('stats_mann_whitney_u: separated samples', ({expect}) => {
+	const result = stats_mann_whitney_u([1, 2, 3, 4, 5], [6, 7, 8, 9, 10]);
+	expect(result.u_statistic).toBe(0);
+	expect(result.z_score).toBeCloseTo(-2.507, 3);
+	// Matches scipy.stats.mannwhitneyu with the continuity correction
+	expect(result.p_value).toBeCloseTo(0.0122, 3);
+	expect(stats_mann_whitney_u([6, 7, 8, 9, 10], [1, 2, 3, 4, 5]).u_statistic).toBe(25);
+});
+
+test('stats_mann_whitney_u: ties and identical samples', ({expect}) => {
+	const tied = stats_mann_whitney_u([1, 2, 2, 3], [2, 3, 3, 4]);
+	// Ties count half: 1 pair where a is greater and 4 tied pairs
+	expect(tied.u_statistic).toBe(3);
+	expect(tied.p_value).toBeGreaterThan(0.05);
+	expect(tied.p_value).toBeLessThan(1);
+
+	const identical = stats_mann_whitney_u([5, 5, 5], [5, 5, 5]);
+	expect(identical.z_score).toBe(0);
+	expect(identical.p_value).toBe(1);
+});
+
+test('stats_mann_whitney_u: robust to outliers', ({expect}) => {
+	const a = Array.from({length: 50}, (_, i) => 100 + (i % 10));
+	const b = Array.from({length: 50}, (_, i) => 105 + (i % 10));
+	// A single huge outlier barely moves the ranks
+	const with_outlier = [...a.slice(1), 1_000_000];
+	expect(stats_mann_whitney_u(a, b).p_value).toBeLessThan(0.05);
+	expect(stats_mann_whitney_u(with_outlier, b).p_value).toBeLessThan(0.05);
+});
+
+test('stats_mann_whitney_u: empty input', ({expect}) => {
+	expect(stats_mann_whitney_u([], [1, 2]).p_value).toBeNaN();
+	expect(stats_mann_whitney_u([1, 2], []).u_statistic).toBeNaN();
+});
+
+test('stats_bootstrap_median_difference: separated samples', ({expect}) => {
+	const a = Array.from({length: 40}, (_, i) => 100 + (i % 8));
+	const b = Array.from({length: 40}, (_, i) => 150 + (i % 8));
+
+	const result = stats_bootstrap_median_difference(a, b, {random: create_random_alea(1)});
+
+	expect(result.difference).toBe(50);
+	expect(result.confidence_interval[0]).toBeGreaterThan(40);
+	expect(result.confidence_interval[1]).toBeLessThan(60);
+	expect(result.p_value).toBe(0);
+});
+
+test('stats_bootstrap_median_difference: overlapping samples', ({expect}) => {
+	const a = Array.from({length: 40}, (_, i) => 100 + (i % 20));
+	const b = Array.from({length: 40}, (_, i) => 101 + (i % 20));
+
+	const result = stats_bootstrap_median_difference(a, b, {random: create_random_alea(1)});
+
+	expect(result.confidence_interval[0]).toBeLessThanOrEqual(0);
+	expect(result.confidence_interval[1]).toBeGreaterThanOrEqual(0);
+	expect(result.p_value).toBeGreaterThan(0.05);
+});
+
+test('stats_bootstrap_median_difference: seeded results are reproducible', ({expect}) => {
+	const a = Array.from({length: 30}, (_, i) => 100 + ((i * 7) % 13));
+	const b = Array.from({length: 30}, (_, i) => 103 + ((i * 5) % 11));
+	const options = {resamples: 200, confidence_level: 0.9};
+
+	const first = stats_bootstrap_median_difference(a, b, {
+		...options,
+		random: create_random_alea('seed'),
+	});
+	const second = stats_bootstrap_median_difference(a, b, {
+		...options,
+		random: create_random_alea('seed'),
+	});
+
+	expect(second).toEqual(first);
+	// A higher confidence level widens the interval
+	const wider = stats_bootstrap_median_difference(a, b, {
+		resamples: 200,
+		confidence_level: 0.99,
+		random: create_random_alea('seed'),
+	});
+	expect(wider.confidence_interval[0]).toBeLessThanOrEqual(first.confidence_interval[0]);
+	expect(wider.confidence_interval[1]).toBeGreaterThanOrEqual(first.confidence_interval[1]);
+});
+
+test('stats_bootstrap_median_difference: counts draws of the sorted values', ({expect}) => {
+	// Every draw picks the middle index, so each resample repeats one value
+	const result = stats_bootstrap_median_difference([40, 10, 30, 20], [5, 1, 3], {
+		resamples: 10,
+		random: () => 0.5,
+	});
+
+	expect(result.difference).toBe(3 - 25);
+	expect(result.confidence_interval).toEqual([3 - 30, 3 - 30]);
+});
+
+test('stats_bootstrap_median_difference: empty input', ({expect}) => {
+	const result = stats_bootstrap_median_difference([], [1, 2]);
+	expect(result.difference).toBeNaN();
+	expect(result.confidence_interval).toEqual([NaN, NaN]);
+});
+
+test('stats_p_adjust: holm', ({expect}) => {
+	// Matches R's p.adjust(method = 'holm')
+	const adjusted = stats_p_adjust([0.01, 0.04, 0.03, 0.005], 'holm');
+	expect(adjusted[0]).toBeCloseTo(0.03);
+	expect(adjusted[1]).toBeCloseTo(0.06);
+	expect(adjusted[2]).toBeCloseTo(0.06);
+	expect(adjusted[3]).toBeCloseTo(0.02);
+	expect(stats_p_adjust([0.5, 0.9], 'holm')).toEqual([1, 1]);
+});
+
+test('stats_p_adjust: benjamini_hochberg', ({expect}) => {
+	// Matches R's p.adjust(method = 'BH')
+	const adjusted = stats_p_adjust([0.01, 0.04, 0.03, 0.005], 'benjamini_hochberg');
+	expect(adjusted[0]).toBeCloseTo(0.02);
+	expect(adjusted[1]).toBeCloseTo(0.04);
+	expect(adjusted[2]).toBeCloseTo(0.04);
+	expect(adjusted[3]).toBeCloseTo(0.02);
+	// Never below the unadjusted p-values, and no more conservative than holm
+	const p_values = [0.001, 0.2, 0.03, 0.02, 0.8];
+	const bh = stats_p_adjust(p_values, 'benjamini_hochberg');
+	const holm = stats_p_adjust(p_values, 'holm');
+	for (let i = 0; i < p_values.length; i++) {
+		expect(bh[i]).toBeGreaterThanOrEqual(p_values[i]!);
+		expect(bh[i]).toBeLessThanOrEqual(holm[i]!);
+	}
+});
+
+test('stats_p_adjust: edge cases', ({expect}) => {
+	expect(stats_p_adjust([], 'holm')).toEqual([]);
+	expect(stats_p_adjust([0.04], 'holm')).toEqual([0.04]);
+	expect(stats_p_adjust([0.04], 'benjamini_hochberg')).toEqual([0.04]);
+});